@@ -18,8 +18,16 @@
  * @fileoverview A comprehensive logging utility for both client and server environments.
  * Provides structured logging with support for different log levels, colorization,
  * and contextual information.
+ *
+ * Every log call builds a {@link LogRecord} and hands it to the logger's
+ * transports: pretty console output, NDJSON on stdout, a rotating file, or an
+ * in-memory ring buffer. Sensitive keys are redacted before any transport sees
+ * the record, and debug/trace messages can be sampled. When an OpenTelemetry
+ * span is active, its trace and span IDs are attached to the record.
  */
 
+import { isSpanContextValid, trace } from "@opentelemetry/api";
+
 /**
  * Determines if the code is running in a server environment
  */
@@ -75,6 +83,74 @@ export interface LogData {
 	[key: string]: unknown;
 }
 
+/**
+ * Names of the logging methods, as they appear in log records
+ * @typedef {'error' | 'warn' | 'info' | 'debug' | 'trace' | 'action' | 'success'} LevelName
+ */
+export type LevelName =
+	| "error"
+	| "warn"
+	| "info"
+	| "debug"
+	| "trace"
+	| "action"
+	| "success";
+
+/**
+ * Log level each method is filtered by
+ */
+const LEVEL_VALUES: Record<LevelName, LogLevel> = {
+	error: LogLevel.ERROR,
+	warn: LogLevel.WARN,
+	info: LogLevel.INFO,
+	action: LogLevel.INFO,
+	success: LogLevel.INFO,
+	debug: LogLevel.DEBUG,
+	trace: LogLevel.TRACE,
+};
+
+/**
+ * A single log entry as passed to transports
+ * @interface
+ */
+export interface LogRecord {
+	/** ISO timestamp */
+	time: string;
+	level: LevelName;
+	/** The logger's context name */
+	context: string;
+	environment: "server" | "client";
+	message: string;
+	/** Trace ID of the OpenTelemetry span active when the record was created */
+	traceId?: string;
+	/** Span ID of the OpenTelemetry span active when the record was created */
+	spanId?: string;
+	/** Bound fields of the logger merged with the call's data, already redacted */
+	data?: LogData;
+}
+
+/**
+ * A destination for log records
+ * @interface
+ */
+export interface LogTransport {
+	/**
+	 * Optional per-transport threshold, applied after the logger's own level
+	 */
+	minLevel?: LogLevel;
+
+	/**
+	 * Write one record. Must not throw.
+	 * @param {LogRecord} record - The record to write
+	 */
+	write(record: LogRecord): void;
+
+	/**
+	 * Wait for buffered records to be written
+	 */
+	flush?(): Promise<void>;
+}
+
 /**
  * Configuration options for the Logger
  * @interface
@@ -104,11 +180,443 @@ export interface LoggerOptions {
 	 * Path to the log file if logToFile is enabled
 	 */
 	filePath?: string;
+
+	/**
+	 * Output format of the default stdout transport: human-readable or one JSON object per line
+	 */
+	format?: "pretty" | "ndjson";
+
+	/**
+	 * Replaces the default transports (console, plus the file if logToFile is set)
+	 */
+	transports?: LogTransport[];
+
+	/**
+	 * Keys whose values are replaced with "[REDACTED]", matched case-insensitively
+	 * at any depth and as URL query parameters inside strings
+	 */
+	redact?: string[];
+
+	/**
+	 * Fraction (0–1) of debug and trace messages to keep
+	 */
+	sampling?: Partial<Record<"debug" | "trace", number>>;
+
+	/**
+	 * Fields added to every record
+	 */
+	fields?: LogData;
+}
+
+/**
+ * Keys redacted by default
+ */
+export const DEFAULT_REDACTED_KEYS = [
+	"apikey",
+	"api_key",
+	"key",
+	"access_key",
+	"authorization",
+	"password",
+	"secret",
+];
+
+const REDACTED = "[REDACTED]";
+
+/**
+ * Replaces sensitive values in log data. Plain objects and arrays are copied;
+ * other objects (dates, class instances) are passed through untouched.
+ *
+ * @param {unknown} value - The value to redact
+ * @param {Set<string>} keys - Lowercased keys to redact
+ * @param {RegExp} [queryPattern] - Matches sensitive query parameters in strings
+ * @param {WeakSet<object>} [ancestors] - Objects being copied, to cut cycles
+ * @returns {unknown} A redacted copy
+ */
+export function redact(
+	value: unknown,
+	keys: Set<string>,
+	queryPattern = queryParamPattern(keys),
+	ancestors = new WeakSet<object>(),
+): unknown {
+	if (typeof value === "string") {
+		return queryPattern ? value.replace(queryPattern, `$1${REDACTED}`) : value;
+	}
+	if (value instanceof Error) {
+		value = { name: value.name, message: value.message, stack: value.stack };
+	}
+	if (value === null || typeof value !== "object") return value;
+
+	const proto = Object.getPrototypeOf(value);
+	if (!Array.isArray(value) && proto !== Object.prototype && proto !== null) {
+		return value;
+	}
+	if (ancestors.has(value)) return "[Circular]";
+
+	ancestors.add(value);
+	const copy = Array.isArray(value)
+		? value.map((v) => redact(v, keys, queryPattern, ancestors))
+		: Object.fromEntries(
+				Object.entries(value).map(([k, v]) => [
+					k,
+					keys.has(k.toLowerCase())
+						? REDACTED
+						: redact(v, keys, queryPattern, ancestors),
+				]),
+			);
+	ancestors.delete(value);
+	return copy;
+}
+
+/**
+ * Builds a pattern matching `?key=value` / `&key=value` for the given keys
+ */
+function queryParamPattern(keys: Set<string>): RegExp | undefined {
+	if (keys.size === 0) return undefined;
+	const names = [...keys].map((k) => k.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+	return new RegExp(`([?&](?:${names.join("|")})=)[^&#\\s"']+`, "gi");
+}
+
+/**
+ * JSON.stringify that tolerates circular references, BigInts and Errors
+ *
+ * @param {unknown} value - The value to serialize
+ * @param {number} [space] - Indentation, as for JSON.stringify
+ * @returns {string} The JSON text
+ */
+export function safeStringify(value: unknown, space?: number): string {
+	const seen = new WeakSet<object>();
+	return JSON.stringify(
+		value,
+		(_key, v) => {
+			if (typeof v === "bigint") return v.toString();
+			if (v instanceof Error) {
+				return { name: v.name, message: v.message, stack: v.stack };
+			}
+			if (v !== null && typeof v === "object") {
+				if (seen.has(v)) return "[Circular]";
+				seen.add(v);
+			}
+			return v;
+		},
+		space,
+	);
+}
+
+/** ANSI color codes for terminal output */
+const COLORS: Record<ColorKey, string> = {
+	reset: "\x1b[0m",
+	red: "\x1b[31m",
+	green: "\x1b[32m",
+	yellow: "\x1b[33m",
+	blue: "\x1b[34m",
+	magenta: "\x1b[35m",
+	cyan: "\x1b[36m",
+	white: "\x1b[37m",
+	gray: "\x1b[90m",
+	bold: "\x1b[1m",
+};
+
+/** Mapping of log levels to their display colors */
+const LEVEL_COLORS: Record<LevelName, ColorKey> = {
+	error: "red",
+	warn: "yellow",
+	info: "blue",
+	debug: "gray",
+	trace: "cyan",
+	action: "magenta",
+	success: "green",
+};
+
+/**
+ * Human-readable console output, one `console.*` call per record
+ */
+export class ConsoleTransport implements LogTransport {
+	/**
+	 * @param {object} [options] - Formatting options
+	 * @param {boolean} [options.colorize=true] - Apply ANSI colors
+	 * @param {boolean} [options.includeTimestamp=true] - Prefix records with their timestamp
+	 * @param {LogLevel} [options.minLevel] - Per-transport threshold
+	 */
+	constructor(
+		private readonly options: {
+			colorize?: boolean;
+			includeTimestamp?: boolean;
+			minLevel?: LogLevel;
+		} = {},
+	) {}
+
+	get minLevel(): LogLevel | undefined {
+		return this.options.minLevel;
+	}
+
+	/**
+	 * Apply color to text if colorization is enabled
+	 *
+	 * @param {ColorKey} color - The color to apply
+	 * @param {string} text - The text to colorize
+	 * @returns {string} Colorized text (if enabled) or original text
+	 * @private
+	 */
+	private colorize(color: ColorKey, text: string): string {
+		if (this.options.colorize === false) return text;
+		return `${COLORS[color]}${text}${COLORS.reset}`;
+	}
+
+	/**
+	 * Format the record's data, expanding errors
+	 *
+	 * @param {LogData} data - The record data
+	 * @returns {string[]} Output fragments
+	 * @private
+	 */
+	private formatData(data: LogData): string[] {
+		const error = data.error as
+			| { name?: string; message?: string; stack?: string }
+			| undefined;
+		if (!error || typeof error !== "object" || !("message" in error)) {
+			return [`\n${safeStringify(data, 2)}`];
+		}
+
+		const parts = [
+			"\nError Details:",
+			`  Name: ${error.name}`,
+			`  Message: ${error.message}`,
+		];
+		if (error.stack) parts.push(`  Stack: ${error.stack}`);
+
+		// Remove error from data to avoid duplication
+		const { error: _error, ...restData } = data;
+		if (Object.keys(restData).length > 0) {
+			parts.push("\nAdditional Data:", safeStringify(restData, 2));
+		}
+		return parts;
+	}
+
+	write(record: LogRecord): void {
+		const timestamp =
+			this.options.includeTimestamp === false ? "" : record.time;
+		const environment =
+			record.environment === "server" ? "[SERVER]" : "[CLIENT]";
+		let level = this.colorize(
+			LEVEL_COLORS[record.level],
+			`[${record.level.toUpperCase()}]`,
+		);
+		if (record.level === "error") level = this.colorize("bold", level);
+
+		const line = [
+			`${level} ${timestamp} ${environment} ${record.context}:`,
+			record.message,
+			...(record.traceId
+				? [this.colorize("gray", `(trace ${record.traceId})`)]
+				: []),
+			...(record.data ? this.formatData(record.data) : []),
+		].join(" ");
+
+		switch (record.level) {
+			case "error":
+				console.error(line);
+				break;
+			case "warn":
+				console.warn(line);
+				break;
+			case "debug":
+			case "trace":
+				console.debug(line);
+				break;
+			default:
+				console.log(line);
+		}
+	}
+}
+
+/**
+ * Serializes a record as one flat JSON object
+ */
+const toJsonLine = (record: LogRecord): string =>
+	safeStringify({
+		time: record.time,
+		level: record.level,
+		context: record.context,
+		environment: record.environment,
+		message: record.message,
+		...(record.traceId && { traceId: record.traceId, spanId: record.spanId }),
+		...record.data,
+	});
+
+/**
+ * One JSON object per line on stdout (`console.log` in the browser), for log
+ * collectors
+ */
+export class NdjsonTransport implements LogTransport {
+	/**
+	 * @param {LogLevel} [minLevel] - Per-transport threshold
+	 */
+	constructor(readonly minLevel?: LogLevel) {}
+
+	write(record: LogRecord): void {
+		const line = toJsonLine(record);
+		if (typeof process !== "undefined" && process.stdout?.write) {
+			process.stdout.write(`${line}\n`);
+		} else {
+			console.log(line);
+		}
+	}
+}
+
+/**
+ * Options for {@link RotatingFileTransport}
+ * @interface
+ */
+export interface RotatingFileOptions {
+	/** The active log file; rotated files get `.1`, `.2`, ... appended */
+	filePath: string;
+	/** Rotate before the file would grow past this many bytes (default 10 MiB) */
+	maxBytes?: number;
+	/** Rotate once the active file is older than this many milliseconds */
+	maxAge?: number;
+	/** Rotated files to keep (default 5) */
+	maxFiles?: number;
+	/** Per-transport threshold */
+	minLevel?: LogLevel;
+}
+
+/**
+ * Appends NDJSON records to a file (server-side only), rotating it by size
+ * and/or age. Writes are queued in order; call {@link flush} before exit.
+ */
+export class RotatingFileTransport implements LogTransport {
+	readonly minLevel?: LogLevel;
+	private queue: Promise<void> = Promise.resolve();
+	private size = -1;
+	private openedAt = 0;
+
+	/**
+	 * @param {RotatingFileOptions} options - File path and rotation policy
+	 */
+	constructor(private readonly options: RotatingFileOptions) {
+		this.minLevel = options.minLevel;
+	}
+
+	write(record: LogRecord): void {
+		const line = `${toJsonLine(record)}\n`;
+		this.queue = this.queue
+			.then(() => this.append(line))
+			.catch((error) => console.error("Log file write failed", error));
+	}
+
+	flush(): Promise<void> {
+		return this.queue;
+	}
+
+	/**
+	 * Rotate if needed, then append one line
+	 * @private
+	 */
+	private async append(line: string): Promise<void> {
+		// Loaded lazily so the module stays safe to bundle for the browser
+		const fs = await import("node:fs/promises");
+		const path = await import("node:path");
+		const { filePath, maxBytes = 10 * 1024 * 1024, maxAge } = this.options;
+
+		if (this.size < 0) {
+			await fs.mkdir(path.dirname(filePath), { recursive: true });
+			const stat = await fs.stat(filePath).catch(() => undefined);
+			this.size = stat?.size ?? 0;
+			this.openedAt = stat?.birthtimeMs || stat?.mtimeMs || Date.now();
+		}
+
+		const bytes = new TextEncoder().encode(line).byteLength;
+		const tooBig = this.size > 0 && this.size + bytes > maxBytes;
+		const tooOld =
+			maxAge !== undefined &&
+			this.size > 0 &&
+			Date.now() - this.openedAt >= maxAge;
+		if (tooBig || tooOld) await this.rotate(fs);
+
+		await fs.appendFile(filePath, line);
+		this.size += bytes;
+	}
+
+	/**
+	 * Shift `file.N-1` to `file.N`, ..., and the active file to `file.1`
+	 * @private
+	 */
+	private async rotate(fs: typeof import("node:fs/promises")): Promise<void> {
+		const { filePath, maxFiles = 5 } = this.options;
+		await fs.rm(`${filePath}.${maxFiles}`, { force: true });
+		for (let i = maxFiles - 1; i >= 1; i--) {
+			await fs
+				.rename(`${filePath}.${i}`, `${filePath}.${i + 1}`)
+				.catch(() => {});
+		}
+		if (maxFiles > 0) await fs.rename(filePath, `${filePath}.1`);
+		else await fs.rm(filePath, { force: true });
+		this.size = 0;
+		this.openedAt = Date.now();
+	}
+}
+
+/**
+ * Keeps the most recent records in memory, e.g. for a diagnostics endpoint
+ * or for asserting on logs
+ */
+export class RingBufferTransport implements LogTransport {
+	private buffer: LogRecord[] = [];
+	private next = 0;
+
+	/**
+	 * @param {number} [capacity=1000] - Records to keep
+	 * @param {LogLevel} [minLevel] - Per-transport threshold
+	 */
+	constructor(
+		readonly capacity = 1_000,
+		readonly minLevel?: LogLevel,
+	) {}
+
+	write(record: LogRecord): void {
+		if (this.buffer.length < this.capacity) {
+			this.buffer.push(record);
+		} else {
+			this.buffer[this.next] = record;
+		}
+		this.next = (this.next + 1) % this.capacity;
+	}
+
+	/**
+	 * The kept records, oldest first
+	 * @returns {LogRecord[]} A copy of the buffer
+	 */
+	entries(): LogRecord[] {
+		return this.buffer.length < this.capacity
+			? [...this.buffer]
+			: [...this.buffer.slice(this.next), ...this.buffer.slice(0, this.next)];
+	}
+
+	/**
+	 * Drop all kept records
+	 */
+	clear(): void {
+		this.buffer = [];
+		this.next = 0;
+	}
+}
+
+/**
+ * Settings shared by a logger and its children
+ */
+interface SharedConfig {
+	minLevel: LogLevel;
+	transports: LogTransport[];
+	redactKeys: Set<string>;
+	redactPattern?: RegExp;
+	sampling: Partial<Record<"debug" | "trace", number>>;
 }
 
 /**
  * A versatile logging utility that works in both browser and Node.js environments.
- * Supports multiple log levels, colorized output, and structured data logging.
+ * Supports multiple log levels, pluggable transports, child loggers with bound
+ * fields, redaction and sampling.
  */
 export class Logger {
 	/** The context/category name for this logger instance */
@@ -117,43 +625,15 @@ export class Logger {
 	/** Whether this logger is running in a server environment */
 	private isServerContext: boolean;
 
-	/** The minimum log level that will be output */
-	private minLevel: LogLevel;
-
-	/** Whether to include ISO timestamps in log messages */
-	private includeTimestamp: boolean;
+	/** Level, transports, redaction and sampling; shared with child loggers */
+	private config: SharedConfig;
 
-	/** Whether to apply ANSI color codes to the output */
-	private shouldColorize: boolean;
+	/** Fields added to every record from this logger */
+	private fields: LogData;
 
 	/** Registry of logger instances to implement the singleton pattern */
 	private static instances: Map<string, Logger> = new Map();
 
-	/** ANSI color codes for terminal output */
-	private colors: Record<ColorKey, string> = {
-		reset: "\x1b[0m",
-		red: "\x1b[31m",
-		green: "\x1b[32m",
-		yellow: "\x1b[33m",
-		blue: "\x1b[34m",
-		magenta: "\x1b[35m",
-		cyan: "\x1b[36m",
-		white: "\x1b[37m",
-		gray: "\x1b[90m",
-		bold: "\x1b[1m",
-	};
-
-	/** Mapping of log levels to their display colors */
-	private levelColors: Record<string, ColorKey> = {
-		error: "red",
-		warn: "yellow",
-		info: "blue",
-		debug: "gray",
-		trace: "cyan",
-		action: "magenta",
-		success: "green",
-	};
-
 	/**
 	 * Create a new Logger instance or return an existing one for the given context
 	 * @param {string} context - The context name for this logger (e.g., component or service name)
@@ -162,11 +642,46 @@ export class Logger {
 	constructor(context: string, options: LoggerOptions = {}) {
 		this.context = context;
 		this.isServerContext = isServer;
-		this.minLevel =
-			options.minLevel ??
-			(process.env.NODE_ENV === "production" ? LogLevel.ERROR : LogLevel.ALL);
-		this.includeTimestamp = options.includeTimestamp ?? true;
-		this.shouldColorize = options.colorize ?? this.isServerContext;
+		this.fields = options.fields ?? {};
+
+		const redactKeys = new Set(
+			(options.redact ?? DEFAULT_REDACTED_KEYS).map((k) => k.toLowerCase()),
+		);
+		this.config = {
+			minLevel:
+				options.minLevel ??
+				(process.env.NODE_ENV === "production" ? LogLevel.ERROR : LogLevel.ALL),
+			transports: options.transports ?? Logger.defaultTransports(options),
+			redactKeys,
+			redactPattern: queryParamPattern(redactKeys),
+			sampling: options.sampling ?? {},
+		};
+	}
+
+	/**
+	 * Build the transports implied by the basic options
+	 *
+	 * @param {LoggerOptions} options - Logger configuration
+	 * @returns {LogTransport[]} Stdout transport, plus a file if requested
+	 * @private
+	 */
+	private static defaultTransports(options: LoggerOptions): LogTransport[] {
+		const transports: LogTransport[] = [
+			options.format === "ndjson"
+				? new NdjsonTransport()
+				: new ConsoleTransport({
+						colorize: options.colorize ?? isServer,
+						includeTimestamp: options.includeTimestamp ?? true,
+					}),
+		];
+		if (options.logToFile && isServer) {
+			transports.push(
+				new RotatingFileTransport({
+					filePath: options.filePath ?? "./logs/app.log",
+				}),
+			);
+		}
+		return transports;
 	}
 
 	/**
@@ -191,10 +706,43 @@ export class Logger {
 	 */
 	public static setGlobalLogLevel(level: LogLevel): void {
 		Logger.instances.forEach((logger) => {
-			logger.minLevel = level;
+			logger.config.minLevel = level;
 		});
 	}
 
+	/**
+	 * Create a logger that adds `fields` to every record. It shares this
+	 * logger's level, transports, redaction and sampling.
+	 *
+	 * @param {LogData} fields - Fields to bind, e.g. `{ requestId }`
+	 * @param {string} [context] - Context name; defaults to this logger's
+	 * @returns {Logger} The child logger
+	 */
+	child(fields: LogData, context = this.context): Logger {
+		const child = Object.create(Logger.prototype) as Logger;
+		child.context = context;
+		child.isServerContext = this.isServerContext;
+		child.config = this.config;
+		child.fields = { ...this.fields, ...fields };
+		return child;
+	}
+
+	/**
+	 * Add a transport to this logger and its children
+	 *
+	 * @param {LogTransport} transport - The transport to add
+	 */
+	addTransport(transport: LogTransport): void {
+		this.config.transports.push(transport);
+	}
+
+	/**
+	 * Wait for every transport to write buffered records
+	 */
+	async flush(): Promise<void> {
+		await Promise.all(this.config.transports.map((t) => t.flush?.()));
+	}
+
 	/**
 	 * Determine if the current environment should log messages at the specified level
 	 *
@@ -204,7 +752,7 @@ export class Logger {
 	 */
 	private shouldLog(level: LogLevel): boolean {
 		// Check if level meets minimum threshold
-		if (level > this.minLevel) return false;
+		if (level > this.config.minLevel) return false;
 
 		// Always log server-side actions
 		if (this.isServerContext) return true;
@@ -217,89 +765,52 @@ export class Logger {
 	}
 
 	/**
-	 * Format a log message with metadata
+	 * Build, redact and dispatch a record to the transports
 	 *
-	 * @param {string} level - The log level
+	 * @param {LevelName} level - The log level
 	 * @param {string} message - The message to log
 	 * @param {LogData} [data] - Optional data to include
-	 * @returns {Object} Formatted message with prefix and data
-	 * @private
-	 */
-	private formatMessage(level: string, message: string, data?: LogData) {
-		const timestamp = this.includeTimestamp ? new Date().toISOString() : "";
-		const environment = this.isServerContext ? "[SERVER]" : "[CLIENT]";
-		const prefix = `${timestamp} ${environment} ${this.context}:`;
-		return { level, prefix, message, ...(data && { data }) };
-	}
-
-	/**
-	 * Apply color to text if colorization is enabled
-	 *
-	 * @param {ColorKey} color - The color to apply
-	 * @param {string} text - The text to colorize
-	 * @returns {string} Colorized text (if enabled) or original text
 	 * @private
 	 */
-	private colorize(color: ColorKey, text: string): string {
-		// Only apply colors if enabled
-		if (!this.shouldColorize) return text;
-		return `${this.colors[color]}${text}${this.colors.reset}`;
-	}
-
-	/**
-	 * Format a log level indicator with brackets
-	 *
-	 * @param {string} level - The log level string
-	 * @returns {string} Formatted log level indicator
-	 * @private
-	 */
-	private formatLogLevel(level: string): string {
-		return `[${level.toUpperCase()}]`;
-	}
-
-	/**
-	 * Format the final log output combining all components
-	 *
-	 * @param {Object} params - The formatted log data
-	 * @param {string} params.prefix - The log prefix with context information
-	 * @param {string} params.message - The main log message
-	 * @param {LogData} [params.data] - Optional structured data to include
-	 * @returns {string} The complete formatted log message
-	 * @private
-	 */
-	private formatOutput({
-		prefix,
-		message,
-		data,
-	}: {
-		prefix: string;
-		message: string;
-		data?: LogData;
-	}): string {
-		const logParts = [prefix, message];
-
-		if (data) {
-			// Handle special cases like Error objects better
-			if (data.error instanceof Error) {
-				logParts.push("\nError Details:");
-				logParts.push(`  Name: ${data.error.name}`);
-				logParts.push(`  Message: ${data.error.message}`);
-				if (data.error.stack) {
-					logParts.push(`  Stack: ${data.error.stack}`);
-				}
-
-				// Remove error from data to avoid duplication
-				const { error, ...restData } = data;
-				if (Object.keys(restData).length > 0) {
-					logParts.push("\nAdditional Data:");
-					logParts.push(JSON.stringify(restData, null, 2));
-				}
-			} else {
-				logParts.push("\n" + JSON.stringify(data, null, 2));
+	private emit(level: LevelName, message: string, data?: LogData): void {
+		const value = LEVEL_VALUES[level];
+		if (!this.shouldLog(value)) return;
+
+		const rate =
+			level === "debug" || level === "trace"
+				? this.config.sampling[level]
+				: undefined;
+		if (rate !== undefined && Math.random() >= rate) return;
+
+		const merged = { ...this.fields, ...data };
+		const { redactKeys, redactPattern } = this.config;
+		const spanContext = trace.getActiveSpan()?.spanContext();
+		const record: LogRecord = {
+			time: new Date().toISOString(),
+			level,
+			context: this.context,
+			environment: this.isServerContext ? "server" : "client",
+			message: redact(message, redactKeys, redactPattern) as string,
+			...(spanContext &&
+				isSpanContextValid(spanContext) && {
+					traceId: spanContext.traceId,
+					spanId: spanContext.spanId,
+				}),
+			...(Object.keys(merged).length > 0 && {
+				data: redact(merged, redactKeys, redactPattern) as LogData,
+			}),
+		};
+
+		for (const transport of this.config.transports) {
+			if (transport.minLevel !== undefined && value > transport.minLevel) {
+				continue;
+			}
+			try {
+				transport.write(record);
+			} catch {
+				// A failing transport must not break the caller
 			}
 		}
-
-		return logParts.join(" ");
 	}
 
 	/**
@@ -309,13 +820,7 @@ export class Logger {
 	 * @param {LogData} [data] - Optional data to include
 	 */
 	info(message: string, data?: LogData): void {
-		if (!this.shouldLog(LogLevel.INFO)) return;
-		const formattedData = this.formatMessage("info", message, data);
-		console.log(
-			this.colorize(this.levelColors.info, this.formatLogLevel("info")) +
-				" " +
-				this.formatOutput(formattedData),
-		);
+		this.emit("info", message, data);
 	}
 
 	/**
@@ -326,25 +831,15 @@ export class Logger {
 	 * @param {LogData} [data] - Optional additional data
 	 */
 	error(message: string, error?: Error | unknown, data?: LogData): void {
-		if (!this.shouldLog(LogLevel.ERROR)) return;
 		const errorData =
 			error instanceof Error
 				? { name: error.name, message: error.message, stack: error.stack }
 				: error;
 
-		const formattedData = this.formatMessage("error", message, {
+		this.emit("error", message, {
 			...data,
-			error: errorData,
+			...(error !== undefined && { error: errorData }),
 		});
-
-		console.error(
-			this.colorize(
-				"bold",
-				this.colorize(this.levelColors.error, this.formatLogLevel("error")),
-			) +
-				" " +
-				this.formatOutput(formattedData),
-		);
 	}
 
 	/**
@@ -354,13 +849,7 @@ export class Logger {
 	 * @param {LogData} [data] - Optional data to include
 	 */
 	warn(message: string, data?: LogData): void {
-		if (!this.shouldLog(LogLevel.WARN)) return;
-		const formattedData = this.formatMessage("warn", message, data);
-		console.warn(
-			this.colorize(this.levelColors.warn, this.formatLogLevel("warn")) +
-				" " +
-				this.formatOutput(formattedData),
-		);
+		this.emit("warn", message, data);
 	}
 
 	/**
@@ -370,13 +859,7 @@ export class Logger {
 	 * @param {LogData} [data] - Optional data to include
 	 */
 	debug(message: string, data?: LogData): void {
-		if (!this.shouldLog(LogLevel.DEBUG)) return;
-		const formattedData = this.formatMessage("debug", message, data);
-		console.debug(
-			this.colorize(this.levelColors.debug, this.formatLogLevel("debug")) +
-				" " +
-				this.formatOutput(formattedData),
-		);
+		this.emit("debug", message, data);
 	}
 
 	/**
@@ -386,13 +869,7 @@ export class Logger {
 	 * @param {LogData} [data] - Optional data to include
 	 */
 	trace(message: string, data?: LogData): void {
-		if (!this.shouldLog(LogLevel.TRACE)) return;
-		const formattedData = this.formatMessage("trace", message, data);
-		console.debug(
-			this.colorize(this.levelColors.trace, this.formatLogLevel("trace")) +
-				" " +
-				this.formatOutput(formattedData),
-		);
+		this.emit("trace", message, data);
 	}
 
 	/**
@@ -402,13 +879,7 @@ export class Logger {
 	 * @param {LogData} [data] - Optional data to include
 	 */
 	action(message: string, data?: LogData): void {
-		if (!this.shouldLog(LogLevel.INFO)) return;
-		const formattedData = this.formatMessage("action", message, data);
-		console.log(
-			this.colorize(this.levelColors.action, this.formatLogLevel("action")) +
-				" " +
-				this.formatOutput(formattedData),
-		);
+		this.emit("action", message, data);
 	}
 
 	/**
@@ -418,13 +889,7 @@ export class Logger {
 	 * @param {LogData} [data] - Optional data to include
 	 */
 	success(message: string, data?: LogData): void {
-		if (!this.shouldLog(LogLevel.INFO)) return;
-		const formattedData = this.formatMessage("success", message, data);
-		console.log(
-			this.colorize(this.levelColors.success, this.formatLogLevel("success")) +
-				" " +
-				this.formatOutput(formattedData),
-		);
+		this.emit("success", message, data);
 	}
 
 	/**
@@ -434,7 +899,7 @@ export class Logger {
 	 */
 	group(label: string): void {
 		if (!this.shouldLog(LogLevel.INFO)) return;
-		console.group({ label: this.colorize("bold", label) });
+		console.group({ label });
 	}
 
 	/**
@@ -498,6 +963,28 @@ const logger2 = Logger.getLogger("ApiClient"); // Returns the same instance
 // Set global log level
 Logger.setGlobalLogLevel(LogLevel.WARN); // Only show warnings and errors
 
+// NDJSON to stdout plus a file rotated daily or at 50 MB
+const serverLogger = new Logger("Server", {
+  format: "ndjson",
+  logToFile: true,
+  filePath: "./logs/server.log",
+});
+// or pick transports explicitly
+const recent = new RingBufferTransport(500);
+const auditLogger = new Logger("Audit", {
+  transports: [
+    new NdjsonTransport(),
+    new RotatingFileTransport({ filePath: "./logs/audit.log", maxBytes: 50 * 1024 * 1024, maxAge: 86_400_000 }),
+    recent,
+  ],
+  sampling: { debug: 0.1, trace: 0.01 },
+});
+
+// Child loggers bind fields to every record
+const requestLogger = serverLogger.child({ requestId: "abc123" });
+requestLogger.info("Fetching", { url: "https://gnews.io/api/v4/search?q=x&apikey=secret" });
+// -> {"...","requestId":"abc123","url":"https://gnews.io/api/v4/search?q=x&apikey=[REDACTED]"}
+
 // Time operations
 async function fetchData() {
   return await logger.time("API Request", async () => {
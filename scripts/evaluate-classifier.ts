@@ -0,0 +1,97 @@
+/**
+ * @fileoverview Evaluates the product classifier against a labeled dataset.
+ *
+ * Prints per-category precision, recall and F1, the confusion matrix and the
+ * worst misclassifications, compared with a baseline report when one exists.
+ * Exits with status 1 when accuracy or macro F1 fall below the baseline by
+ * more than `--tolerance`, so rule changes can be gated on it:
+ *
+ *   bun run eval:classifier                      # compare with the baseline
+ *   bun run eval:classifier --rules rules.yaml   # try another ruleset
+ *   bun run eval:classifier --write-baseline     # accept the current scores
+ *   bun run eval:classifier --calibrate          # fit the ruleset's temperature
+ */
+
+import fs from "node:fs/promises";
+import { parseArgs } from "node:util";
+import {
+	calibrateTemperature,
+	diffReports,
+	type EvaluationReport,
+	evaluateClassifier,
+	formatReport,
+	parseDataset,
+} from "../src/components/upload/ClassifierEvaluation";
+import { ProductClassifier } from "../src/components/upload/ProductClassifier";
+import { BUNDLED_RULES_FILE, loadRulesFile } from "../src/server/rules";
+
+const { values: args } = parseArgs({
+	options: {
+		dataset: {
+			type: "string",
+			default: "fixtures/classification/dataset.json",
+		},
+		rules: { type: "string", default: process.env.CLASSIFICATION_RULES },
+		baseline: {
+			type: "string",
+			default: "fixtures/classification/baseline.json",
+		},
+		"write-baseline": { type: "boolean", default: false },
+		json: { type: "boolean", default: false },
+		calibrate: { type: "boolean", default: false },
+		top: { type: "string", default: "10" },
+		tolerance: { type: "string", default: "0" },
+	},
+});
+
+/**
+ * Reads a JSON file, or returns `undefined` if it does not exist.
+ * @param {string} file - Path of the file
+ * @returns {Promise<unknown>} The parsed content
+ */
+const readJson = async (file: string): Promise<unknown> => {
+	try {
+		return JSON.parse(await fs.readFile(file, "utf8"));
+	} catch (e) {
+		if ((e as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+		throw e;
+	}
+};
+
+const dataset = parseDataset(await readJson(args.dataset));
+const rules = await loadRulesFile(args.rules ?? BUNDLED_RULES_FILE);
+const report = evaluateClassifier(new ProductClassifier(rules), dataset);
+
+if (args["write-baseline"]) {
+	await fs.writeFile(args.baseline, `${JSON.stringify(report, null, "\t")}\n`);
+	console.log(`Baseline written to ${args.baseline}`);
+}
+
+const baseline = args["write-baseline"]
+	? undefined
+	: ((await readJson(args.baseline)) as EvaluationReport | undefined);
+const diff = baseline && diffReports(baseline, report);
+
+if (args.json) {
+	console.log(JSON.stringify({ report, diff }, null, 2));
+} else {
+	console.log(formatReport(report, diff, Number(args.top)));
+}
+
+if (args.calibrate) {
+	const { temperature, logLoss } = calibrateTemperature(rules, dataset);
+	console.log(
+		`\nBest temperature: ${temperature} (log loss ${logLoss}); the ruleset uses ${rules.temperature}`,
+	);
+}
+
+const tolerance = Number(args.tolerance);
+if (
+	diff &&
+	(diff.accuracy.delta < -tolerance || diff.macroF1.delta < -tolerance)
+) {
+	console.error(
+		`\nRegression against ${args.baseline}: accuracy ${diff.accuracy.delta}, macro F1 ${diff.macroF1.delta} (tolerance ${tolerance})`,
+	);
+	process.exit(1);
+}
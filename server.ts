@@ -1,42 +1,160 @@
+import { spawn } from "node:child_process";
+import { timingSafeEqual } from "node:crypto";
+import fs from "node:fs";
 import { FetchHttpClient } from "@effect/platform";
 import type { HttpClient } from "@effect/platform/HttpClient";
+import { bearer } from "@elysiajs/bearer";
 import { cors } from "@elysiajs/cors";
-import { opentelemetry, record } from "@elysiajs/opentelemetry";
+import { opentelemetry, record, setAttributes } from "@elysiajs/opentelemetry";
 import { serverTiming } from "@elysiajs/server-timing";
 import { swagger } from "@elysiajs/swagger";
-import vision from "@google-cloud/vision";
 import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-proto";
 import { resourceFromAttributes } from "@opentelemetry/resources";
 import { BatchSpanProcessor } from "@opentelemetry/sdk-trace-node";
 import { ATTR_SERVICE_NAME } from "@opentelemetry/semantic-conventions";
+import type { TSchema } from "@sinclair/typebox";
 import type { SocketAddress } from "bun";
-import { Effect, pipe } from "effect";
-import { Elysia } from "elysia";
+import { Effect, Either, type Layer } from "effect";
+import { type Context, Elysia, t } from "elysia";
 import { ip } from "elysia-ip";
 import { DefaultContext, type Generator, rateLimit } from "elysia-rate-limit";
 import { elysiaHelmet } from "elysiajs-helmet";
-import { spawn } from "node:child_process";
-import fs from "node:fs";
-import { logger } from "./logger";
-import { get } from "./src/effect-fetcher";
-import { GNewsResponse as GNewsResponseSchema } from "./src/lib/api/gnews";
-import { RawCse, SearchRecommendation } from "./src/lib/api/search";
-import { YoutubeSearchResponse as YoutubeSearchResponseSchema } from "./src/lib/api/youtube";
+import { Logger, LogLevel } from "./logger";
+import { runAnalysis } from "./src/components/upload/AnalysisStages";
+import {
+	getClassificationRules,
+	setClassificationRules,
+} from "./src/components/upload/ClassificationRules";
+import {
+	authReport,
+	configReport,
+	FeatureDisabledError,
+	getServerConfig,
+} from "./src/config/server";
+import * as Cassette from "./src/effect-cassette";
+import {
+	AnalysisResults,
+	FileAnalysisStore,
+	MemoryAnalysisStore,
+} from "./src/server/analyses";
+import {
+	analysisEventStream,
+	createServerSources,
+	storedResultEventStream,
+} from "./src/server/analyze";
+import {
+	type ApiKeyStore,
+	authenticate,
+	issueApiKey,
+	JsonKeyStore,
+	QuotaTracker,
+	quotaHeaders,
+	SqliteKeyStore,
+} from "./src/server/auth";
+import {
+	type CachePolicy,
+	cacheHeaders,
+	cacheResponseHeaders,
+	FileCacheStore,
+	MemoryLRUStore,
+	ResponseCache,
+} from "./src/server/cache";
+import {
+	cacheCheck,
+	credentialsCheck,
+	directoryCheck,
+	HealthChecker,
+	reachableCheck,
+	upstreamCheck,
+} from "./src/server/health";
+import { preprocessImage } from "./src/server/image";
+import {
+	JobQueue,
+	jobEventStream,
+	limitProviders,
+	SqliteJobStore,
+} from "./src/server/jobs";
+import {
+	instrumentProvider,
+	MetricsRegistry,
+	PROMETHEUS_CONTENT_TYPE,
+	registerCacheMetrics,
+	registerProcessMetrics,
+} from "./src/server/metrics";
+import {
+	HttpProblem,
+	PROBLEM_CONTENT_TYPE,
+	problemFor,
+	problemResponse,
+} from "./src/server/problem";
+import {
+	BUNDLED_RULES_FILE,
+	loadRulesFile,
+	watchRulesFile,
+} from "./src/server/rules";
+import {
+	AnalysisJob,
+	AnalysisParams,
+	ClassificationRuleset,
+	CseQuery,
+	FdcFoodParams,
+	FdcFoodQuery,
+	FdcSearchQuery,
+	GNewsSearchQuery,
+	GNewsTopHeadlinesQuery,
+	ImageUpload,
+	JobParams,
+	MediastackNewsQuery,
+	NewsAPIEverythingQuery,
+	NewsAPITopHeadlinesQuery,
+	NotModified,
+	Problem,
+	ReverseImageResponse,
+	UpstreamResponses,
+	YouTubeSearchQuery,
+} from "./src/server/schemas";
+import {
+	CSE_DEFAULT_FIELDS,
+	createFixtureProvider,
+	createLiveProvider,
+	normalizeWebDetection,
+	toSearchRecommendation,
+	UPSTREAM_HOSTS,
+	type UpstreamProvider,
+} from "./src/server/upstream";
 
-// Environment variables
-const GNEWS_API_KEY = process.env.VITE_GNEWS_API_KEY!;
-const GOOGLE_API_KEY = process.env.VITE_GOOGLE_API_KEY!;
-const GOOGLE_CSE_CX = process.env.VITE_GOOGLE_SEARCH_ENGINE_ID!;
-const YT_API_KEY = GOOGLE_API_KEY;
+/**
+ * Server configuration from the environment (see `src/config/server.ts`).
+ */
+const config = getServerConfig();
+const isProduction = config.env === "production";
 
-if (!GNEWS_API_KEY) throw new Error("Missing GNEWS_API_KEY");
-if (!GOOGLE_API_KEY) throw new Error("Missing GOOGLE_API_KEY");
-if (!GOOGLE_CSE_CX) throw new Error("Missing GOOGLE_SEARCH_ENGINE_ID");
+/**
+ * Server logger: NDJSON on stdout in production, pretty output otherwise.
+ * `LOG_LEVEL` (e.g. `info`, `debug`) overrides the level and `LOG_FILE` adds
+ * a rotating log file.
+ */
+const logger = new Logger("server", {
+	format: isProduction ? "ndjson" : "pretty",
+	minLevel: LogLevel[config.log.level as keyof typeof LogLevel],
+	colorize: !isProduction,
+	logToFile: Boolean(config.log.file),
+	filePath: config.log.file,
+});
 
-// API endpoints
-const GNEWS_BASE = "https://gnews.io/api/v4";
-const CSE_ENDPOINT = "https://customsearch.googleapis.com/customsearch/v1";
-const YT_SEARCH_ENDPOINT = "https://www.googleapis.com/youtube/v3/search";
+/**
+ * Logs which features the configuration enables, and why others are off.
+ */
+const logConfigReport = (): void => {
+	const { features, warnings } = configReport(config);
+	for (const { feature, enabled, reason } of features) {
+		if (enabled) logger.info(`Enabled: ${feature}`);
+		else logger.warn(`Disabled: ${feature} (${reason})`);
+	}
+	for (const warning of warnings) logger.warn(warning);
+};
+
+logConfigReport();
 
 /**
  * Stringifies an object with 2-space indentation.
@@ -122,60 +240,493 @@ const runJaeger = (): void => {
 };
 
 /**
- * Middleware for timing and logging the duration of each request.
+ * Metrics served by `GET /metrics` in the Prometheus text format.
+ */
+const metrics = new MetricsRegistry();
+registerProcessMetrics(metrics);
+
+const httpRequests = metrics.counter<"method" | "route" | "status">({
+	name: "http_requests_total",
+	help: "HTTP requests by method, route and status code",
+	labelNames: ["method", "route", "status"],
+});
+
+const httpRequestDuration = metrics.histogram<"method" | "route" | "status">({
+	name: "http_request_duration_seconds",
+	help: "HTTP request latency in seconds, until the response is sent",
+	labelNames: ["method", "route", "status"],
+});
+
+const rateLimitRejections = metrics.counter<"limiter">({
+	name: "http_rate_limit_rejections_total",
+	help: "Requests rejected with 429, by limiter (ip, or api_key quotas)",
+	labelNames: ["limiter"],
+});
+
+/**
+ * Start times of in-flight requests, removed once the request is recorded.
  */
-const timingMiddleware = new Elysia()
-	.state({ start: 0 })
-	.onBeforeHandle(({ store }) => (store.start = Date.now()))
-	.onAfterHandle(({ path, store: { start } }) => {
-		const duration = Date.now() - start;
-		logger.info(`[Elysia] ${path} took ${duration}ms to execute`, { path, duration });
+const requestStarts = new WeakMap<Request, number>();
+
+/**
+ * Records a finished request in the request metrics and the log.
+ * @param {Request} request - The incoming request
+ * @param {string | undefined} route - The matched route pattern, if any
+ * @param {number} status - The response status code
+ * @param {Headers} [headers] - The response headers, to tell the limiters apart
+ */
+const recordRequest = (
+	request: Request,
+	route: string | undefined,
+	status: number,
+	headers?: Headers,
+): void => {
+	const start = requestStarts.get(request);
+	if (start === undefined) return;
+	requestStarts.delete(request);
+
+	const duration = performance.now() - start;
+	// Unmatched paths share one label so scanners cannot inflate the series count
+	const labels = {
+		method: request.method,
+		route: route || "unmatched",
+		status,
+	};
+	httpRequests.inc(labels);
+	httpRequestDuration.observe(labels, duration / 1_000);
+	if (status === 429) {
+		rateLimitRejections.inc({
+			limiter: headers?.has("x-ratelimit-bucket") ? "api_key" : "ip",
+		});
+	}
+	logger.debug(`[Elysia] ${labels.route} took ${duration.toFixed(1)}ms`, {
+		...labels,
+		duration,
 	});
+};
+
+/**
+ * Middleware timing every request and recording it in the request metrics.
+ * Thrown errors skip `onAfterResponse`, so they are recorded from `onError`
+ * with the status the app's error handler will answer with (see `problemFor`).
+ */
+const timingMiddleware = new Elysia({ name: "timing" })
+	.onRequest(({ request }) => {
+		requestStarts.set(request, performance.now());
+	})
+	.onAfterResponse({ as: "global" }, ({ request, route, set, response }) => {
+		if (response instanceof Response) {
+			recordRequest(request, route, response.status, response.headers);
+		} else {
+			recordRequest(request, route, Number(set.status) || 200);
+		}
+	})
+	.onError({ as: "global" }, ({ request, route, code, error }) => {
+		const { status, headers } = problemFor(code, error);
+		recordRequest(request, route, status, headers && new Headers(headers));
+	});
+
+/**
+ * Incoming request IDs are reused only if they look like one.
+ */
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Request IDs by request, so errors thrown before or without the middleware
+ * below (e.g. unmatched routes) report the same ID.
+ */
+const requestIds = new WeakMap<Request, string>();
+
+/**
+ * Returns the request's ID: a well-formed incoming `X-Request-Id`, or a new UUID.
+ * @param {Request} request - The incoming request
+ * @returns {string} The request ID
+ */
+const requestIdFor = (request: Request): string => {
+	let requestId = requestIds.get(request);
+	if (!requestId) {
+		const incoming = request.headers.get("x-request-id");
+		requestId =
+			incoming && REQUEST_ID_PATTERN.test(incoming)
+				? incoming
+				: crypto.randomUUID();
+		requestIds.set(request, requestId);
+	}
+	return requestId;
+};
+
+/**
+ * Middleware assigning each request an ID: a well-formed incoming
+ * `X-Request-Id`, or a new UUID. The ID is echoed in the response, recorded on
+ * the request's trace span, and bound to the request-scoped `log`.
+ */
+const requestIdMiddleware = new Elysia({ name: "request-id" }).derive(
+	{ as: "global" },
+	({ request, set }) => {
+		const requestId = requestIdFor(request);
+		set.headers["x-request-id"] = requestId;
+		setAttributes({ "http.request.id": requestId });
+		return { requestId, log: logger.child({ requestId }) };
+	},
+);
+
+/**
+ * HttpClient layer used by `run()`. Set `HTTP_CASSETTE` to record and replay
+ * upstream traffic under `HTTP_CASSETTE_DIR` (see `effect-cassette`).
+ */
+const httpClientLayer: Layer.Layer<HttpClient> = config.cassette.name
+	? Cassette.layer({
+			name: config.cassette.name,
+			store: Cassette.fileStore(config.cassette.dir),
+			mode: config.cassette.mode,
+			strict: config.cassette.strict,
+		})
+	: FetchHttpClient.layer;
+
+/**
+ * Middleware requiring an API key (`Authorization: Bearer <key>` or
+ * `X-API-Key`) outside {@link PUBLIC_PATHS}, spending from the key's quota and
+ * reporting it in `X-RateLimit-*` headers.
+ */
+const apiKeyMiddleware = new Elysia({ name: "api-key-auth" })
+	.use(requestIdMiddleware)
+	.use(bearer())
+	.onBeforeHandle(
+		{ as: "global" },
+		async ({ bearer, request, path, set, log }) => {
+			if (!auth.enabled || matchesPath(path, PUBLIC_PATHS)) return;
+
+			const key: string | undefined =
+				bearer ?? request.headers.get("x-api-key") ?? undefined;
+			const record = await authenticate(apiKeyStore, key);
+			if (!record) {
+				throw new HttpProblem(401, "Unauthorized", {
+					detail: "Missing or invalid API key",
+					headers: { "www-authenticate": 'Bearer realm="api"' },
+				});
+			}
+
+			const quota = quotaTracker.consume(
+				record,
+				EXPENSIVE_ROUTES.includes(`${request.method} ${path}`)
+					? "expensive"
+					: "default",
+			);
+			const headers = quotaHeaders(quota);
+			if (!quota.allowed) {
+				log.warn(`Quota exceeded for key ${record.prefix}`, {
+					bucket: quota.bucket,
+					window: quota.window,
+				});
+				throw new HttpProblem(429, "Quota exceeded", {
+					kind: "quota-exceeded",
+					detail: `Quota exceeded (${quota.bucket} per ${quota.window})`,
+					headers,
+				});
+			}
+			Object.assign(set.headers, headers);
+		},
+	);
 
 /**
- * Effect runtime utility
+ * Effect runtime utility. Rejects with the Effect's own error (not a
+ * FiberFailure), so the error handler can map fetcher errors to a status.
  */
 function run<A, E>(eff: Effect.Effect<A, E, never>): Promise<A>;
 function run<A, E>(eff: Effect.Effect<A, E, HttpClient>): Promise<A>;
-function run<A, E, R>(eff: Effect.Effect<A, E, R>): Promise<A> {
+async function run<A, E, R>(eff: Effect.Effect<A, E, R>): Promise<A> {
 	const provided = (eff as Effect.Effect<A, E, HttpClient | never>).pipe(
-		Effect.provide(FetchHttpClient.layer),
+		Effect.provide(httpClientLayer),
+		Effect.either,
+	);
+	const outcome = await Effect.runPromise(
+		provided as Effect.Effect<Either.Either<A, E>, never, never>,
 	);
-	return Effect.runPromise(provided as Effect.Effect<A, E, never>);
+	if (Either.isLeft(outcome)) throw outcome.left;
+	return outcome.right;
 }
 
 /**
- * Google Vision client
+ * Per-route cache policies for the upstream proxy routes, in seconds.
+ */
+const cachePolicies = {
+	"gnews.search": { ttl: 600, staleWhileRevalidate: 1_800 },
+	"gnews.top-headlines": { ttl: 300, staleWhileRevalidate: 900 },
+	"newsapi.top-headlines": { ttl: 300, staleWhileRevalidate: 900 },
+	"newsapi.everything": { ttl: 600, staleWhileRevalidate: 1_800 },
+	"mediastack.news": { ttl: 600, staleWhileRevalidate: 1_800 },
+	"fdc.search": { ttl: 86_400, staleWhileRevalidate: 604_800 },
+	"fdc.food": { ttl: 86_400, staleWhileRevalidate: 604_800 },
+	"google.cse": { ttl: 3_600, staleWhileRevalidate: 86_400 },
+	"youtube.search": { ttl: 1_800, staleWhileRevalidate: 7_200 },
+} satisfies Record<string, CachePolicy>;
+
+type CachedRoute = keyof typeof cachePolicies;
+
+/**
+ * Upstream response cache. In-memory LRU by default; set `CACHE_STORE=file`
+ * to persist entries under `CACHE_DIR` across restarts.
+ */
+const responseCache = new ResponseCache(
+	config.cache.store === "file"
+		? new FileCacheStore(config.cache.dir)
+		: new MemoryLRUStore(config.cache.maxEntries),
+	(message, error) => logger.error(message, error),
+);
+
+registerCacheMetrics(metrics, responseCache);
+
+/**
+ * Serves an upstream call through the response cache, answering
+ * `304 Not Modified` when the client already holds the current ETag. Cache
+ * headers are added to `set`; Elysia serializes and validates the value
+ * against the route's response schema.
+ * @param {CachedRoute} route - The cached route name
+ * @param {Pick<Context, "request" | "set">} context - The request (for If-None-Match) and response settings
+ * @param {Record<string, unknown>} params - Client-visible query parameters; never include API keys
+ * @param {() => Promise<T>} load - Fetches a fresh value from upstream
+ * @returns {Promise<T | undefined>} The value, or nothing for a 304
+ */
+const cachedJson = async <T>(
+	route: CachedRoute,
+	{ request, set }: Pick<Context, "request" | "set">,
+	params: Record<string, unknown>,
+	load: () => Promise<T>,
+): Promise<T | undefined> => {
+	const policy = cachePolicies[route];
+	const result = await responseCache.wrap(route, params, policy, load);
+	Object.assign(
+		set.headers,
+		cacheHeaders(result, policy, { authenticated: auth.enabled }),
+	);
+
+	if (request.headers.get("if-none-match") === result.etag) {
+		set.status = 304;
+		return undefined;
+	}
+
+	return result.value;
+};
+
+/**
+ * Swagger documentation of the problem responses every proxy route can send.
+ */
+const problemResponses = Object.fromEntries(
+	(
+		[
+			[400, "Invalid query or path parameters, one problem per field"],
+			[502, "The upstream API failed or answered with an unexpected body"],
+			[504, "The upstream API timed out"],
+		] as const
+	).map(([status, description]) => [
+		status,
+		{
+			description,
+			content: { [PROBLEM_CONTENT_TYPE]: { schema: Problem as TSchema } },
+		},
+	]),
+);
+
+/**
+ * Swagger response documentation for a cached proxy route. Setting
+ * `detail.responses` replaces the generated entries, so the body schema is
+ * repeated here.
+ * @param {TSchema} schema - The route's 200 response schema
+ * @returns {object} The 200, 304 and problem response objects
  */
-const client = new vision.ImageAnnotatorClient({
-	keyFilename: "./credentials.json",
+const cachedResponses = (schema: TSchema) => ({
+	200: {
+		description: "Upstream response, possibly served from cache",
+		headers: cacheResponseHeaders,
+		content: { "application/json": { schema } },
+	},
+	304: {
+		description: "The client's If-None-Match ETag is still current",
+		headers: cacheResponseHeaders,
+	},
+	...problemResponses,
 });
 
 /**
- * Normalize web detection response
- */
-function normalizeWebDetection(res: any) {
-	const web = res?.webDetection ?? {};
-	return {
-		webEntities: (web.webEntities ?? []).map((e: any) => ({
-			description: e.description,
-			score: e.score,
-		})),
-		fullMatchingImages: (web.fullMatchingImages ?? []).map((i: any) => ({
-			url: i.url ?? "",
-		})),
-		partialMatchingImages: (web.partialMatchingImages ?? []).map((i: any) => ({
-			url: i.url ?? "",
-		})),
-		pagesWithMatchingImages: (web.pagesWithMatchingImages ?? []).map(
-			(p: any) => ({
-				url: p.url ?? "",
-				pageTitle: p.pageTitle,
+ * Upstream APIs behind the proxy routes. Fixture mode replays recorded JSON
+ * and needs no API keys; live mode can record into `UPSTREAM_RECORD_DIR`.
+ */
+const upstream: UpstreamProvider = instrumentProvider(
+	config.upstream.mode === "fixture"
+		? createFixtureProvider(config.upstream.fixturesDir)
+		: createLiveProvider({
+				run,
+				keys: config.keys,
+				visionKeyFilename: config.visionKeyFile,
+				recordDir: config.upstream.recordDir,
 			}),
-		),
-	};
+	metrics,
+);
+
+logger.info(`Upstream provider: ${upstream.mode}`, {
+	...(upstream.mode === "fixture" && {
+		fixturesDir: config.upstream.fixturesDir,
+	}),
+});
+
+/**
+ * Sources for `POST /api/analyze`: the upstream provider behind the proxy
+ * routes' response cache. FoodData Central is used when `FOOD_API_KEY` is set
+ * or fixtures are replayed.
+ */
+const analysisSources = createServerSources({
+	upstream,
+	cached: async (route, params, load) =>
+		(await responseCache.wrap(route, params, cachePolicies[route], load)).value,
+	fdc: upstream.mode === "fixture" || Boolean(config.keys.food),
+});
+
+/**
+ * Finished analyses by image hash, so repeated uploads of the same or a nearly
+ * identical image skip the upstream calls. In-memory by default; set
+ * `ANALYSIS_STORE=file` to persist them under `ANALYSIS_DIR`.
+ */
+const analysisResults = new AnalysisResults(
+	config.analyses.store === "file"
+		? new FileAnalysisStore(config.analyses.dir)
+		: new MemoryAnalysisStore(config.analyses.maxEntries),
+	{ ttl: config.analyses.ttl, maxDistance: config.analyses.maxDistance },
+);
+
+/**
+ * Analysis sources for jobs, with at most `JOBS_PROVIDER_CONCURRENCY` calls in
+ * flight per upstream provider across all jobs.
+ */
+const jobSources = limitProviders(
+	analysisSources,
+	config.jobs.providerConcurrency,
+);
+
+/**
+ * Background analysis jobs, persisted in SQLite under `JOBS_FILE`. Jobs left
+ * unfinished by the previous process are resumed on startup; results are also
+ * stored with the analyses above, unless a stage degraded to empty results.
+ */
+const jobQueue = new JobQueue(new SqliteJobStore(config.jobs.file), {
+	concurrency: config.jobs.concurrency,
+	retry: config.jobs.retry,
+	ttl: config.jobs.ttl,
+	analyze: (image, options) => runAnalysis(jobSources, image, options),
+	onResult: (job, result) => {
+		if (result.degraded) return;
+		analysisResults
+			.save(job.image, result)
+			.catch((error) => logger.error("Storing the analysis failed", error));
+	},
+	onDegraded: (job, { stage, message }) =>
+		logger.warn(`Analysis job ${job.id} degraded at the ${stage} stage`, {
+			message,
+		}),
+	onFailure: (job, error) =>
+		logger.error(`Analysis job ${job.id} failed`, error),
+	onError: (error) => logger.error("Analysis job queue failed", error),
+});
+
+jobQueue
+	.start()
+	.then((resumed) => {
+		if (resumed) logger.info(`Resumed ${resumed} analysis jobs`);
+	})
+	.catch((error) => logger.error("Resuming analysis jobs failed", error));
+
+/**
+ * Classification rules for every analysis, from `CLASSIFICATION_RULES` or the
+ * bundled ruleset. Outside production the file is watched and edits apply to
+ * the next analysis; an invalid edit is logged and the previous rules kept.
+ */
+const rulesFile = config.classification.rulesFile ?? BUNDLED_RULES_FILE;
+if (config.classification.rulesFile) {
+	setClassificationRules(await loadRulesFile(rulesFile));
+}
+if (config.classification.watch) {
+	watchRulesFile(rulesFile, {
+		onLoad: (rules) => {
+			setClassificationRules(rules);
+			logger.info("Classification rules reloaded", {
+				file: rulesFile,
+				categories: Object.keys(rules.categories),
+			});
+		},
+		onError: (error) =>
+			logger.error("Classification rules not reloaded", error),
+	});
+}
+logger.info(`Classification rules: ${rulesFile}`, {
+	categories: Object.keys(getClassificationRules().categories),
+	watch: config.classification.watch,
+});
+
+/**
+ * API key storage. JSON file by default; set `API_KEY_STORE=sqlite` for a
+ * SQLite database. `API_KEY_FILE` overrides the path.
+ */
+const apiKeyStore: ApiKeyStore =
+	config.auth.store === "sqlite"
+		? new SqliteKeyStore(config.auth.file)
+		: new JsonKeyStore(config.auth.file);
+
+/**
+ * Per-key request quotas. Keys may override any of these when issued.
+ */
+const quotaTracker = new QuotaTracker(config.auth.quotas);
+
+/**
+ * Whether requests need an API key. With `API_AUTH` unset, a fresh checkout
+ * without keys or `ADMIN_API_TOKEN` runs open instead of rejecting every call.
+ */
+const auth = authReport(
+	config,
+	config.auth.mode === "auto" && (await apiKeyStore.list()).length > 0,
+);
+
+if (auth.enabled) {
+	logger.info("Enabled: API key authentication", { store: apiKeyStore.kind });
+} else {
+	logger.warn(`Disabled: API key authentication (${auth.reason})`, {
+		store: apiKeyStore.kind,
+	});
 }
 
+/**
+ * Paths reachable without an API key. Admin routes check `ADMIN_API_TOKEN` instead.
+ */
+const PUBLIC_PATHS = ["/health", "/metrics", "/swagger", "/admin"];
+
+/**
+ * Routes (`METHOD path`) that spend from the separate `expensive` quota.
+ */
+const EXPENSIVE_ROUTES = [
+	"POST /api/google/reverse-image",
+	"POST /api/analyze",
+	"POST /api/jobs",
+];
+
+/**
+ * Checks whether a path equals, or sits below, one of the given prefixes.
+ * @param {string} path - The request path
+ * @param {string[]} prefixes - Path prefixes to match
+ * @returns {boolean} True if the path matches
+ */
+const matchesPath = (path: string, prefixes: string[]): boolean =>
+	prefixes.some((p) => path === p || path.startsWith(`${p}/`));
+
+/**
+ * Compares a presented token with the admin token in constant time.
+ * @param {string | undefined} token - The bearer token from the request
+ * @returns {boolean} True if it matches `ADMIN_API_TOKEN`
+ */
+const isAdminToken = (token: string | undefined): boolean => {
+	if (!config.auth.adminToken || !token) return false;
+	const a = Buffer.from(token);
+	const b = Buffer.from(config.auth.adminToken);
+	return a.length === b.length && timingSafeEqual(a, b);
+};
+
 /**
  * OpenTelemetry resource for Jaeger tracing.
  */
@@ -187,7 +738,7 @@ const otelResource = resourceFromAttributes({
  * OTLP trace exporter for sending traces to Jaeger.
  */
 const otlpExporter = new OTLPTraceExporter({
-	url: "http://localhost:4318/v1/traces",
+	url: config.otlpTracesUrl,
 	keepAlive: true,
 });
 
@@ -201,6 +752,31 @@ const batchSpanProcessor = new BatchSpanProcessor(otlpExporter, {
 	maxQueueSize: 2_048,
 });
 
+/**
+ * Dependency checks behind `GET /health/ready`. Only the OTLP exporter is
+ * non-critical: traces are lost while it is down, but requests still work.
+ */
+const healthChecker = new HealthChecker(
+	[
+		...(upstream.mode === "fixture"
+			? [directoryCheck("fixtures", config.upstream.fixturesDir)]
+			: [
+					credentialsCheck(config.visionKeyFile),
+					upstreamCheck(
+						{
+							GNEWS_API_KEY: config.keys.gnews,
+							GOOGLE_API_KEY: config.keys.google,
+							GOOGLE_SEARCH_ENGINE_ID: config.keys.googleCseCx,
+						},
+						UPSTREAM_HOSTS,
+					),
+				]),
+		cacheCheck(responseCache),
+		reachableCheck("otlp", config.otlpTracesUrl),
+	],
+	config.health,
+);
+
 /**
  * Content Security Policy permissions for Helmet.
  */
@@ -214,10 +790,9 @@ const permission = {
 } as const;
 
 /**
- * Utility routes for status, version, info, and health endpoints.
+ * Utility routes for status, version, info, health and metrics endpoints.
  */
 const utilityRoutes = new Elysia()
-	.use(timingMiddleware)
 	.get(
 		"/",
 		() =>
@@ -254,7 +829,7 @@ const utilityRoutes = new Elysia()
 							external: `${(memoryUsage.external / 1_024 / 1_024).toFixed(2)} MB`,
 						},
 						version: appVersion,
-						environment: process.env.NODE_ENV || "development",
+						environment: config.env,
 					},
 				});
 			}),
@@ -314,8 +889,69 @@ const utilityRoutes = new Elysia()
 		{
 			detail: {
 				summary: "Health check",
-				description: "Returns ok if the API is healthy",
+				description:
+					"Returns ok while the process is up; same as /health/live. Use /health/ready for dependency status",
 				tags: ["Health"],
+				security: [],
+			},
+		},
+	)
+	.get(
+		"/health/live",
+		() =>
+			record("health.live.get", () => {
+				return Stringify({
+					message: "ok",
+					status: 200,
+					data: { uptime: process.uptime() },
+				});
+			}),
+		{
+			detail: {
+				summary: "Liveness probe",
+				description:
+					"Returns ok while the process can serve requests, without checking dependencies",
+				tags: ["Health"],
+				security: [],
+			},
+		},
+	)
+	.get(
+		"/health/ready",
+		async () =>
+			record("health.ready.get", async () => {
+				const report = await healthChecker.report();
+				return new Response(Stringify(report), {
+					status: report.status === "fail" ? 503 : 200,
+					headers: {
+						"content-type": "application/json",
+						"cache-control": "no-store",
+					},
+				});
+			}),
+		{
+			detail: {
+				summary: "Readiness probe",
+				description:
+					"Checks credentials, upstream configuration and DNS, the cache backend and the OTLP exporter, each with a timeout. Returns a per-check report; 503 if a critical check fails. Reports are cached for a few seconds",
+				tags: ["Health"],
+				security: [],
+			},
+		},
+	)
+	.get(
+		"/metrics",
+		async () =>
+			new Response(await metrics.render(), {
+				headers: { "content-type": PROMETHEUS_CONTENT_TYPE },
+			}),
+		{
+			detail: {
+				summary: "Prometheus metrics",
+				description:
+					"Request counts and latencies by route and status, upstream calls per provider, cache hit ratio, rate-limit rejections and process stats, in the Prometheus text format",
+				tags: ["Utility"],
+				security: [],
 			},
 		},
 	);
@@ -324,246 +960,698 @@ const utilityRoutes = new Elysia()
  * API routes for your existing functionality
  */
 const apiRoutes = new Elysia({ prefix: "/api" })
+	.use(requestIdMiddleware)
 	.post(
 		"/google/reverse-image",
-		async ({ body }) => {
+		async ({ body: { file } }) => {
 			return record("reverse-image.post", async () => {
-				// Use Elysia's body parameter instead of request.formData()
-				const form = body as FormData;
-				const file = form.get("file");
-				
-				if (!(file instanceof File)) {
-					return new Response(JSON.stringify({ error: "No file provided" }), {
-						status: 400,
-						headers: { "content-type": "application/json" },
+				const { data: content, ...image } = await preprocessImage(
+					Buffer.from(await file.arrayBuffer()),
+					config.image,
+				);
+				const res = await upstream.webDetection(content);
+				return { ok: true, data: normalizeWebDetection(res), image };
+			});
+		},
+		{
+			type: "formdata", // Tell Elysia to expect FormData
+			body: ImageUpload,
+			response: {
+				200: ReverseImageResponse,
+				400: Problem,
+				413: Problem,
+				415: Problem,
+				422: Problem,
+			},
+			detail: {
+				summary: "Reverse image search",
+				description:
+					"Upload an image for reverse search using Google Vision API. The image is typed by its magic bytes, downscaled, stripped of metadata and re-encoded as JPEG first.",
+				tags: ["Vision"],
+			},
+		},
+	)
+	.post(
+		"/analyze",
+		async ({ body: { file }, log }) => {
+			return record("analyze.post", async () => {
+				const { data: content, ...image } = await preprocessImage(
+					Buffer.from(await file.arrayBuffer()),
+					config.image,
+				);
+				const stored = await analysisResults.find(image.dhash);
+				if (stored) {
+					return storedResultEventStream(stored.entry.result, {
+						"x-cache": "hit",
+						"x-analysis-distance": String(stored.distance),
 					});
 				}
-				
-				if (!/^image\//.test(file.type)) {
-					return new Response(
-						JSON.stringify({ error: "Unsupported media type" }),
-						{
-							status: 415,
-							headers: { "content-type": "application/json" },
+				return analysisEventStream(analysisSources, content, {
+					id: crypto.randomUUID(),
+					onResult: (result) => {
+						if (result.degraded) return;
+						analysisResults
+							.save(image, result)
+							.catch((error) =>
+								log.error("Storing the analysis failed", error),
+							);
+					},
+					onDegraded: ({ stage, message }) =>
+						log.warn(`Image analysis degraded at the ${stage} stage`, {
+							message,
+						}),
+					onFailure: (error) => log.error("Image analysis failed", error),
+					headers: { "x-cache": "miss" },
+				});
+			});
+		},
+		{
+			type: "formdata",
+			body: ImageUpload,
+			detail: {
+				summary: "Analyze image",
+				description:
+					"Runs web detection, classification, news and category lookups server-side and streams each stage as server-sent events (`stage`, then `result` or `error`). An image matching a stored analysis by perceptual hash is answered with that result alone.",
+				tags: ["Vision"],
+				responses: {
+					200: {
+						description: "Analysis events",
+						headers: {
+							"X-Cache": {
+								description:
+									"hit when the result was stored for the same or a nearly identical image, miss otherwise",
+								schema: { type: "string", enum: ["hit", "miss"] },
+							},
+							"X-Analysis-Distance": {
+								description:
+									"On a hit, bits between the upload's perceptual hash and the stored image's",
+								schema: { type: "integer" },
+							},
 						},
-					);
+						content: { "text/event-stream": { schema: { type: "string" } } },
+					},
+				},
+			},
+		},
+	)
+	.get(
+		"/classification/rules",
+		() =>
+			record("classification.rules.get", () => getClassificationRules().source),
+		{
+			response: { 200: ClassificationRuleset },
+			detail: {
+				summary: "Get classification rules",
+				description:
+					"Returns the active classification ruleset as written: categories with their tokens, weights, source hints, badge colors and tasks, primitives, and thresholds",
+				tags: ["Vision"],
+			},
+		},
+	)
+	.post(
+		"/jobs",
+		async ({ body: { file }, set }) => {
+			return record("jobs.post", async () => {
+				const { data, ...image } = await preprocessImage(
+					Buffer.from(await file.arrayBuffer()),
+					config.image,
+				);
+				const stored = await analysisResults.find(image.dhash);
+				const job = await jobQueue.submit(
+					{ data, hash: image.hash, dhash: image.dhash },
+					stored?.entry.result,
+				);
+				set.status = 202;
+				set.headers.location = `/api/jobs/${job.id}`;
+				if (stored) set.headers["x-cache"] = "hit";
+				return job;
+			});
+		},
+		{
+			type: "formdata",
+			body: ImageUpload,
+			response: {
+				202: AnalysisJob,
+				400: Problem,
+				413: Problem,
+				415: Problem,
+				422: Problem,
+			},
+			detail: {
+				summary: "Submit analysis job",
+				description:
+					"Queues the analysis of an image and answers at once with the job. An image matching a stored analysis gets a job that has already succeeded.",
+				tags: ["Jobs"],
+			},
+		},
+	)
+	.get(
+		"/jobs/:id",
+		async ({ params }) => {
+			return record("jobs.get", async () => {
+				const job = await jobQueue.get(params.id);
+				if (!job) {
+					throw new HttpProblem(404, "Not Found", { detail: "No such job" });
 				}
-				
-				const ab = await file.arrayBuffer();
-				const content = Buffer.from(ab);
-
-				const [res] = await client.webDetection({ image: { content } });
-				const data = normalizeWebDetection(res);
-
-				return new Response(JSON.stringify({ ok: true, data }), {
-					headers: { "content-type": "application/json" },
+				return job;
+			});
+		},
+		{
+			params: JobParams,
+			response: {
+				200: AnalysisJob,
+				400: Problem,
+				404: Problem,
+			},
+			detail: {
+				summary: "Get analysis job",
+				description: "Returns a job's status, progress and, once done, result",
+				tags: ["Jobs"],
+			},
+		},
+	)
+	.get(
+		"/jobs/:id/events",
+		async ({ params }) => {
+			return record("jobs.events.get", async () => {
+				const job = await jobQueue.get(params.id);
+				if (!job) {
+					throw new HttpProblem(404, "Not Found", { detail: "No such job" });
+				}
+				return jobEventStream(jobQueue, job);
+			});
+		},
+		{
+			params: JobParams,
+			detail: {
+				summary: "Follow analysis job",
+				description:
+					"Streams a job as server-sent events: a `job` snapshot, then the analysis events (`stage`, `retry`, `error`) and a `job` snapshot on every status change, until the job succeeds or fails",
+				tags: ["Jobs"],
+				responses: {
+					200: {
+						description: "Job events",
+						content: { "text/event-stream": { schema: { type: "string" } } },
+					},
+				},
+			},
+		},
+	)
+	.get(
+		"/jobs/:id/image",
+		async ({ params }) => {
+			return record("jobs.image.get", async () => {
+				const image = await jobQueue.image(params.id);
+				if (!image) {
+					throw new HttpProblem(404, "Not Found", { detail: "No such job" });
+				}
+				return new Response(new Uint8Array(image), {
+					headers: {
+						"content-type": "image/jpeg",
+						"cache-control": "private, max-age=86400, immutable",
+					},
 				});
 			});
 		},
 		{
-			type: "formdata", // Tell Elysia to expect FormData
+			params: JobParams,
 			detail: {
-				summary: "Reverse image search",
+				summary: "Get job image",
 				description:
-					"Upload an image for reverse search using Google Vision API",
-				tags: ["Vision"],
+					"Returns the normalized JPEG a job analyzes, e.g. to show it again after a reload",
+				tags: ["Jobs"],
+				responses: {
+					200: {
+						description: "The normalized image",
+						content: {
+							"image/jpeg": { schema: { type: "string", format: "binary" } },
+						},
+					},
+				},
 			},
 		},
 	)
 	.get(
 		"/gnews/search",
-		async ({ query }) => {
+		async ({ query, request, set }) => {
 			return record("gnews.search.get", async () => {
-				const p = query as Record<string, string>;
-				const params = {
-					apikey: GNEWS_API_KEY,
-					q: p.q ?? "",
-					lang: p.lang,
-					country: p.country,
-					max: p.max,
-					in: p.in,
-					nullable: p.nullable,
-					from: p.from,
-					to: p.to,
-					sortby: p.sortby as "relevance" | "publishedAt" | undefined,
-				};
-
-				const eff = pipe(
-					get(`${GNEWS_BASE}/search`, { schema: GNewsResponseSchema }, params),
+				return cachedJson("gnews.search", { request, set }, query, () =>
+					upstream.gnewsSearch(query),
 				);
-
-				const res = await run(eff);
-				return new Response(JSON.stringify(res), {
-					headers: { "content-type": "application/json" },
-				});
 			});
 		},
 		{
+			query: GNewsSearchQuery,
+			response: {
+				200: UpstreamResponses.gnews,
+				304: NotModified,
+				400: Problem,
+			},
 			detail: {
 				summary: "Search news articles",
 				description: "Search for news articles using GNews API",
 				tags: ["News"],
+				responses: cachedResponses(UpstreamResponses.gnews),
 			},
 		},
 	)
 	.get(
 		"/gnews/top-headlines",
-		async ({ query }) => {
+		async ({ query, request, set }) => {
 			return record("gnews.headlines.get", async () => {
-				const p = query as Record<string, string>;
-				const params = {
-					apikey: GNEWS_API_KEY,
-					lang: p.lang,
-					country: p.country,
-					max: p.max,
-					nullable: p.nullable,
-					category: p.category as
-						| "general"
-						| "world"
-						| "nation"
-						| "business"
-						| "technology"
-						| "entertainment"
-						| "sports"
-						| "science"
-						| "health"
-						| undefined,
-				};
-
-				const eff = pipe(
-					get(
-						`${GNEWS_BASE}/top-headlines`,
-						{ schema: GNewsResponseSchema },
-						params,
-					),
+				return cachedJson("gnews.top-headlines", { request, set }, query, () =>
+					upstream.gnewsTopHeadlines(query),
 				);
-
-				const res = await run(eff);
-				return new Response(JSON.stringify(res), {
-					headers: { "content-type": "application/json" },
-				});
 			});
 		},
 		{
+			query: GNewsTopHeadlinesQuery,
+			response: {
+				200: UpstreamResponses.gnews,
+				304: NotModified,
+				400: Problem,
+			},
 			detail: {
 				summary: "Get top headlines",
 				description: "Get top news headlines using GNews API",
 				tags: ["News"],
+				responses: cachedResponses(UpstreamResponses.gnews),
+			},
+		},
+	)
+	.get(
+		"/newsapi/top-headlines",
+		async ({ query, request, set }) => {
+			return record("newsapi.headlines.get", async () => {
+				return cachedJson(
+					"newsapi.top-headlines",
+					{ request, set },
+					query,
+					() => upstream.newsapiTopHeadlines(query),
+				);
+			});
+		},
+		{
+			query: NewsAPITopHeadlinesQuery,
+			response: {
+				200: UpstreamResponses.newsapi,
+				304: NotModified,
+				400: Problem,
+			},
+			detail: {
+				summary: "Get NewsAPI top headlines",
+				description:
+					"Get top headlines by country, category or source using NewsAPI",
+				tags: ["News"],
+				responses: cachedResponses(UpstreamResponses.newsapi),
+			},
+		},
+	)
+	.get(
+		"/newsapi/everything",
+		async ({ query, request, set }) => {
+			return record("newsapi.everything.get", async () => {
+				return cachedJson("newsapi.everything", { request, set }, query, () =>
+					upstream.newsapiEverything(query),
+				);
+			});
+		},
+		{
+			query: NewsAPIEverythingQuery,
+			response: {
+				200: UpstreamResponses.newsapi,
+				304: NotModified,
+				400: Problem,
+			},
+			detail: {
+				summary: "Search NewsAPI articles",
+				description: "Search every article indexed by NewsAPI",
+				tags: ["News"],
+				responses: cachedResponses(UpstreamResponses.newsapi),
+			},
+		},
+	)
+	.get(
+		"/mediastack/news",
+		async ({ query, request, set }) => {
+			return record("mediastack.news.get", async () => {
+				return cachedJson("mediastack.news", { request, set }, query, () =>
+					upstream.mediastackNews(query),
+				);
+			});
+		},
+		{
+			query: MediastackNewsQuery,
+			response: {
+				200: UpstreamResponses.mediastack,
+				304: NotModified,
+				400: Problem,
+			},
+			detail: {
+				summary: "Get Mediastack news",
+				description:
+					"Get live news filtered by keywords, sources, categories, countries or languages using Mediastack",
+				tags: ["News"],
+				responses: cachedResponses(UpstreamResponses.mediastack),
+			},
+		},
+	)
+	.get(
+		"/fdc/search",
+		async ({ query, request, set }) => {
+			return record("fdc.search.get", async () => {
+				return cachedJson("fdc.search", { request, set }, query, () =>
+					upstream.fdcSearch(query),
+				);
+			});
+		},
+		{
+			query: FdcSearchQuery,
+			response: {
+				200: UpstreamResponses.fdcSearch,
+				304: NotModified,
+				400: Problem,
+			},
+			detail: {
+				summary: "Search foods",
+				description:
+					"Search FoodData Central foods; `dataType` takes a comma-separated list",
+				tags: ["Nutrition"],
+				responses: cachedResponses(UpstreamResponses.fdcSearch),
+			},
+		},
+	)
+	.get(
+		"/fdc/food/:fdcId",
+		async ({ params: { fdcId }, query, request, set }) => {
+			return record("fdc.food.get", async () => {
+				const params = { fdcId, ...query };
+
+				return cachedJson("fdc.food", { request, set }, params, () =>
+					upstream.fdcFood(params),
+				);
+			});
+		},
+		{
+			params: FdcFoodParams,
+			query: FdcFoodQuery,
+			response: {
+				200: UpstreamResponses.fdcFood,
+				304: NotModified,
+				400: Problem,
+			},
+			detail: {
+				summary: "Get food details",
+				description:
+					"Get one FoodData Central food by FDC ID; `nutrients` takes a comma-separated list of nutrient numbers",
+				tags: ["Nutrition"],
+				responses: cachedResponses(UpstreamResponses.fdcFood),
 			},
 		},
 	)
 	.get(
 		"/google/cse",
-		async ({ query }) => {
+		async ({ query, request, set }) => {
 			return record("google.cse.get", async () => {
-				try {
-					const p = query as Record<string, string>;
-					const fields =
-						p.fields ??
-						"searchInformation(totalResults,searchTime,formattedTotalResults,formattedSearchTime),items(link,title,snippet,pagemap/cse_thumbnail)";
-
-					const params = {
-						key: GOOGLE_API_KEY,
-						cx: GOOGLE_CSE_CX,
-						q: p.q ?? "",
-						num: p.num ?? "10",
-						start: p.start,
-						safe: p.safe,
-						lr: p.lr,
-						siteSearch: p.siteSearch,
-						fields,
-					};
-
-					const raw = await run(
-						pipe(get(CSE_ENDPOINT, { schema: RawCse }, params)),
-					);
-
-					const transformed = {
-						info: {
-							totalResults: raw.searchInformation?.totalResults ?? "0",
-							searchTime: raw.searchInformation?.searchTime ?? 0,
-							formattedTotalResults:
-								raw.searchInformation?.formattedTotalResults ?? "0",
-							formattedSearchTime:
-								raw.searchInformation?.formattedSearchTime ?? "0",
-						},
-						items: (raw.items ?? []).map((it) => {
-							const t = it?.pagemap?.cse_thumbnail?.[0];
-							return {
-								link: it?.link ?? "",
-								title: it?.title ?? "No title",
-								snippet: it?.snippet ?? "No snippet available",
-								...(t?.src
-									? {
-											thumbnail: {
-												src: String(t.src),
-												width: String(t.width ?? ""),
-												height: String(t.height ?? ""),
-											},
-										}
-									: {}),
-							};
-						}),
-					};
+				const params = {
+					...query,
+					num: query.num ?? 10,
+					fields: query.fields ?? CSE_DEFAULT_FIELDS,
+				};
 
-					const ok = SearchRecommendation.assert(transformed);
-					return new Response(JSON.stringify(ok), {
-						headers: { "content-type": "application/json" },
-					});
-				} catch (e) {
-					logger.error("CSE error", e);
-					return new Response(
-						JSON.stringify({
-							error: "Google CSE failed",
-							details: e?.message ?? String(e),
-						}),
-						{ status: 502, headers: { "content-type": "application/json" } },
-					);
-				}
+				return cachedJson("google.cse", { request, set }, params, async () =>
+					toSearchRecommendation(await upstream.googleCse(params)),
+				);
 			});
 		},
 		{
+			query: CseQuery,
+			response: {
+				200: UpstreamResponses.cse,
+				304: NotModified,
+				400: Problem,
+			},
 			detail: {
 				summary: "Google Custom Search",
 				description: "Search using Google Custom Search Engine",
 				tags: ["Search"],
+				responses: cachedResponses(UpstreamResponses.cse),
 			},
 		},
 	)
-  // done
+	// done
 	.get(
 		"/google/youtube/search",
-		async ({ query }) => {
+		async ({ query, request, set }) => {
 			return record("youtube.search.get", async () => {
-				const p = query as Record<string, string>;
-				const params = {
-					key: YT_API_KEY,
-					part: "snippet",
-					q: p.q ?? "",
-					type: "video",
-					maxResults: p.maxResults ?? "10",
-					pageToken: p.pageToken,
-				};
+				const params = { ...query, maxResults: query.maxResults ?? 10 };
 
-				const eff = pipe(
-					get(
-						YT_SEARCH_ENDPOINT,
-						{ schema: YoutubeSearchResponseSchema },
-						params,
-					),
+				return cachedJson("youtube.search", { request, set }, params, () =>
+					upstream.youtubeSearch(params),
 				);
-
-				const res = await run(eff);
-				return new Response(JSON.stringify(res), {
-					headers: { "content-type": "application/json" },
-				});
 			});
 		},
 		{
+			query: YouTubeSearchQuery,
+			response: {
+				200: UpstreamResponses.youtube,
+				304: NotModified,
+				400: Problem,
+			},
 			detail: {
 				summary: "Search YouTube videos",
 				description: "Search for YouTube videos using YouTube Data API",
 				tags: ["YouTube"],
+				responses: cachedResponses(UpstreamResponses.youtube),
+			},
+		},
+	);
+
+/**
+ * Rejects requests without `Authorization: Bearer <ADMIN_API_TOKEN>`, and
+ * every request while that variable is unset.
+ * @param {{ bearer?: string }} context - The request's bearer token
+ * @throws {HttpProblem} 403 when the admin API is disabled, 401 for a wrong token
+ */
+const requireAdmin = ({ bearer }: { bearer?: string }) => {
+	if (!config.auth.adminToken) {
+		throw new HttpProblem(403, "Forbidden", {
+			detail: "Admin API is disabled",
+		});
+	}
+	if (!isAdminToken(bearer)) {
+		throw new HttpProblem(401, "Unauthorized", {
+			detail: "Invalid admin token",
+		});
+	}
+};
+
+/**
+ * Admin routes for inspecting and purging the upstream response cache. They
+ * need the admin token like the other `/admin` routes.
+ */
+const cacheRoutes = new Elysia({ prefix: "/admin/cache" })
+	.use(bearer())
+	.onBeforeHandle(requireAdmin)
+	.get(
+		"/stats",
+		async () =>
+			record("cache.stats.get", async () => {
+				return Stringify({
+					message: "Cache statistics",
+					status: 200,
+					data: await responseCache.stats(),
+				});
+			}),
+		{
+			detail: {
+				summary: "Cache statistics",
+				description:
+					"Returns the cache backend, entry count, hit ratio and per-route counters",
+				tags: ["Cache"],
+			},
+		},
+	)
+	.delete(
+		"/",
+		async () =>
+			record("cache.delete", async () => {
+				await responseCache.clear();
+				logger.info("Response cache cleared");
+				return Stringify({ message: "Cache cleared", status: 200 });
+			}),
+		{
+			detail: {
+				summary: "Clear cache",
+				description: "Removes every cached upstream response",
+				tags: ["Cache"],
+			},
+		},
+	);
+
+/**
+ * Admin routes for issuing, listing and revoking API keys. Every request needs
+ * `Authorization: Bearer <ADMIN_API_TOKEN>`; without that variable they are disabled.
+ */
+const adminRoutes = new Elysia({ prefix: "/admin" })
+	.use(bearer())
+	.onBeforeHandle(requireAdmin)
+	.get(
+		"/keys",
+		async () =>
+			record("admin.keys.get", async () => {
+				const keys = await apiKeyStore.list();
+				return Stringify({
+					message: "API keys",
+					status: 200,
+					data: keys.map((record) => {
+						const { hash: _hash, ...key } = record;
+						return {
+							...key,
+							quotas: quotaTracker.quotasFor(record),
+							usage: quotaTracker.usage(key.id),
+						};
+					}),
+				});
+			}),
+		{
+			detail: {
+				summary: "List API keys",
+				description:
+					"Returns every issued key (without the secret), its effective quotas and current usage",
+				tags: ["Admin"],
+			},
+		},
+	)
+	.post(
+		"/keys",
+		async ({ body, set }) =>
+			record("admin.keys.post", async () => {
+				const { key, record: issued } = await issueApiKey(
+					apiKeyStore,
+					body.name,
+					body.quotas,
+				);
+				logger.info(`Issued API key ${issued.prefix}`, { name: issued.name });
+				set.status = 201;
+				return Stringify({
+					message: "API key issued; it is shown only once",
+					status: 201,
+					data: { key, ...issued },
+				});
+			}),
+		{
+			body: t.Object({
+				name: t.String({ minLength: 1 }),
+				quotas: t.Optional(
+					t.Partial(
+						t.Object({
+							perMinute: t.Integer({ minimum: 1 }),
+							perDay: t.Integer({ minimum: 1 }),
+							expensivePerMinute: t.Integer({ minimum: 0 }),
+							expensivePerDay: t.Integer({ minimum: 0 }),
+						}),
+					),
+				),
+			}),
+			detail: {
+				summary: "Issue API key",
+				description:
+					"Creates a key with optional quota overrides and returns it once",
+				tags: ["Admin"],
+			},
+		},
+	)
+	.delete(
+		"/keys/:id",
+		async ({ params }) =>
+			record("admin.keys.delete", async () => {
+				const revoked = await apiKeyStore.revoke(
+					params.id,
+					new Date().toISOString(),
+				);
+				if (!revoked) {
+					throw new HttpProblem(404, "Not Found", {
+						detail: "No such API key",
+					});
+				}
+				logger.info(`Revoked API key ${params.id}`);
+				return Stringify({ message: "API key revoked", status: 200 });
+			}),
+		{
+			detail: {
+				summary: "Revoke API key",
+				description: "Revokes a key; it stops working immediately",
+				tags: ["Admin"],
+			},
+		},
+	)
+	.get(
+		"/analyses",
+		async () =>
+			record("admin.analyses.get", async () => {
+				const entries = await analysisResults.list();
+				return Stringify({
+					message: "Stored analyses",
+					status: 200,
+					data: {
+						store: analysisResults.kind,
+						analyses: entries.map(({ result, ...entry }) => ({
+							...entry,
+							id: result.id,
+							category: result.insights.category,
+						})),
+					},
+				});
+			}),
+		{
+			detail: {
+				summary: "List stored analyses",
+				description:
+					"Returns every unexpired stored analysis (without its result), newest first",
+				tags: ["Admin"],
+			},
+		},
+	)
+	.delete(
+		"/analyses",
+		async () =>
+			record("admin.analyses.delete", async () => {
+				const purged = await analysisResults.clear();
+				logger.info(`Purged ${purged} stored analyses`);
+				return Stringify({
+					message: "Stored analyses purged",
+					status: 200,
+					data: { purged },
+				});
+			}),
+		{
+			detail: {
+				summary: "Purge stored analyses",
+				description:
+					"Removes every stored analysis; the next upload of each image runs in full",
+				tags: ["Admin"],
+			},
+		},
+	)
+	.delete(
+		"/analyses/:dhash",
+		async ({ params }) =>
+			record("admin.analysis.delete", async () => {
+				if (!(await analysisResults.delete(params.dhash))) {
+					throw new HttpProblem(404, "Not Found", {
+						detail: "No such stored analysis",
+					});
+				}
+				logger.info(`Purged stored analysis ${params.dhash}`);
+				return Stringify({ message: "Stored analysis purged", status: 200 });
+			}),
+		{
+			params: AnalysisParams,
+			detail: {
+				summary: "Purge stored analysis",
+				description: "Removes the stored analysis of one image hash",
+				tags: ["Admin"],
 			},
 		},
 	);
@@ -584,10 +1672,12 @@ const app = new Elysia({ name: "Server API" })
 
 This API provides:
 - 🔍 **Search & Vision**: Google Custom Search, YouTube search, and reverse image search
-- 📰 **News**: GNews integration for articles and headlines
+- 📰 **News**: GNews, NewsAPI and Mediastack integration for articles and headlines
+- 🥗 **Nutrition**: FoodData Central food search and nutrient details
+- ⏳ **Jobs**: Background image analysis that survives page reloads and restarts
 - 🚀 **Performance**: OpenTelemetry tracing, rate limiting, and caching
-- 🔒 **Security**: Helmet security headers and CORS protection
-- 📊 **Monitoring**: Health checks, status endpoints, and observability
+- 🔒 **Security**: API keys with per-key quotas, Helmet security headers and CORS protection
+- 📊 **Monitoring**: Health checks, status endpoints, Prometheus metrics and observability
 
 > **Contact:** [API Support](mailto:support@your-api.com)
           `,
@@ -611,7 +1701,11 @@ This API provides:
 					},
 					{
 						name: "News",
-						description: "GNews API integration",
+						description: "GNews, NewsAPI and Mediastack integration",
+					},
+					{
+						name: "Nutrition",
+						description: "USDA FoodData Central integration",
 					},
 					{
 						name: "Search",
@@ -621,10 +1715,31 @@ This API provides:
 						name: "YouTube",
 						description: "YouTube Data API integration",
 					},
+					{
+						name: "Jobs",
+						description: "Background image analysis jobs",
+					},
+					{
+						name: "Cache",
+						description: "Upstream response cache administration",
+					},
+					{
+						name: "Admin",
+						description:
+							"API key and stored analysis administration (requires ADMIN_API_TOKEN)",
+					},
 				],
+				components: {
+					securitySchemes: {
+						bearerAuth: { type: "http", scheme: "bearer" },
+						apiKeyHeader: { type: "apiKey", in: "header", name: "X-API-Key" },
+					},
+				},
+				security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
 			},
 		}),
 	)
+	.use(timingMiddleware)
 	.trace(async ({ onBeforeHandle, onAfterHandle, onError }) => {
 		onBeforeHandle(({ begin, onStop }) => {
 			onStop(({ end }) => {
@@ -638,7 +1753,9 @@ This API provides:
 		});
 		onError(({ begin, onStop }) => {
 			onStop(({ end, error }) => {
-				logger.error("Error occurred after trace", error, { duration: end - begin });
+				logger.error("Error occurred after trace", error, {
+					duration: end - begin,
+				});
 			});
 		});
 	})
@@ -706,7 +1823,19 @@ This API provides:
 		cors({
 			origin: "http://localhost:5173", // Allow requests from this origin
 			methods: ["GET", "POST", "OPTIONS"], // Specify allowed HTTP methods
-			allowedHeaders: ["Content-Type", "Authorization"], // Specify allowed headers
+			allowedHeaders: [
+				"Content-Type",
+				"Authorization",
+				"X-API-Key",
+				"X-Request-Id",
+			], // Specify allowed headers
+			exposeHeaders: [
+				"X-Request-Id",
+				"X-RateLimit-Limit",
+				"X-RateLimit-Remaining",
+				"X-RateLimit-Reset",
+				"X-RateLimit-Bucket",
+			], // Let the client read its quota
 			credentials: true, // Allow credentials (e.g., cookies, authorization headers)
 			maxAge: 86400, // Cache the preflight response for 24 hours
 		}),
@@ -718,27 +1847,39 @@ This API provides:
 			headers: true,
 			scoping: "scoped",
 			countFailedRequest: true,
-			errorResponse: new Response(
-				Stringify({
-					error: `Too many requests`,
-				}),
-				{ status: 429 },
-			),
+			errorResponse: new HttpProblem(429, "Too many requests", {
+				kind: "rate-limited",
+				detail: "At most 100 requests per minute per client",
+				headers: { "retry-after": "60" },
+			}),
 			generator: ipGenerator,
 			context: new DefaultContext(10_000),
 		}),
 	)
+	.use(requestIdMiddleware)
+	.use(apiKeyMiddleware)
 	.use(utilityRoutes)
 	.use(apiRoutes)
-	.onError(({ code, error, set }) => {
-		logger.error("API error handler", error, { code });
-		set.status = code === "NOT_FOUND" ? 404 : 500;
-		return Stringify({
-			error: Error.isError(error) ? Stringify({ error }) : Stringify({ error }),
-			status: set.status,
-		});
+	.use(cacheRoutes)
+	.use(adminRoutes)
+	.error({ FEATURE_DISABLED: FeatureDisabledError, PROBLEM: HttpProblem })
+	.onError(({ code, error, request, path, set }) => {
+		const { headers, ...problem } = problemFor(code, error);
+		// Elysia would otherwise answer with the thrown error's own `status`
+		set.status = problem.status;
+		const requestId = requestIdFor(request);
+		// Elysia merges these into the problem response; errors thrown before
+		// requestIdMiddleware ran have no ID header yet
+		set.headers["x-request-id"] = requestId;
+		const log = logger.child({ requestId });
+		if (code === "FEATURE_DISABLED") {
+			log.warn(error.message);
+		} else if (problem.status >= 500) {
+			log.error("API error handler", error, { code });
+		}
+		return problemResponse({ ...problem, instance: path, requestId }, headers);
 	})
-	.listen(3_000);
+	.listen(config.port);
 
 /**
  * Gracefully shuts down the application and flushes telemetry.
@@ -746,6 +1887,7 @@ This API provides:
 const shutdown = async (): Promise<void> => {
 	logger.info("Shutting down 🦊 Elysia");
 	await batchSpanProcessor.forceFlush();
+	await logger.flush();
 	await app.stop();
 	process.exit(0);
 };
@@ -772,11 +1914,11 @@ const initializeJaeger = async (): Promise<void> => {
 		logger.warn("Docker is not running. Skipping Jaeger initialization.");
 	}
 
-	logger.success("→ http://localhost:3000");
-	logger.success("→ Swagger docs: http://localhost:3000/swagger");
+	logger.success(`→ http://localhost:${config.port}`);
+	logger.success(`→ Swagger docs: http://localhost:${config.port}/swagger`);
 	logger.success("→ Jaeger UI: http://localhost:16686/search");
 };
 
-process.env.NODE_ENV === "development" && initializeJaeger();
+config.env === "development" && initializeJaeger();
 
 export type App = typeof app;
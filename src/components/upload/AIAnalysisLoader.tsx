@@ -1,12 +1,15 @@
 import React, { useCallback, useEffect, useState } from "react";
 import {
 	AIAnalysisPipeline,
+	type AnalysisEvent,
+	type AnalysisStage,
 	type CSEResult,
 	type NewsHit,
 	type PipelineResult,
 	type WebDetect,
 	type YTHit,
 } from "./AIAnalysisPipeline";
+import { addPendingJob, removePendingJob } from "./PendingJobs";
 
 // Custom error component for AI analysis
 const AIAnalysisError: React.FC<{ error: Error; retry: () => void }> = ({
@@ -51,9 +54,7 @@ export const useReverseImageSearch = (file: File | null) => {
 		setError(null);
 
 		try {
-			const aiPipeline = new AIAnalysisPipeline(
-				import.meta.env.VITE_FOOD_API_KEY ?? "",
-			);
+			const aiPipeline = new AIAnalysisPipeline();
 			const result = await aiPipeline.reverseImage(file);
 			setData(result);
 		} catch (err) {
@@ -271,26 +272,58 @@ export const YouTubeSearch: React.FC<{
 	return <>{children(data || [])}</>;
 };
 
-// Enhanced AI Analysis component using AIAnalysisPipeline directly
+// Enhanced AI Analysis component. Runs the pipeline server-side through
+// /api/analyze by default, as a background job with runOn="job", or in the
+// browser with runOn="client", and reports each finished stage through
+// onProgress. Jobs are remembered (see PendingJobs) until they finish; an
+// imageFile with a jobId reattaches to that job instead of starting one.
 export const EnhancedAIAnalysis: React.FC<{
-	imageFile: { id: string; file: File };
+	imageFile: { id: string; file: File; jobId?: string };
 	onResult: (result: PipelineResult) => void;
 	onError: (error: Error) => void;
-}> = ({ imageFile, onResult, onError }) => {
+	onProgress?: (id: string, progress: number, stage: AnalysisStage) => void;
+	runOn?: "server" | "job" | "client";
+}> = ({ imageFile, onResult, onError, onProgress, runOn = "server" }) => {
 	const [isProcessing, setIsProcessing] = useState(true);
 	const [error, setError] = useState<Error | null>(null);
 
 	const aiPipeline = React.useMemo(() => {
-		return new AIAnalysisPipeline(import.meta.env.VITE_FOOD_API_KEY ?? "");
+		return new AIAnalysisPipeline();
 	}, []);
 
 	useEffect(() => {
+		const runJob = async (onEvent: (event: AnalysisEvent) => void) => {
+			try {
+				return imageFile.jobId
+					? await aiPipeline.followJob(imageFile.jobId, imageFile.id, onEvent)
+					: await aiPipeline.analyzeAsJob(imageFile, onEvent, (jobId) =>
+							addPendingJob({
+								jobId,
+								fileId: imageFile.id,
+								name: imageFile.file.name,
+							}),
+						);
+			} finally {
+				removePendingJob(imageFile.id);
+			}
+		};
+
 		const processImage = async () => {
 			try {
 				setIsProcessing(true);
 				setError(null);
 
-				const result = await aiPipeline.runPipelineForImage(imageFile);
+				const onEvent = (event: AnalysisEvent) => {
+					if (event.type === "stage") {
+						onProgress?.(imageFile.id, event.progress, event.stage);
+					}
+				};
+				const result =
+					runOn === "job"
+						? await runJob(onEvent)
+						: runOn === "server"
+							? await aiPipeline.analyzeOnServer(imageFile, onEvent)
+							: await aiPipeline.runPipelineForImage(imageFile, onEvent);
 				onResult(result);
 			} catch (err) {
 				const error =
@@ -303,7 +336,7 @@ export const EnhancedAIAnalysis: React.FC<{
 		};
 
 		processImage();
-	}, [imageFile, aiPipeline, onResult, onError]);
+	}, [imageFile, aiPipeline, onResult, onError, onProgress, runOn]);
 
 	if (error) {
 		return (
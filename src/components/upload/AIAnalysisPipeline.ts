@@ -1,457 +1,77 @@
 import {
+	fdcFood,
+	fdcSearch,
+	followAnalysisJob,
+	getAnalysisJob,
 	gnewsSearch,
 	gnewsTopHeadlines,
 	googleSearch,
+	reverseImageSearch,
+	streamImageAnalysis,
+	submitAnalysisJob,
 	youtubeSearch,
 } from "@/core";
-import { createFDCClient, newsapi } from "@/lib/api";
-
-export type Category =
-  | "Food"
-  | "Clothes"
-  | "Drugs"
-  | "Technology"
-  | "Unknown";
-
-export type Primitive =
-  | "News"
-  | "PriceChangeHistory"
-  | "ArticlesEdited";
-
-export interface PipelineMeta {
-  primaryQuery: string;
-  labels: string[];
-  // Optional extra context if you have it:
-  brand?: string | null;
-  source?: string | null;       // e.g., "amazon", "wikipedia", "bestbuy"
-  locale?: string | null;       // e.g., "en-US"
-  description?: string | null;  // scraped snippet
-  attributes?: Record<string, string | number | boolean | null | undefined>;
-}
-
-export interface CategoryEvidence {
-  matched: string[];     // tokens/regex labels that hit
-  blocked: string[];     // negatives that fired (if any)
-  score: number;         // final score after weights
-}
-
-export interface CategoryDecision {
-  category: Category;
-  evidenceByCategory: Record<Category, CategoryEvidence>;
-}
-
-export interface PrimitiveDecision {
-  primitives: Primitive[];
-  evidence: Record<Primitive, string[]>;
-}
-
-type Token = string | RegExp;
-
-interface CategoryRule {
-  include: Token[];
-  exclude?: Token[];
-  weight?: number; // multiplier on matches
-}
-
-type Ruleset = Record<Category, CategoryRule>;
-
-const rx = {
-  mg: /\b\d+\s?mg\b/i,
-  rx: /\b(rx|prescription)\b/i,
-  otc: /\b(otc|over[-\s]?the[-\s]?counter)\b/i,
-  cpuGpu: /\b(cpu|gpu|graphics|processor|nvidia|amd|intel)\b/i,
-  storage: /\b(ssd|nvme|m\.?2|sata|hdd)\b/i,
-  apparelSizes: /\b(xs|s|m|l|xl|xxl|xxxl)\b/i,
-  nutrition: /\b(kcal|calorie|nutrition|macros?)\b/i,
-  ingredients: /\bingredients?\b/i,
-  shoeSizes: /\b(us|eu|uk)\s?\d{1,2}(\.\d)?\b/i,
-};
-
-const CATEGORY_RULES: Ruleset = {
-  Food: {
-    include: [
-      "calorie", "nutrition", "kcal", "fdc", "food", "ingredients",
-      "protein", "carb", "carbs", "fat", "sugar", "vitamin", rx.nutrition, rx.ingredients,
-      "grocery", "usda", "serving size", "per 100g",
-    ],
-    exclude: ["pet food", "dog food", "cat food"], // tweak as needed
-    weight: 1.0,
-  },
-  Clothes: {
-    include: [
-      "shirt", "t-shirt", "tee", "hoodie", "sneaker", "shoe", "jeans", "dress", "jacket",
-      "skirt", "top", "sweater", "outerwear", "denim", "athleisure", rx.apparelSizes, rx.shoeSizes,
-    ],
-    exclude: ["shoe rack", "shoe cabinet", "dress form"], // home items, not apparel
-    weight: 1.0,
-  },
-  Drugs: {
-    include: [
-      "tablet", "capsule", rx.mg, rx.rx, rx.otc, "drug", "medication",
-      "ibuprofen", "acetaminophen", "paracetamol", "aspirin",
-      "antibiotic", "antihistamine", "supplement",
-    ],
-    exclude: ["drug test kit", "pill organizer", "supplement shaker"], // accessories
-    weight: 1.1, // slightly boost because “mg”/“rx” are strong signals
-  },
-  Technology: {
-    include: [
-      "laptop", "phone", "smartphone", "tablet", "camera", "headphones",
-      "keyboard", "router", "monitor", "pc", "desktop", "mouse",
-      "macbook", "iphone", "android", "chromebook", "charger", "power bank",
-      "ssd", "gpu", "graphics card", "cpu", "motherboard", "ram", "router",
-      rx.cpuGpu, rx.storage,
-    ],
-    exclude: ["phone case", "laptop sleeve", "keyboard tray"], // accessories if you want to treat separately
-    weight: 0.95,
-  },
-  Unknown: {
-    include: [],
-  },
-};
-
-const SOURCE_HINTS: Partial<Record<Category, Token[]>> = {
-  Food: ["fdc", "usda", "myfitnesspal"],
-  Technology: ["bestbuy", "newegg", "microcenter"],
-  Clothes: ["zara", "h&m", "uniqlo", "asos"],
-  Drugs: ["drugs.com", "rxlist", "nih", "medlineplus", "pharmacy"],
-};
-
-const PRIMITIVE_RULES: Record<Primitive, Token[]> = {
-  News: [
-    "breaking", "headline", "reported", "coverage", "press release", "news", "announced",
-    /\b(released?|launch(ed)?|unveil(ed)?)\b/i,
-  ],
-  PriceChangeHistory: [
-    "price history", "price change", "price drop", "discount", "msrp", "deal", "sale", "camelcamelcamel",
-  ],
-  ArticlesEdited: [
-    "revision", "edit history", "article edit", "diff", "changelog", "wiki", "wikipedia", "edited on",
-  ],
-};
-
-const LOWER = (s?: string | null) => (s ?? "").toLowerCase();
-
-function squash(meta: PipelineMeta): string {
-  const parts = [
-    meta.primaryQuery,
-    ...meta.labels,
-    meta.brand,
-    meta.source,
-    meta.locale,
-    meta.description,
-    ...Object.entries(meta.attributes ?? {}).map(([k, v]) => `${k}:${v}`),
-  ].filter(Boolean) as string[];
-
-  const blob = parts.join(" ").toLowerCase();
-  return blob
-    .replace(/[_\-]+/g, " ")
-    .replace(/\s{2,}/g, " ")
-    .trim();
-}
-
-function countMatches(blob: string, tokens: Token[]): { hits: string[]; count: number } {
-  const hits: string[] = [];
-  let count = 0;
-  for (const t of tokens) {
-    if (typeof t === "string") {
-      if (blob.includes(t.toLowerCase())) {
-        hits.push(t);
-        count++;
-      }
-    } else {
-      const m = blob.match(t);
-      if (m) {
-        hits.push(t.source);
-        count += m.length > 0 ? 1 : 0;
-      }
-    }
-  }
-  return { hits, count };
-}
-
-function anyMatch(blob: string, tokens?: Token[]): string[] {
-  if (!tokens || tokens.length === 0) return [];
-  return tokens.flatMap(t => {
-    if (typeof t === "string") return blob.includes(t.toLowerCase()) ? [t] : [];
-    return t.test(blob) ? [t.source] : [];
-  });
-}
-
-export class ProductClassifier {
-  determineCategory(meta: PipelineMeta): CategoryDecision {
-    const blob = squash(meta);
-
-    const evidenceByCategory = Object.fromEntries(
-      (Object.keys(CATEGORY_RULES) as Category[]).map((cat) => {
-        const rule = CATEGORY_RULES[cat];
-        const inc = countMatches(blob, rule.include);
-        const exc = anyMatch(blob, rule.exclude);
-        let score = inc.count;
-
-        const hints = SOURCE_HINTS[cat];
-        if (hints) score += countMatches(blob, hints).count * 0.5;
-
-        if (rule.weight) score *= rule.weight;
-
-        if (exc.length) score -= Math.min(1, exc.length) * 0.75;
-
-        return [cat, { matched: inc.hits, blocked: exc, score } as CategoryEvidence];
-      }),
-    ) as Record<Category, CategoryEvidence>;
-
-    const best = (Object.keys(evidenceByCategory) as Category[])
-      .filter(c => c !== "Unknown")
-      .map((c) => [c, evidenceByCategory[c].score] as const)
-      .sort((a, b) => b[1] - a[1])[0];
-
-    const category: Category =
-      best && best[1] >= 1 ? (best[0] as Category) : "Unknown";
-
-    return { category, evidenceByCategory };
-  }
-
-  detectPrimitives(meta: PipelineMeta): PrimitiveDecision {
-    const blob = squash(meta);
-
-    const primitives: Primitive[] = [];
-    const evidence: Record<Primitive, string[]> = {
-      News: [],
-      PriceChangeHistory: [],
-      ArticlesEdited: [],
-    };
-
-    (Object.keys(PRIMITIVE_RULES) as Primitive[]).forEach((p) => {
-      const hits = anyMatch(blob, PRIMITIVE_RULES[p]);
-      if (hits.length) {
-        primitives.push(p);
-        evidence[p] = hits;
-      }
-    });
-
-    return { primitives, evidence };
-  }
-
-  routeCategory(category: Category): string[] {
-    switch (category) {
-      case "Food":
-        return [
-          "Find Nearest Location",
-          "Retrieve Nutrient Information",
-          "Get Price Change History",
-        ];
-      case "Clothes":
-        return [
-          "Find Nearest Location",
-          "Retrieve Product Reviews",
-          "Get Price Change History",
-        ];
-      case "Drugs":
-        return [
-          "Find Nearest Location",
-          "Get Price Change History",
-        ];
-      case "Technology":
-        return ["No Designated Task"];
-      default:
-        return [];
-    }
-  }
-
-  routePrimitives(primitives: Primitive[]): string[] {
-    const steps: string[] = [];
-    if (primitives.includes("News")) {
-      steps.push(
-        "News Source Identification",
-        "News Sentiment Analysis",
-        "News Summarization",
-      );
-    }
-    if (primitives.includes("PriceChangeHistory")) {
-      steps.push(
-        "Price Change Source Identification",
-        "Price Change Trend Analysis",
-        "Price Change Alert Generation",
-      );
-    }
-    if (primitives.includes("ArticlesEdited")) {
-      steps.push(
-        "Article Edit Source Identification",
-        "Article Edit History Analysis",
-        "Article Edit Impact Assessment",
-      );
-    }
-    return steps;
-  }
-
-  plan(meta: PipelineMeta) {
-    const categoryDecision = this.determineCategory(meta);
-    const primitiveDecision = this.detectPrimitives(meta);
-
-    const categoryTasks = this.routeCategory(categoryDecision.category);
-    const primitiveTasks = this.routePrimitives(primitiveDecision.primitives);
-
-    return {
-      category: categoryDecision.category,
-      categoryEvidence: categoryDecision.evidenceByCategory[categoryDecision.category],
-			evidenceByCategory: categoryDecision.evidenceByCategory,
-      primitiveSignals: primitiveDecision.primitives,
-      primitiveEvidence: primitiveDecision.evidence,
-      nextSteps: {
-        categoryTasks,
-        primitiveTasks,
-        outputTriggers: [
-          ...(primitiveTasks.some(s => /Summarization|Alert Generation|Impact Assessment/.test(s))
-            ? ["Output Designated Information"]
-            : []),
-        ],
-      },
-    };
-  }
-}
-
-export type WebDetect = {
-	webEntities: { description?: string; score?: number }[];
-	fullMatchingImages: { url: string }[];
-	partialMatchingImages: { url: string }[];
-	pagesWithMatchingImages: { url: string; pageTitle?: string }[];
-};
-
-export type NewsHit = {
-	title: string;
-	url: string;
-	source: string;
-	publishedAt?: string;
-};
-
-export type CSEResult = {
-	title: string;
-	link: string;
-	snippet: string;
-	thumbnail?: { src: string; width: string; height: string };
-};
-
-export type YTHit = { title: string; videoId: string };
-
-export type Nutrient = {
-	id: number;
-	name: string;
-	unit: string;
-	value: number;
-};
-
-export type FoodBlock = {
-	fdcId?: number;
-	description?: string;
-	nutrients?: Nutrient[];
-};
-
-// Updated Insights to include detailed classifier output
-export type Insights = {
-	meta: PipelineMeta;
-	category: Category;
-	categoryEvidence?: CategoryEvidence;
-	evidenceByCategory?: Record<Category, CategoryEvidence>;
-	primitiveSignals?: Primitive[];
-	primitiveEvidence?: Record<Primitive, string[]>;
-	nextSteps?: any; // Contains planned tasks from the classifier
-	news?: NewsHit[];
-	cse?: CSEResult[];
-	youtube?: YTHit[];
-	food?: FoodBlock;
-};
-
-export type PipelineResult = {
-	id: string;
-	detect: WebDetect;
-	insights: Insights;
-	error?: string;
+import type { AnalysisJob, JobEvent } from "@/server/jobs";
+import {
+	type AnalysisEvent,
+	type AnalysisSources,
+	type CSEResult,
+	createFoodSource,
+	extractMeta,
+	type FoodBlock,
+	fetchNews,
+	fetchWebResults,
+	fetchYouTubeVideos,
+	type NewsHit,
+	type PipelineResult,
+	runAnalysis,
+	runFoodPipeline,
+	runMediaPipeline,
+	type WebDetect,
+	type YTHit,
+} from "./AnalysisStages";
+import { type PipelineMeta, ProductClassifier } from "./ProductClassifier";
+
+export * from "./AnalysisStages";
+export * from "./ClassificationRules";
+export * from "./ProductClassifier";
+
+// Browser sources: every call goes through the server's proxy routes
+const proxySources: AnalysisSources = {
+	reverseImageSearch,
+	gnewsSearch,
+	gnewsTopHeadlines,
+	googleSearch,
+	youtubeSearch,
+	fdc: createFoodSource({
+		search: ({ query, ...opts }) => fdcSearch(query, opts),
+		food: (fdcId, nutrients) => fdcFood(fdcId, nutrients),
+	}),
 };
 
 export class AIAnalysisPipeline {
-	private api: {
-		fdc: ReturnType<typeof createFDCClient>;
-		news: typeof newsapi;
-	};
 	private classifier: ProductClassifier;
+	private sources: AnalysisSources;
 
-	constructor(foodApiKey: string) {
-		this.api = {
-			fdc: createFDCClient(foodApiKey),
-			news: newsapi,
-		};
+	constructor() {
 		this.classifier = new ProductClassifier();
+		this.sources = proxySources;
 	}
 
 	static async reverseImageSearch(file: File): Promise<WebDetect> {
-		const fd = new FormData();
-		fd.append("file", file, file.name);
-		const res = await fetch("/api/google/reverse-image", { method: "POST", body: fd });
-		if (!res.ok) {
-			const err = await res.json().catch(() => ({}));
-			throw new Error(`Vision error: ${JSON.stringify(err)}`);
-		}
-		const { data } = await res.json();
-		return data as WebDetect;
+		return proxySources.reverseImageSearch(file);
 	}
 
 	static async fetchNews(query: string): Promise<NewsHit[]> {
-		const hits: NewsHit[] = [];
-		try {
-			const g = await gnewsSearch(query, { lang: "en", max: 4 });
-			hits.push(
-				...(g.articles || []).map((a: any) => ({
-					title: a.title,
-					url: a.url,
-					source: a.source?.name,
-					publishedAt: a.publishedAt,
-				})),
-			);
-		} catch (e) {
-			console.warn("GNews error", e);
-		}
-		if (hits.length < 2) {
-			try {
-				const top = await gnewsTopHeadlines({ lang: "en", max: 2 });
-				hits.push(
-					...(top.articles || []).map((a: any) => ({
-						title: a.title,
-						url: a.url,
-						source: a.source?.name,
-						publishedAt: a.publishedAt,
-					})),
-				);
-			} catch (topErr) {
-				console.warn("GNews top error", topErr);
-			}
-		}
-		const seen = new Set<string>();
-		return hits.filter((h) => h.url && !seen.has(h.url) && seen.add(h.url));
+		return fetchNews(proxySources, query);
 	}
 
 	static async fetchWebResults(query: string): Promise<CSEResult[]> {
-		try {
-			const results = await googleSearch(query);
-			return results?.items?.slice(0, 5) || [];
-		} catch (e) {
-			console.warn("Google Search error", e);
-			return [];
-		}
+		return fetchWebResults(proxySources, query);
 	}
 
 	static async fetchYouTubeVideos(query: string): Promise<YTHit[]> {
-		try {
-			const results = await youtubeSearch(query);
-			return (
-				results?.items?.slice(0, 4).map((it: any) => ({
-					title: it.snippet?.title || it.title,
-					videoId: it.id?.videoId || it.videoId,
-				})) || []
-			);
-		} catch (e) {
-			console.warn("YouTube Search error", e);
-			return [];
-		}
+		return fetchYouTubeVideos(proxySources, query);
 	}
 
 	async reverseImage(file: File): Promise<WebDetect> {
@@ -459,32 +79,7 @@ export class AIAnalysisPipeline {
 	}
 
 	extractMeta(d: WebDetect): PipelineMeta {
-		const labels = (d.webEntities || [])
-			.map((e) => (e.description ?? "").trim())
-			.filter(Boolean)
-			.slice(0, 6);
-
-		const pageTerms = (d.pagesWithMatchingImages || [])
-			.flatMap((p) => (p.pageTitle ?? "").split(/[|\-–—:]/))
-			.map((s) => s.trim())
-			.filter(Boolean)
-			.slice(0, 6);
-
-		const primary = (labels[0] ?? pageTerms[0] ?? "").trim();
-		const extra = labels[1] ?? pageTerms[1] ?? "";
-		const primaryQuery = [primary, extra].filter(Boolean).join(" ");
-
-		const description = (d.webEntities || [])
-			.map((e) => e.description)
-			.filter(Boolean)
-			.join(", ");
-
-		return {
-			primaryQuery: primaryQuery || "product",
-			labels,
-			description,
-			source: d.pagesWithMatchingImages?.[0]?.url.match(/https?:\/\/([^\/]+)/)?.[1] || null
-		};
+		return extractMeta(d);
 	}
 
 	async getNews(meta: PipelineMeta): Promise<NewsHit[]> {
@@ -492,106 +87,122 @@ export class AIAnalysisPipeline {
 	}
 
 	async runFoodPipeline(meta: PipelineMeta): Promise<FoodBlock> {
-		try {
-			const found =
-				(await this.api.fdc.findFood(meta.primaryQuery, ["Branded"])) ||
-				(await this.api.fdc.findFood(meta.primaryQuery, ["Foundation"]));
-			if (!found) return {};
-
-			const wanted = [208, 203, 204, 205, 269, 307, 601]; // kcals, protein, fat, carbs, sugars, sodium, cholesterol
-			const nutrs = await this.api.fdc.getFoodNutrients(found.fdcId, wanted);
-			const nutrients: Nutrient[] = (nutrs || []).map((n: any) => ({
-				id: n.nutrient.id,
-				name: n.nutrient.name,
-				unit: n.nutrient.unitName,
-				value: n.amount,
-			}));
-			return { fdcId: found.fdcId, description: found.description, nutrients };
-		} catch (e) {
-			console.warn("FDC error", e);
-			return {};
-		}
+		return runFoodPipeline(this.sources, meta);
 	}
 
 	async runClothesPipeline(meta: PipelineMeta) {
-		const [cse, yt] = await Promise.allSettled([
-			AIAnalysisPipeline.fetchWebResults(`${meta.primaryQuery} reviews`),
-			AIAnalysisPipeline.fetchYouTubeVideos(`${meta.primaryQuery} review`),
-		]);
-
-		return {
-			cse: cse.status === "fulfilled" ? cse.value : [],
-			youtube: yt.status === "fulfilled" ? yt.value : [],
-		};
+		return runMediaPipeline(this.sources, "Clothes", meta);
 	}
 
 	async runDrugsPipeline(meta: PipelineMeta) {
-		const [cse, yt] = await Promise.allSettled([
-			AIAnalysisPipeline.fetchWebResults(
-				`${meta.primaryQuery} dosage side effects site:drugs.com OR site:rxlist.com OR site:mayoclinic.org`,
-			),
-			AIAnalysisPipeline.fetchYouTubeVideos(`${meta.primaryQuery} overview`),
-		]);
-
-		return {
-			cse: cse.status === "fulfilled" ? cse.value : [],
-			youtube: yt.status === "fulfilled" ? yt.value : [],
-		};
+		return runMediaPipeline(this.sources, "Drugs", meta);
 	}
 
 	async runTechPipeline(meta: PipelineMeta) {
-		const [cse, yt] = await Promise.allSettled([
-			AIAnalysisPipeline.fetchWebResults(`${meta.primaryQuery} specs review`),
-			AIAnalysisPipeline.fetchYouTubeVideos(`${meta.primaryQuery} review`),
-		]);
-
-		return {
-			cse: cse.status === "fulfilled" ? cse.value : [],
-			youtube: yt.status === "fulfilled" ? yt.value : [],
-		};
+		return runMediaPipeline(this.sources, "Technology", meta);
 	}
 
-	async runPipelineForImage(imageFile: {
-		id: string;
-		file: File;
-	}): Promise<PipelineResult> {
-		const detect = await this.reverseImage(imageFile.file);
-		const meta = this.extractMeta(detect);
-
-		// Use the new, more powerful classifier
-		const plan = this.classifier.plan(meta);
-		const category = plan.category;
-
-		// Fetch news (consistent with original logic, now supported by primitive detection)
-		const news = await this.getNews(meta);
+	/**
+	 * Runs the pipeline in the browser, one proxy round trip per call.
+	 */
+	async runPipelineForImage(
+		imageFile: {
+			id: string;
+			file: File;
+		},
+		onEvent?: (event: AnalysisEvent) => void,
+	): Promise<PipelineResult> {
+		return runAnalysis(this.sources, imageFile.file, {
+			id: imageFile.id,
+			classifier: this.classifier,
+			onEvent,
+		});
+	}
 
-		let cat: Partial<Insights> = {};
-		if (category === "Food") {
-			const food = await this.runFoodPipeline(meta);
-			cat = { food };
-		} else if (category === "Clothes") {
-			const { cse, youtube } = await this.runClothesPipeline(meta);
-			cat = { cse, youtube };
-		} else if (category === "Drugs") {
-			const { cse, youtube } = await this.runDrugsPipeline(meta);
-			cat = { cse, youtube };
-		} else { // Covers "Technology" and "Unknown"
-			const { cse, youtube } = await this.runTechPipeline(meta);
-			cat = { cse, youtube };
+	/**
+	 * Runs the pipeline on the server through `POST /api/analyze`, reporting
+	 * each streamed stage through `onEvent`.
+	 */
+	async analyzeOnServer(
+		imageFile: {
+			id: string;
+			file: File;
+		},
+		onEvent?: (event: AnalysisEvent) => void,
+	): Promise<PipelineResult> {
+		for await (const event of streamImageAnalysis<AnalysisEvent>(
+			imageFile.file,
+		)) {
+			onEvent?.(event);
+			if (event.type === "error") throw new Error(event.message);
+			if (event.type === "result") {
+				return { ...event.result, id: imageFile.id };
+			}
 		}
+		throw new Error("Analysis stream ended without a result");
+	}
+
+	/**
+	 * Runs the pipeline as a background job on the server (`/api/jobs`).
+	 * `onSubmitted` receives the job id as soon as the job exists, so it can be
+	 * followed again with {@link followJob} after a reload.
+	 */
+	async analyzeAsJob(
+		imageFile: {
+			id: string;
+			file: File;
+		},
+		onEvent?: (event: AnalysisEvent) => void,
+		onSubmitted?: (jobId: string) => void,
+	): Promise<PipelineResult> {
+		const job = await submitAnalysisJob(imageFile.file);
+		onSubmitted?.(job.id);
+		return this.followJob(job.id, imageFile.id, onEvent);
+	}
 
-		const insights: Insights = {
-			meta,
-			category,
-			news,
-			categoryEvidence: plan.categoryEvidence,
-			evidenceByCategory: plan.evidenceByCategory,
-			primitiveSignals: plan.primitiveSignals,
-			primitiveEvidence: plan.primitiveEvidence,
-			nextSteps: plan.nextSteps,
-			...cat,
+	/**
+	 * Follows a background job until it finishes, reporting its progress
+	 * through `onEvent`. The result gets `resultId` as its id.
+	 */
+	async followJob(
+		jobId: string,
+		resultId: string,
+		onEvent?: (event: AnalysisEvent) => void,
+	): Promise<PipelineResult> {
+		const settle = (job: AnalysisJob): PipelineResult | undefined => {
+			if (job.status === "failed") {
+				throw new Error(job.error ?? "Analysis job failed");
+			}
+			if (job.status === "succeeded" && job.result) {
+				return { ...job.result, id: resultId };
+			}
+			return undefined;
 		};
 
-		return { id: imageFile.id, detect, insights };
+		for await (const event of followAnalysisJob<JobEvent>(jobId)) {
+			if (event.type !== "job") {
+				onEvent?.(event);
+				// The server could not run the job
+				if (event.type === "error" && !event.stage) {
+					throw new Error(event.message);
+				}
+				continue;
+			}
+			const result = settle(event.job);
+			if (result) return result;
+			// Snapshots bring a reattached client up to date
+			if (event.job.stage) {
+				onEvent?.({
+					type: "stage",
+					stage: event.job.stage,
+					status: "done",
+					progress: event.job.progress,
+				});
+			}
+		}
+		// The stream dropped; the job may still have finished
+		const result = settle(await getAnalysisJob(jobId));
+		if (result) return result;
+		throw new Error("Lost the connection to the analysis job");
 	}
 }
@@ -0,0 +1,585 @@
+import type {
+	AbridgedFood,
+	Food,
+	FoodNutrient,
+	SearchResult,
+} from "@/lib/api/schemas/food";
+import type { GNewsResponse } from "@/lib/api/schemas/gnews";
+import type { TSearchRecommendation } from "@/lib/api/schemas/search";
+import type { YoutubeSearchResponse } from "@/lib/api/schemas/youtube";
+import {
+	type ClassificationRules,
+	categoryRule,
+	getClassificationRules,
+	searchQueries,
+} from "./ClassificationRules";
+import {
+	type Category,
+	type CategoryEvidence,
+	type PipelineMeta,
+	type Primitive,
+	ProductClassifier,
+	type RankedCategory,
+} from "./ProductClassifier";
+
+export type WebDetect = {
+	webEntities: { description?: string; score?: number }[];
+	fullMatchingImages: { url: string }[];
+	partialMatchingImages: { url: string }[];
+	pagesWithMatchingImages: { url: string; pageTitle?: string }[];
+};
+
+export type NewsHit = {
+	title: string;
+	url: string;
+	source: string;
+	publishedAt?: string;
+};
+
+export type CSEResult = {
+	title: string;
+	link: string;
+	snippet: string;
+	thumbnail?: { src: string; width: string; height: string };
+};
+
+export type YTHit = { title: string; videoId: string };
+
+export type Nutrient = {
+	id: number;
+	name: string;
+	unit: string;
+	value: number;
+};
+
+export type FoodBlock = {
+	fdcId?: number;
+	description?: string;
+	nutrients?: Nutrient[];
+};
+
+// Results of one category's pipeline
+export type CategoryResults = {
+	cse?: CSEResult[];
+	youtube?: YTHit[];
+	food?: FoodBlock;
+};
+
+// Updated Insights to include detailed classifier output
+export type Insights = CategoryResults & {
+	meta: PipelineMeta;
+	category: Category;
+	/** Calibrated probability of `category` among all categories */
+	probability?: number;
+	/** Every category whose pipeline ran, most likely first */
+	categories?: RankedCategory[];
+	/** Pipeline results of each of `categories`; the top-level ones merge them */
+	resultsByCategory?: Record<Category, CategoryResults>;
+	categoryEvidence?: CategoryEvidence;
+	evidenceByCategory?: Record<Category, CategoryEvidence>;
+	primitiveSignals?: Primitive[];
+	primitiveEvidence?: Record<Primitive, string[]>;
+	nextSteps?: any; // Contains planned tasks from the classifier
+	news?: NewsHit[];
+};
+
+export type PipelineResult = {
+	id: string;
+	detect: WebDetect;
+	insights: Insights;
+	error?: string;
+	/** Stages that kept failing and fell back to empty results */
+	degraded?: AnalysisStage[];
+};
+
+/**
+ * Stages of an image analysis, in the order they run.
+ */
+export const ANALYSIS_STAGES = [
+	"detect",
+	"classify",
+	"news",
+	"category",
+] as const;
+
+export type AnalysisStage = (typeof ANALYSIS_STAGES)[number];
+
+/**
+ * Progress of an analysis. `progress` is the percentage of stages finished.
+ * These are also the SSE events streamed by `POST /api/analyze`, where the
+ * event name is `type`.
+ */
+export type AnalysisEvent =
+	| {
+			type: "stage";
+			stage: AnalysisStage;
+			status: "start" | "done";
+			progress: number;
+			data?: unknown;
+	  }
+	| {
+			type: "retry";
+			stage: AnalysisStage;
+			/** The attempt that failed, 1 for the first */
+			attempt: number;
+			/** Milliseconds until the next attempt */
+			delay: number;
+			message: string;
+	  }
+	| {
+			/** A stage failed every attempt and continues with empty results */
+			type: "degraded";
+			stage: AnalysisStage;
+			message: string;
+	  }
+	| { type: "result"; progress: 100; result: PipelineResult }
+	| { type: "error"; stage?: AnalysisStage; message: string };
+
+/**
+ * How a failed stage is retried: `retries` more attempts, waiting `baseDelay`
+ * milliseconds and doubling up to `maxDelay` between them.
+ */
+export interface StageRetryPolicy {
+	retries: number;
+	baseDelay: number;
+	maxDelay: number;
+}
+
+/**
+ * The APIs the analysis stages call. In the browser these are the proxy
+ * wrappers from `@/core`; on the server they call upstream directly.
+ */
+export interface AnalysisSources<Image = File> {
+	reverseImageSearch(image: Image): Promise<WebDetect>;
+	gnewsSearch(
+		q: string,
+		opts?: { lang?: string; max?: number },
+	): Promise<typeof GNewsResponse.infer>;
+	gnewsTopHeadlines(opts?: {
+		lang?: string;
+		max?: number;
+	}): Promise<typeof GNewsResponse.infer>;
+	googleSearch(q: string): Promise<TSearchRecommendation>;
+	youtubeSearch(q: string): Promise<typeof YoutubeSearchResponse.infer>;
+	/** FoodData Central lookups; the food stage is skipped without them */
+	fdc?: FoodSource;
+}
+
+/**
+ * The FoodData Central lookups the food stage needs.
+ */
+export interface FoodSource {
+	findFood(query: string, dataType?: string[]): Promise<AbridgedFood | null>;
+	getFoodNutrients(
+		fdcId: number,
+		nutrientIds?: number[],
+	): Promise<FoodNutrient[]>;
+}
+
+/**
+ * Builds a {@link FoodSource} from the FDC search and food endpoints, so the
+ * browser (proxy routes) and the server (upstream provider) ask for the same
+ * query parameters.
+ */
+export const createFoodSource = (api: {
+	search(params: {
+		query: string;
+		dataType?: string;
+		pageSize: number;
+	}): Promise<SearchResult>;
+	food(fdcId: number, nutrients?: number[]): Promise<Food>;
+}): FoodSource => ({
+	findFood: async (query, dataType) => {
+		const { foods } = await api.search({
+			query,
+			dataType: dataType?.join(","),
+			pageSize: 1,
+		});
+		return foods[0] ?? null;
+	},
+	getFoodNutrients: async (fdcId, nutrientIds) =>
+		(await api.food(fdcId, nutrientIds)).foodNutrients,
+});
+
+/**
+ * How the fetchers below handle upstream errors. By default they log and
+ * return empty results; with `throwOnError` they throw, so `runAnalysis` can
+ * retry the stage.
+ */
+export interface FetchOptions {
+	throwOnError?: boolean;
+}
+
+// Logs an upstream error, or rethrows it when the caller retries
+const handleFetchError = (
+	label: string,
+	error: unknown,
+	{ throwOnError = false }: FetchOptions,
+) => {
+	if (throwOnError) throw error;
+	console.warn(label, error);
+};
+
+const toNewsHits = (articles: any[] = []): NewsHit[] =>
+	articles.map((a: any) => ({
+		title: a.title,
+		url: a.url,
+		source: a.source?.name,
+		publishedAt: a.publishedAt,
+	}));
+
+export async function fetchNews(
+	sources: AnalysisSources<unknown>,
+	query: string,
+	options: FetchOptions = {},
+): Promise<NewsHit[]> {
+	const hits: NewsHit[] = [];
+	try {
+		const g = await sources.gnewsSearch(query, { lang: "en", max: 4 });
+		hits.push(...toNewsHits(g.articles));
+	} catch (e) {
+		handleFetchError("GNews error", e, options);
+	}
+	if (hits.length < 2) {
+		try {
+			const top = await sources.gnewsTopHeadlines({ lang: "en", max: 2 });
+			hits.push(...toNewsHits(top.articles));
+		} catch (topErr) {
+			handleFetchError("GNews top error", topErr, options);
+		}
+	}
+	const seen = new Set<string>();
+	return hits.filter((h) => h.url && !seen.has(h.url) && seen.add(h.url));
+}
+
+export async function fetchWebResults(
+	sources: AnalysisSources<unknown>,
+	query: string,
+	options: FetchOptions = {},
+): Promise<CSEResult[]> {
+	try {
+		const results = await sources.googleSearch(query);
+		return results?.items?.slice(0, 5) || [];
+	} catch (e) {
+		handleFetchError("Google Search error", e, options);
+		return [];
+	}
+}
+
+export async function fetchYouTubeVideos(
+	sources: AnalysisSources<unknown>,
+	query: string,
+	options: FetchOptions = {},
+): Promise<YTHit[]> {
+	try {
+		const results = await sources.youtubeSearch(query);
+		return (
+			results?.items?.slice(0, 4).map((it: any) => ({
+				title: it.snippet?.title || it.title,
+				videoId: it.id?.videoId || it.videoId,
+			})) || []
+		);
+	} catch (e) {
+		handleFetchError("YouTube Search error", e, options);
+		return [];
+	}
+}
+
+export function extractMeta(d: WebDetect): PipelineMeta {
+	const labels = (d.webEntities || [])
+		.map((e) => (e.description ?? "").trim())
+		.filter(Boolean)
+		.slice(0, 6);
+
+	const pageTerms = (d.pagesWithMatchingImages || [])
+		.flatMap((p) => (p.pageTitle ?? "").split(/[|\-–—:]/))
+		.map((s) => s.trim())
+		.filter(Boolean)
+		.slice(0, 6);
+
+	const primary = (labels[0] ?? pageTerms[0] ?? "").trim();
+	const extra = labels[1] ?? pageTerms[1] ?? "";
+	const primaryQuery = [primary, extra].filter(Boolean).join(" ");
+
+	const description = (d.webEntities || [])
+		.map((e) => e.description)
+		.filter(Boolean)
+		.join(", ");
+
+	return {
+		primaryQuery: primaryQuery || "product",
+		labels,
+		description,
+		source:
+			d.pagesWithMatchingImages?.[0]?.url.match(/https?:\/\/([^\/]+)/)?.[1] ||
+			null,
+	};
+}
+
+export async function runFoodPipeline(
+	sources: AnalysisSources<unknown>,
+	meta: PipelineMeta,
+	options: FetchOptions = {},
+): Promise<FoodBlock> {
+	const { fdc } = sources;
+	if (!fdc) return {};
+	try {
+		const found =
+			(await fdc.findFood(meta.primaryQuery, ["Branded"])) ||
+			(await fdc.findFood(meta.primaryQuery, ["Foundation"]));
+		if (!found) return {};
+
+		const wanted = [208, 203, 204, 205, 269, 307, 601]; // kcals, protein, fat, carbs, sugars, sodium, cholesterol
+		const nutrs = await fdc.getFoodNutrients(found.fdcId, wanted);
+		const nutrients: Nutrient[] = (nutrs || []).map((n: any) => ({
+			id: n.nutrient.id,
+			name: n.nutrient.name,
+			unit: n.nutrient.unitName,
+			value: n.amount,
+		}));
+		return { fdcId: found.fdcId, description: found.description, nutrients };
+	} catch (e) {
+		handleFetchError("FDC error", e, options);
+		return {};
+	}
+}
+
+/**
+ * Searches the web and YouTube with the category's query templates from the
+ * classification rules.
+ */
+export async function runMediaPipeline(
+	sources: AnalysisSources<unknown>,
+	category: Category,
+	meta: PipelineMeta,
+	rules: ClassificationRules = getClassificationRules(),
+	options: FetchOptions = {},
+): Promise<{ cse: CSEResult[]; youtube: YTHit[] }> {
+	const queries = searchQueries(rules, category, meta.primaryQuery);
+	const [cse, yt] = await Promise.allSettled([
+		fetchWebResults(sources, queries.web, options),
+		fetchYouTubeVideos(sources, queries.video, options),
+	]);
+	for (const settled of [cse, yt]) {
+		if (settled.status === "rejected") throw settled.reason;
+	}
+
+	return {
+		cse: cse.status === "fulfilled" ? cse.value : [],
+		youtube: yt.status === "fulfilled" ? yt.value : [],
+	};
+}
+
+/**
+ * Runs the pipeline the classification rules assign to a category.
+ */
+export async function runCategoryPipeline(
+	sources: AnalysisSources<unknown>,
+	category: Category,
+	meta: PipelineMeta,
+	rules: ClassificationRules = getClassificationRules(),
+	options: FetchOptions = {},
+): Promise<CategoryResults> {
+	return categoryRule(rules, category).pipeline === "food"
+		? { food: await runFoodPipeline(sources, meta, options) }
+		: runMediaPipeline(sources, category, meta, rules, options);
+}
+
+const uniqueBy = <T>(items: T[], key: (item: T) => string) => {
+	const seen = new Set<string>();
+	return items.filter((item) => !seen.has(key(item)) && seen.add(key(item)));
+};
+
+// Combines the results of several category pipelines, earlier ones first
+const mergeCategoryResults = (results: CategoryResults[]): CategoryResults => {
+	const merged: CategoryResults = {};
+	for (const { food, cse, youtube } of results) {
+		if (food && !merged.food?.fdcId) merged.food = food;
+		if (cse) {
+			merged.cse = uniqueBy([...(merged.cse ?? []), ...cse], (r) => r.link);
+		}
+		if (youtube) {
+			merged.youtube = uniqueBy(
+				[...(merged.youtube ?? []), ...youtube],
+				(v) => v.videoId,
+			);
+		}
+	}
+	return merged;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Runs every analysis stage for one image, reporting each stage's start and
+ * end through `onEvent`. Failures of the detect and classify stages reject.
+ * With a `retry` policy a failing stage is retried first; the news and
+ * category stages then fall back to empty results and are listed in the
+ * result's `degraded`.
+ * The category stage runs the pipeline of every category the classifier
+ * picks for the image in parallel, most likely first.
+ *
+ * @param sources - APIs to call
+ * @param image - The image, in whatever form `sources.reverseImageSearch` takes
+ * @param options - Result id, classifier, stage retry policy and progress callback
+ */
+export async function runAnalysis<Image>(
+	sources: AnalysisSources<Image>,
+	image: Image,
+	options: {
+		id: string;
+		classifier?: ProductClassifier;
+		retry?: StageRetryPolicy;
+		onEvent?: (event: AnalysisEvent) => void;
+	},
+): Promise<PipelineResult> {
+	const {
+		id,
+		classifier = new ProductClassifier(),
+		retry = { retries: 0, baseDelay: 0, maxDelay: 0 },
+		onEvent,
+	} = options;
+
+	const attempt = async <T>(
+		name: AnalysisStage,
+		work: () => Promise<T> | T,
+	): Promise<T> => {
+		for (let n = 1; ; n++) {
+			try {
+				return await work();
+			} catch (e) {
+				if (n > retry.retries) throw e;
+				const delay = Math.min(retry.baseDelay * 2 ** (n - 1), retry.maxDelay);
+				onEvent?.({
+					type: "retry",
+					stage: name,
+					attempt: n,
+					delay,
+					message: e instanceof Error ? e.message : String(e),
+				});
+				await sleep(delay);
+			}
+		}
+	};
+
+	const degraded: AnalysisStage[] = [];
+
+	// With a fallback, a stage that fails every attempt is marked degraded and
+	// finishes with the fallback's data instead of failing the analysis
+	const stage = async <T>(
+		name: AnalysisStage,
+		work: () => Promise<T> | T,
+		fallback?: () => T,
+	): Promise<T> => {
+		const index = ANALYSIS_STAGES.indexOf(name);
+		const progress = (done: number) =>
+			Math.round((done / ANALYSIS_STAGES.length) * 100);
+		onEvent?.({
+			type: "stage",
+			stage: name,
+			status: "start",
+			progress: progress(index),
+		});
+		try {
+			let data: T;
+			try {
+				data = await attempt(name, work);
+			} catch (e) {
+				if (!fallback) throw e;
+				onEvent?.({
+					type: "degraded",
+					stage: name,
+					message: e instanceof Error ? e.message : String(e),
+				});
+				degraded.push(name);
+				data = fallback();
+			}
+			onEvent?.({
+				type: "stage",
+				stage: name,
+				status: "done",
+				progress: progress(index + 1),
+				data,
+			});
+			return data;
+		} catch (e) {
+			onEvent?.({
+				type: "error",
+				stage: name,
+				message: e instanceof Error ? e.message : String(e),
+			});
+			throw e;
+		}
+	};
+
+	const detect = await stage("detect", () => sources.reverseImageSearch(image));
+	const meta = extractMeta(detect);
+
+	const rules = classifier.rules;
+	const plan = await stage("classify", () => classifier.plan(meta));
+	const category = plan.category;
+
+	const strict: FetchOptions = { throwOnError: true };
+
+	const news = await stage(
+		"news",
+		() => fetchNews(sources, meta.primaryQuery, strict),
+		() => [],
+	);
+
+	// Retries rerun only the category pipelines that failed
+	const finished: Record<Category, CategoryResults> = {};
+	const inPlanOrder = () =>
+		Object.fromEntries(
+			plan.categories.map(({ category: c }) => [c, finished[c] ?? {}]),
+		);
+	const resultsByCategory = await stage(
+		"category",
+		async () => {
+			const settled = await Promise.allSettled(
+				plan.categories
+					.filter(({ category: c }) => !(c in finished))
+					.map(async ({ category: c }) => {
+						finished[c] = await runCategoryPipeline(
+							sources,
+							c,
+							meta,
+							rules,
+							strict,
+						);
+					}),
+			);
+			for (const s of settled) {
+				if (s.status === "rejected") throw s.reason;
+			}
+			return inPlanOrder();
+		},
+		inPlanOrder,
+	);
+
+	const insights: Insights = {
+		meta,
+		category,
+		probability: plan.probability,
+		categories: plan.categories,
+		resultsByCategory,
+		news,
+		categoryEvidence: plan.categoryEvidence,
+		evidenceByCategory: plan.evidenceByCategory,
+		primitiveSignals: plan.primitiveSignals,
+		primitiveEvidence: plan.primitiveEvidence,
+		nextSteps: plan.nextSteps,
+		...mergeCategoryResults(
+			plan.categories.map(({ category: c }) => resultsByCategory[c]),
+		),
+	};
+
+	const result: PipelineResult = {
+		id,
+		detect,
+		insights,
+		...(degraded.length > 0 && { degraded }),
+	};
+	onEvent?.({ type: "result", progress: 100, result });
+	return result;
+}
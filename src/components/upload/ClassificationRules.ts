@@ -0,0 +1,236 @@
+import { type } from "arktype";
+import builtinRuleset from "./classification-rules.json";
+
+// Classification rules for ProductClassifier, loaded from a versioned ruleset
+// (classification-rules.json, or the file in the server's
+// CLASSIFICATION_RULES). A token is a word or phrase, matched on whole words
+// after stemming (see Tokenizer), or a regular expression written as
+// "/source/flags" and tested against the raw text.
+
+const REGEX_TOKEN = /^\/(.+)\/([dgimsuvy]*)$/;
+
+const RuleToken = type("string > 0").narrow((token, ctx) => {
+	const match = REGEX_TOKEN.exec(token);
+	if (!match) return true;
+	try {
+		new RegExp(match[1], match[2]);
+		return true;
+	} catch {
+		return ctx.mustBe("a valid regular expression");
+	}
+});
+
+const SearchTemplates = type({
+	web: "string > 0",
+	video: "string > 0",
+});
+
+/**
+ * Schema of a ruleset file. `{query}` in the search templates is replaced
+ * with the image's primary query.
+ */
+export const ClassificationRuleset = type({
+	version: "1",
+	/** Category chosen when no other one reaches the threshold */
+	fallback: "string > 0",
+	"threshold?": "number >= 0",
+	/** Score added per matching source hint */
+	"sourceHintWeight?": "number >= 0",
+	/** Score removed when an exclude token matches */
+	"excludePenalty?": "number >= 0",
+	/** Softmax temperature turning scores into probabilities; higher is less sure */
+	"temperature?": "number > 0",
+	/** Probability gap under which the top two categories count as ambiguous */
+	"ambiguityMargin?": "0 <= number <= 1",
+	/** Label confidence from which a category's pipeline runs next to the chosen one */
+	"labelThreshold?": "0 <= number <= 1",
+	/** Web and video queries of categories without their own */
+	search: SearchTemplates,
+	categories: {
+		"[string]": {
+			/** Tailwind classes of the category badge */
+			"color?": "string",
+			/** "food" looks the product up in FoodData Central instead of searching */
+			"pipeline?": "'food' | 'media'",
+			include: RuleToken.array(),
+			"exclude?": RuleToken.array(),
+			/** Multiplier on the category's score */
+			"weight?": "number > 0",
+			"sourceHints?": RuleToken.array(),
+			"search?": SearchTemplates,
+			/** Tasks planned for images of the category */
+			"tasks?": "string[]",
+		},
+	},
+	primitives: {
+		"[string]": {
+			include: RuleToken.array(),
+			"tasks?": "string[]",
+		},
+	},
+});
+
+export type ClassificationRuleset = typeof ClassificationRuleset.infer;
+
+export type Token = string | RegExp;
+
+export type SearchTemplates = typeof SearchTemplates.infer;
+
+export interface CategoryRule {
+	color: string;
+	pipeline: "food" | "media";
+	include: Token[];
+	exclude: Token[];
+	weight: number;
+	sourceHints: Token[];
+	search: SearchTemplates;
+	tasks: string[];
+}
+
+export interface PrimitiveRule {
+	include: Token[];
+	tasks: string[];
+}
+
+// A validated ruleset with its tokens compiled and defaults filled in
+export interface ClassificationRules<C extends string = string> {
+	version: number;
+	fallback: C;
+	threshold: number;
+	sourceHintWeight: number;
+	excludePenalty: number;
+	temperature: number;
+	ambiguityMargin: number;
+	labelThreshold: number;
+	categories: Record<C, CategoryRule>;
+	primitives: Record<string, PrimitiveRule>;
+	/** The ruleset as written, e.g. to hand to another process */
+	source: ClassificationRuleset;
+}
+
+// Categories of the bundled ruleset
+export type BuiltinCategory = keyof (typeof builtinRuleset)["categories"];
+
+const FALLBACK_COLOR = "bg-gray-100 text-gray-800 border-gray-200";
+
+// Thrown when a ruleset does not match the schema
+export class RulesetError extends Error {
+	constructor(readonly summary: string) {
+		super(`Invalid classification rules:\n${summary}`);
+		this.name = "RulesetError";
+	}
+}
+
+const compileToken = (token: string): Token => {
+	const match = REGEX_TOKEN.exec(token);
+	return match ? new RegExp(match[1], match[2]) : token;
+};
+
+/**
+ * Validates a ruleset and compiles its tokens.
+ *
+ * @throws {RulesetError} If the ruleset does not match the schema
+ */
+export function compileRules<C extends string = string>(
+	input: unknown,
+): ClassificationRules<C> {
+	const source = ClassificationRuleset(input);
+	if (source instanceof type.errors) throw new RulesetError(source.summary);
+	if (!(source.fallback in source.categories)) {
+		throw new RulesetError(
+			`fallback must be one of the categories (was "${source.fallback}")`,
+		);
+	}
+
+	const categories = Object.fromEntries(
+		Object.entries(source.categories).map(([name, rule]) => [
+			name,
+			{
+				color: rule.color ?? FALLBACK_COLOR,
+				pipeline: rule.pipeline ?? "media",
+				include: rule.include.map(compileToken),
+				exclude: (rule.exclude ?? []).map(compileToken),
+				weight: rule.weight ?? 1,
+				sourceHints: (rule.sourceHints ?? []).map(compileToken),
+				search: rule.search ?? source.search,
+				tasks: rule.tasks ?? [],
+			} satisfies CategoryRule,
+		]),
+	) as Record<C, CategoryRule>;
+
+	const primitives = Object.fromEntries(
+		Object.entries(source.primitives).map(([name, rule]) => [
+			name,
+			{ include: rule.include.map(compileToken), tasks: rule.tasks ?? [] },
+		]),
+	);
+
+	return {
+		version: source.version,
+		fallback: source.fallback as C,
+		threshold: source.threshold ?? 1,
+		sourceHintWeight: source.sourceHintWeight ?? 0.5,
+		excludePenalty: source.excludePenalty ?? 0.75,
+		temperature: source.temperature ?? 1,
+		ambiguityMargin: source.ambiguityMargin ?? 0.2,
+		labelThreshold: source.labelThreshold ?? 0.5,
+		categories,
+		primitives,
+		source,
+	};
+}
+
+export const DEFAULT_RULES = compileRules<BuiltinCategory>(builtinRuleset);
+
+// The rules classifiers use unless given their own. Replaced on hot reload
+// (bundled file in dev, CLASSIFICATION_RULES on the server) and when the
+// upload UI syncs with the server.
+let activeRules: ClassificationRules = DEFAULT_RULES;
+const listeners = new Set<() => void>();
+
+export const getClassificationRules = (): ClassificationRules => activeRules;
+
+export const setClassificationRules = (rules: ClassificationRules) => {
+	activeRules = rules;
+	for (const listener of listeners) listener();
+};
+
+// Calls `listener` after each rules change; returns the unsubscribe function
+export const subscribeClassificationRules = (listener: () => void) => {
+	listeners.add(listener);
+	return () => {
+		listeners.delete(listener);
+	};
+};
+
+// Rule of a category, or of the fallback for categories the rules lack
+export const categoryRule = (
+	rules: ClassificationRules,
+	category: string,
+): CategoryRule =>
+	rules.categories[category] ?? rules.categories[rules.fallback];
+
+// Web and video queries for a category's media pipeline
+export const searchQueries = (
+	rules: ClassificationRules,
+	category: string,
+	query: string,
+): SearchTemplates => {
+	const { web, video } = categoryRule(rules, category).search;
+	return {
+		web: web.replaceAll("{query}", query),
+		video: video.replaceAll("{query}", query),
+	};
+};
+
+// Edits to the bundled ruleset apply without a page reload in dev
+if (import.meta.hot) {
+	import.meta.hot.accept("./classification-rules.json", (module) => {
+		if (!module) return;
+		try {
+			setClassificationRules(compileRules(module.default));
+		} catch (e) {
+			console.error(e);
+		}
+	});
+}
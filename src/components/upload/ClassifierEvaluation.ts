@@ -0,0 +1,444 @@
+import { type } from "arktype";
+import { extractMeta, type WebDetect } from "./AnalysisStages";
+import type { ClassificationRules } from "./ClassificationRules";
+import {
+	type CategoryEvidence,
+	type PipelineMeta,
+	ProductClassifier,
+} from "./ProductClassifier";
+
+// Scores ProductClassifier.determineCategory against a labeled dataset, so
+// rule changes can be compared (and gated) on precision, recall and F1.
+// scripts/evaluate-classifier.ts runs it from the command line.
+
+const Meta = type({
+	primaryQuery: "string",
+	labels: "string[]",
+	"brand?": "string | null",
+	"source?": "string | null",
+	"locale?": "string | null",
+	"description?": "string | null",
+	"attributes?": {
+		"[string]": "string | number | boolean | null | undefined",
+	},
+});
+
+const Detect = type({
+	webEntities: type({ "description?": "string", "score?": "number" }).array(),
+	fullMatchingImages: type({ url: "string" }).array(),
+	partialMatchingImages: type({ url: "string" }).array(),
+	pagesWithMatchingImages: type({
+		url: "string",
+		"pageTitle?": "string",
+	}).array(),
+});
+
+const LabeledExample = type({
+	id: "string > 0",
+	expected: "string > 0",
+	"note?": "string",
+	"meta?": Meta,
+	/** A recorded web detection, run through extractMeta */
+	"detect?": Detect,
+});
+
+/**
+ * Schema of a labeled dataset. Each example has a `meta`, or a recorded
+ * `detect` payload.
+ */
+export const LabeledDataset = type({
+	version: "1",
+	examples: LabeledExample.array(),
+});
+
+export type LabeledDataset = typeof LabeledDataset.infer;
+
+export type LabeledExample = typeof LabeledExample.infer;
+
+export interface CategoryScores {
+	precision: number;
+	recall: number;
+	f1: number;
+	/** Examples labeled with the category */
+	support: number;
+}
+
+export interface Misclassification {
+	id: string;
+	expected: string;
+	predicted: string;
+	/** Predicted category's score minus the expected one's; larger is worse */
+	margin: number;
+	/** Calibrated probability of the predicted category */
+	probability: number;
+	note?: string;
+	query: string;
+	evidence: { expected?: CategoryEvidence; predicted: CategoryEvidence };
+}
+
+export interface EvaluationReport {
+	version: 1;
+	/** Version of the classification ruleset evaluated */
+	rulesVersion: number;
+	total: number;
+	correct: number;
+	accuracy: number;
+	/** Unweighted mean F1 over the categories */
+	macroF1: number;
+	/** Mean negative log probability of the expected categories; lower is better calibrated */
+	logLoss: number;
+	/** Examples the classifier flagged as ambiguous */
+	ambiguous: number;
+	categories: string[];
+	perCategory: Record<string, CategoryScores>;
+	/** Counts by expected, then predicted category */
+	confusion: Record<string, Record<string, number>>;
+	/** Wrong predictions, worst margin first */
+	misclassified: Misclassification[];
+	/** Predicted category by example id */
+	predictions: Record<string, string>;
+}
+
+export interface ScoreDelta {
+	baseline: number;
+	current: number;
+	delta: number;
+}
+
+export interface EvaluationDiff {
+	accuracy: ScoreDelta;
+	macroF1: ScoreDelta;
+	logLoss: ScoreDelta;
+	perCategory: Record<
+		string,
+		Record<"precision" | "recall" | "f1", ScoreDelta>
+	>;
+	/** Examples wrong in the baseline and right now */
+	fixed: string[];
+	/** Examples right in the baseline and wrong now */
+	broken: string[];
+	/** Examples whose prediction changed between two wrong categories */
+	changed: string[];
+}
+
+// Thrown when a dataset does not match the schema
+export class DatasetError extends Error {
+	constructor(readonly summary: string) {
+		super(`Invalid labeled dataset:\n${summary}`);
+		this.name = "DatasetError";
+	}
+}
+
+/**
+ * Validates a labeled dataset.
+ *
+ * @throws {DatasetError} If an example is malformed, lacks both `meta` and
+ * `detect`, or repeats an id
+ */
+export function parseDataset(input: unknown): LabeledDataset {
+	const dataset = LabeledDataset(input);
+	if (dataset instanceof type.errors) throw new DatasetError(dataset.summary);
+
+	const problems: string[] = [];
+	const seen = new Set<string>();
+	for (const [index, example] of dataset.examples.entries()) {
+		if (!example.meta && !example.detect) {
+			problems.push(`examples[${index}] must have meta or detect`);
+		}
+		if (seen.has(example.id)) {
+			problems.push(`examples[${index}].id "${example.id}" is not unique`);
+		}
+		seen.add(example.id);
+	}
+	if (problems.length) throw new DatasetError(problems.join("\n"));
+	return dataset;
+}
+
+const metaOf = (example: LabeledExample): PipelineMeta =>
+	example.meta ?? extractMeta(example.detect as WebDetect);
+
+// Floor for the probability of an expected category, so log loss stays finite
+const MIN_PROBABILITY = 1e-6;
+
+const ratio = (n: number, d: number) => (d === 0 ? 0 : n / d);
+
+const round = (n: number) => Math.round(n * 10_000) / 10_000;
+
+/**
+ * Classifies every example and scores the predictions. Labels the ruleset
+ * does not know count as their own category, so they show up as misses.
+ */
+export function evaluateClassifier(
+	classifier: ProductClassifier,
+	dataset: LabeledDataset,
+): EvaluationReport {
+	const rules = classifier.rules;
+	const categories = [
+		...new Set([
+			...Object.keys(rules.categories),
+			...dataset.examples.map((e) => e.expected),
+		]),
+	];
+
+	const confusion = Object.fromEntries(
+		categories.map((expected) => [
+			expected,
+			Object.fromEntries(categories.map((predicted) => [predicted, 0])),
+		]),
+	);
+	const predictions: Record<string, string> = {};
+	const misclassified: Misclassification[] = [];
+	let logLoss = 0;
+	let ambiguous = 0;
+
+	for (const example of dataset.examples) {
+		const meta = metaOf(example);
+		const decision = classifier.determineCategory(meta);
+		const { category, evidenceByCategory } = decision;
+		predictions[example.id] = category;
+		logLoss -= Math.log(
+			Math.max(decision.probabilities[example.expected] ?? 0, MIN_PROBABILITY),
+		);
+		if (decision.ambiguous) ambiguous++;
+		confusion[example.expected][category]++;
+
+		if (category !== example.expected) {
+			const expected = evidenceByCategory[example.expected];
+			const predicted = evidenceByCategory[category];
+			misclassified.push({
+				id: example.id,
+				expected: example.expected,
+				predicted: category,
+				margin: round(predicted.score - (expected?.score ?? 0)),
+				probability: decision.probability,
+				...(example.note && { note: example.note }),
+				query: meta.primaryQuery,
+				evidence: { expected, predicted },
+			});
+		}
+	}
+	misclassified.sort((a, b) => b.margin - a.margin);
+
+	const perCategory = Object.fromEntries(
+		categories.map((c) => {
+			const truePositives = confusion[c][c];
+			const predicted = categories.reduce((n, e) => n + confusion[e][c], 0);
+			const support = categories.reduce((n, p) => n + confusion[c][p], 0);
+			const precision = ratio(truePositives, predicted);
+			const recall = ratio(truePositives, support);
+			const f1 = ratio(2 * precision * recall, precision + recall);
+			return [
+				c,
+				{
+					precision: round(precision),
+					recall: round(recall),
+					f1: round(f1),
+					support,
+				},
+			];
+		}),
+	);
+
+	// Categories nobody labeled or predicted would only drag the mean to zero
+	const scored = categories.filter(
+		(c) =>
+			perCategory[c].support > 0 || categories.some((e) => confusion[e][c] > 0),
+	);
+	const total = dataset.examples.length;
+	const correct = total - misclassified.length;
+
+	return {
+		version: 1,
+		rulesVersion: rules.version,
+		total,
+		correct,
+		accuracy: round(ratio(correct, total)),
+		logLoss: round(ratio(logLoss, total)),
+		ambiguous,
+		macroF1: round(
+			ratio(
+				scored.reduce((sum, c) => sum + perCategory[c].f1, 0),
+				scored.length,
+			),
+		),
+		categories,
+		perCategory,
+		confusion,
+		misclassified,
+		predictions,
+	};
+}
+
+/**
+ * Finds the softmax temperature that minimizes log loss on a dataset, i.e.
+ * whose probabilities best match how often the classifier is right.
+ *
+ * @param candidates - Temperatures to try
+ */
+export function calibrateTemperature(
+	rules: ClassificationRules,
+	dataset: LabeledDataset,
+	candidates = [0.1, 0.15, 0.2, 0.25, 0.3, 0.4, 0.5, 0.75, 1, 1.5, 2, 3],
+): { temperature: number; logLoss: number } {
+	return candidates
+		.map((temperature) => ({
+			temperature,
+			logLoss: evaluateClassifier(
+				new ProductClassifier({ ...rules, temperature }),
+				dataset,
+			).logLoss,
+		}))
+		.reduce((best, c) => (c.logLoss < best.logLoss ? c : best));
+}
+
+const delta = (baseline: number, current: number): ScoreDelta => ({
+	baseline,
+	current,
+	delta: round(current - baseline),
+});
+
+/**
+ * Compares a report with a baseline report over the same dataset.
+ */
+export function diffReports(
+	baseline: EvaluationReport,
+	current: EvaluationReport,
+): EvaluationDiff {
+	const zero: CategoryScores = { precision: 0, recall: 0, f1: 0, support: 0 };
+	const categories = [
+		...new Set([...baseline.categories, ...current.categories]),
+	];
+
+	const fixed: string[] = [];
+	const broken: string[] = [];
+	const changed: string[] = [];
+	const expected = new Map(
+		current.misclassified.map((m) => [m.id, m.expected]),
+	);
+	for (const m of baseline.misclassified) expected.set(m.id, m.expected);
+
+	for (const [id, predicted] of Object.entries(current.predictions)) {
+		const before = baseline.predictions[id];
+		if (before === undefined || before === predicted) continue;
+		const label = expected.get(id);
+		if (predicted === label) fixed.push(id);
+		else if (before === label) broken.push(id);
+		else changed.push(id);
+	}
+
+	return {
+		accuracy: delta(baseline.accuracy, current.accuracy),
+		macroF1: delta(baseline.macroF1, current.macroF1),
+		logLoss: delta(baseline.logLoss ?? 0, current.logLoss),
+		perCategory: Object.fromEntries(
+			categories.map((c) => {
+				const b = baseline.perCategory[c] ?? zero;
+				const a = current.perCategory[c] ?? zero;
+				return [
+					c,
+					{
+						precision: delta(b.precision, a.precision),
+						recall: delta(b.recall, a.recall),
+						f1: delta(b.f1, a.f1),
+					},
+				];
+			}),
+		),
+		fixed,
+		broken,
+		changed,
+	};
+}
+
+const pct = (n: number) => `${(n * 100).toFixed(1)}%`;
+
+const signed = (n: number) =>
+	`${n > 0 ? "+" : n < 0 ? "-" : "±"}${(Math.abs(n) * 100).toFixed(1)}`;
+
+const table = (rows: string[][]) => {
+	const widths = rows[0].map((_, i) =>
+		Math.max(...rows.map((r) => r[i].length)),
+	);
+	return rows
+		.map((r) =>
+			r
+				.map((cell, i) =>
+					i === 0 ? cell.padEnd(widths[i]) : cell.padStart(widths[i]),
+				)
+				.join("  "),
+		)
+		.join("\n");
+};
+
+/**
+ * Renders a report, and its diff against a baseline, as plain text.
+ *
+ * @param top - Misclassified examples to list
+ */
+export function formatReport(
+	report: EvaluationReport,
+	diff?: EvaluationDiff,
+	top = 10,
+): string {
+	const lines: string[] = [];
+	const vs = (d: ScoreDelta) => (diff ? ` (${signed(d.delta)})` : "");
+
+	lines.push(
+		`Examples: ${report.total}, correct: ${report.correct}, rules v${report.rulesVersion}`,
+		`Accuracy: ${pct(report.accuracy)}${diff ? vs(diff.accuracy) : ""}`,
+		`Macro F1: ${pct(report.macroF1)}${diff ? vs(diff.macroF1) : ""}`,
+		`Log loss: ${report.logLoss}${diff ? ` (${diff.logLoss.delta >= 0 ? "+" : ""}${diff.logLoss.delta})` : ""}, ambiguous: ${report.ambiguous}`,
+		"",
+		table([
+			["Category", "Precision", "Recall", "F1", "Support"],
+			...report.categories.map((c) => {
+				const s = report.perCategory[c];
+				const d = diff?.perCategory[c];
+				return [
+					c,
+					pct(s.precision) + (d ? vs(d.precision) : ""),
+					pct(s.recall) + (d ? vs(d.recall) : ""),
+					pct(s.f1) + (d ? vs(d.f1) : ""),
+					String(s.support),
+				];
+			}),
+		]),
+		"",
+		"Confusion matrix (rows: expected, columns: predicted)",
+		table([
+			["", ...report.categories],
+			...report.categories.map((e) => [
+				e,
+				...report.categories.map((p) => String(report.confusion[e][p])),
+			]),
+		]),
+	);
+
+	if (report.misclassified.length && top > 0) {
+		lines.push(
+			"",
+			`Top misclassified (${Math.min(top, report.misclassified.length)} of ${report.misclassified.length})`,
+		);
+		for (const m of report.misclassified.slice(0, top)) {
+			const { expected, predicted } = m.evidence;
+			lines.push(
+				`  ${m.id}: expected ${m.expected}, got ${m.predicted} (margin ${m.margin}) "${m.query}"`,
+				`    ${m.predicted} ${predicted.score}: matched [${predicted.matched.join(", ")}] blocked [${predicted.blocked.join(", ")}]`,
+				`    ${m.expected} ${expected?.score ?? 0}: matched [${expected?.matched.join(", ") ?? ""}] blocked [${expected?.blocked.join(", ") ?? ""}]`,
+				...(m.note ? [`    note: ${m.note}`] : []),
+			);
+		}
+	}
+
+	if (diff) {
+		lines.push(
+			"",
+			`Against baseline: ${diff.fixed.length} fixed, ${diff.broken.length} broken, ${diff.changed.length} changed`,
+			...diff.fixed.map((id) => `  fixed   ${id}`),
+			...diff.broken.map((id) => `  broken  ${id}`),
+			...diff.changed.map((id) => `  changed ${id}`),
+		);
+	}
+
+	return lines.join("\n");
+}
@@ -3,33 +3,82 @@ export interface ValidationError {
 	message: string;
 }
 
+/**
+ * Image types recognized by {@link sniffImageType}.
+ */
+export type ImageType = "jpeg" | "png" | "gif" | "webp" | "avif" | "heic";
+
+/**
+ * Leading bytes (hex) of each image type.
+ */
+const IMAGE_SIGNATURES: Record<string, ImageType> = {
+	ffd8ffe0: "jpeg",
+	ffd8ffe1: "jpeg",
+	ffd8ffe2: "jpeg",
+	ffd8ffe3: "jpeg",
+	ffd8ffe8: "jpeg",
+	"89504e47": "png",
+	"47494638": "gif",
+	"52494646": "webp",
+};
+
+/** Major brands of the ISO BMFF `ftyp` box, for AVIF and HEIC */
+const AVIF_BRANDS = ["avif", "avis"];
+const HEIC_BRANDS = ["heic", "heix", "heim", "heis", "hevc", "hevx"];
+/**
+ * Generic HEIF brands, written by HEIC and many AVIF encoders alike; the
+ * compatible brands tell them apart
+ */
+const HEIF_BRANDS = ["mif1", "msf1"];
+
+/**
+ * Number of leading bytes {@link sniffImageType} needs: enough for the
+ * compatible brands of a typical `ftyp` box.
+ */
+export const SIGNATURE_LENGTH = 64;
+
+/**
+ * Identifies an image from its magic bytes rather than its declared type.
+ *
+ * @param {Uint8Array} bytes - At least the first {@link SIGNATURE_LENGTH} bytes of the file
+ * @returns {ImageType | undefined} The image type, or `undefined` if unrecognized
+ */
+export const sniffImageType = (bytes: Uint8Array): ImageType | undefined => {
+	const ascii = (start: number, end: number) =>
+		String.fromCharCode(...bytes.subarray(start, end));
+	// AVIF and HEIC are ISO BMFF files: an `ftyp` box, then the major brand
+	if (ascii(4, 8) === "ftyp") {
+		const brand = ascii(8, 12);
+		if (AVIF_BRANDS.includes(brand)) return "avif";
+		if (HEIC_BRANDS.includes(brand)) return "heic";
+		if (!HEIF_BRANDS.includes(brand)) return undefined;
+		// Compatible brands follow the minor version, up to the box's end
+		const boxEnd = Math.min(
+			new DataView(bytes.buffer, bytes.byteOffset, 4).getUint32(0),
+			bytes.length,
+		);
+		for (let i = 16; i + 4 <= boxEnd; i += 4) {
+			if (AVIF_BRANDS.includes(ascii(i, i + 4))) return "avif";
+		}
+		return "heic";
+	}
+	let header = "";
+	for (const byte of bytes.subarray(0, 4))
+		header += byte.toString(16).padStart(2, "0");
+	const type = IMAGE_SIGNATURES[header];
+	// RIFF also wraps WAV and AVI
+	if (type === "webp" && ascii(8, 12) !== "WEBP") return undefined;
+	return type;
+};
+
 export const validateFileSignature = (file: File): Promise<boolean> => {
 	return new Promise((resolve) => {
 		const reader = new FileReader();
 		reader.onload = (e) => {
-			const arr = new Uint8Array(e.target?.result as ArrayBuffer).subarray(
-				0,
-				4,
-			);
-			let header = "";
-			for (let i = 0; i < arr.length; i++)
-				header += arr[i].toString(16).padStart(2, "0");
-			const validSignatures: Record<string, string> = {
-				ffd8ffe0: "jpeg",
-				ffd8ffe1: "jpeg",
-				ffd8ffe2: "jpeg",
-				ffd8ffe3: "jpeg",
-				ffd8ffe8: "jpeg",
-				"89504e47": "png",
-				"47494638": "gif",
-				"52494646": "webp",
-			};
-			const isValid = Object.keys(validSignatures).some((s) =>
-				header.startsWith(s.toLowerCase()),
-			);
-			resolve(isValid);
+			const bytes = new Uint8Array(e.target?.result as ArrayBuffer);
+			resolve(sniffImageType(bytes) !== undefined);
 		};
-		reader.readAsArrayBuffer(file.slice(0, 4));
+		reader.readAsArrayBuffer(file.slice(0, SIGNATURE_LENGTH));
 	});
 };
 
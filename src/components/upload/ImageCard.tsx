@@ -12,14 +12,24 @@ import {
 	Youtube,
 } from "lucide-react";
 import type React from "react";
-import { useCallback, useMemo } from "react";
+import { useCallback, useMemo, useSyncExternalStore } from "react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
-import type { Category, PipelineResult } from "./AIAnalysisPipeline";
+import type {
+	Category,
+	CategoryResults,
+	Insights,
+	PipelineResult,
+} from "./AIAnalysisPipeline";
+import {
+	categoryRule,
+	getClassificationRules,
+	subscribeClassificationRules,
+} from "./ClassificationRules";
 
 export interface ImageFile {
 	file: File;
@@ -67,18 +77,163 @@ const AnalysisSection: React.FC<{
 	</div>
 );
 
-// Memoized category color utility
+// Category badge colors from the classification rules; re-renders when the
+// rules are reloaded
 const useCategoryColor = () => {
-	return useCallback((category: Category) => {
-		const colors: Record<Category, string> = {
-			Food: "bg-green-100 text-green-800 border-green-200",
-			Clothes: "bg-purple-100 text-purple-800 border-purple-200",
-			Drugs: "bg-red-100 text-red-800 border-red-200",
-			Technology: "bg-blue-100 text-blue-800 border-blue-200",
-			Unknown: "bg-gray-100 text-gray-800 border-gray-200",
-		};
-		return colors[category] || colors.Unknown;
-	}, []);
+	const rules = useSyncExternalStore(
+		subscribeClassificationRules,
+		getClassificationRules,
+	);
+	return useCallback(
+		(category: Category) => categoryRule(rules, category).color,
+		[rules],
+	);
+};
+
+// A category's confidence as a whole percentage
+const percent = (confidence: number) => `${Math.round(confidence * 100)}%`;
+
+interface CategoryGroupData {
+	category: Category;
+	confidence?: number;
+	results: CategoryResults;
+}
+
+// Ranked categories with their own results; results from before multi-label
+// classification form a single group of the top-level results
+const categoryGroups = (insights: Insights): CategoryGroupData[] =>
+	insights.categories?.length
+		? insights.categories.map(({ category, confidence }) => ({
+				category,
+				confidence,
+				results: insights.resultsByCategory?.[category] ?? {},
+			}))
+		: [
+				{
+					category: insights.category,
+					results: insights,
+				},
+			];
+
+const CategoryBadge: React.FC<{
+	category: Category;
+	confidence?: number;
+	color: string;
+}> = ({ category, confidence, color }) => (
+	<Badge className={`${color} px-3 py-1 font-semibold gap-1.5`}>
+		{category}
+		{confidence !== undefined && (
+			<span className="font-medium opacity-70">{percent(confidence)}</span>
+		)}
+	</Badge>
+);
+
+// Pipeline results of one category, under its badge when there are several
+const CategoryGroup: React.FC<{
+	group: CategoryGroupData;
+	showHeader: boolean;
+	color: string;
+}> = ({ group: { category, confidence, results }, showHeader, color }) => {
+	const empty =
+		!results.food?.nutrients?.length &&
+		!results.cse?.length &&
+		!results.youtube?.length;
+	if (empty && !showHeader) return null;
+
+	return (
+		<div className="space-y-4">
+			{showHeader && (
+				<div className="flex items-center gap-3">
+					<CategoryBadge
+						category={category}
+						confidence={confidence}
+						color={color}
+					/>
+					<Separator className="flex-1 bg-border/50" />
+				</div>
+			)}
+			{empty && (
+				<p className="text-xs text-muted-foreground">
+					No results for this category
+				</p>
+			)}
+
+			{/* Food Nutrients */}
+			{results.food?.nutrients && results.food.nutrients.length > 0 && (
+				<AnalysisSection
+					title="Nutrition Facts"
+					icon={<Utensils className="w-4 h-4 text-green-600" />}
+					iconBgColor="bg-green-50 dark:bg-green-900/20"
+				>
+					<div className="grid grid-cols-2 gap-3">
+						{results.food.nutrients.slice(0, 4).map((n) => (
+							<div
+								key={n.id}
+								className="bg-gradient-to-br from-muted/50 to-muted/30 rounded-lg p-3 border border-border/30 hover:border-accent/30 transition-colors"
+							>
+								<div className="text-sm font-bold text-foreground">
+									{n.name}
+								</div>
+								<div className="text-xs text-muted-foreground font-medium">
+									{n.value} {n.unit}
+								</div>
+							</div>
+						))}
+					</div>
+				</AnalysisSection>
+			)}
+
+			{/* Web Results */}
+			{results.cse && results.cse.length > 0 && (
+				<AnalysisSection
+					title="Web Results"
+					icon={<LinkIcon className="w-4 h-4 text-purple-600" />}
+					iconBgColor="bg-purple-50 dark:bg-purple-900/20"
+				>
+					<ScrollArea className="h-24">
+						<div className="space-y-3">
+							{results.cse.slice(0, 3).map((c, i) => (
+								<a
+									key={i}
+									href={c.link}
+									target="_blank"
+									rel="noreferrer"
+									className="block text-sm text-accent hover:text-accent/80 hover:underline leading-relaxed font-medium transition-colors p-2 hover:bg-accent/5 rounded-md"
+								>
+									{c.title}
+								</a>
+							))}
+						</div>
+					</ScrollArea>
+				</AnalysisSection>
+			)}
+
+			{/* YouTube Videos */}
+			{results.youtube && results.youtube.length > 0 && (
+				<AnalysisSection
+					title="Related Videos"
+					icon={<Youtube className="w-4 h-4 text-red-600" />}
+					iconBgColor="bg-red-50 dark:bg-red-900/20"
+				>
+					<ScrollArea className="h-24">
+						<div className="space-y-3">
+							{results.youtube.slice(0, 2).map((v, i) => (
+								<a
+									key={i}
+									href={`https://www.youtube.com/watch?v=${v.videoId}`}
+									target="_blank"
+									rel="noreferrer"
+									className="block text-sm text-accent hover:text-accent/80 hover:underline leading-relaxed font-medium transition-colors p-2 hover:bg-accent/5 rounded-md"
+								>
+									{v.title}
+								</a>
+							))}
+						</div>
+					</ScrollArea>
+				</AnalysisSection>
+			)}
+		</div>
+	);
 };
 
 // Memoized image error handler
@@ -129,13 +284,18 @@ const ImageCard: React.FC<ImageCardProps> = ({
 						/>
 						<div className="absolute inset-0 w-12 h-12 mx-auto border-4 border-accent/20 rounded-full animate-pulse-glow" />
 					</div>
-					<div className="w-40 h-2 bg-accent/10 rounded-full"></div>
+					<div className="w-40 h-2 bg-accent/10 rounded-full overflow-hidden">
+						<div
+							className="h-full bg-accent rounded-full transition-all duration-500"
+							style={{ width: `${progress ?? 0}%` }}
+						/>
+					</div>
 					<p className="text-sm font-medium text-foreground">{loadingText}</p>
 					<div className="animate-shimmer h-1 w-32 mx-auto rounded" />
 				</div>
 			</div>
 		);
-	}, [isProcessing, loadingText]);
+	}, [isProcessing, loadingText, progress]);
 
 	// Memoized error alert
 	const errorAlert = useMemo(() => {
@@ -158,6 +318,8 @@ const ImageCard: React.FC<ImageCardProps> = ({
 	const analysisContent = useMemo(() => {
 		if (!result || result.error || !showAnalysis) return null;
 
+		const groups = categoryGroups(result.insights);
+
 		return (
 			<>
 				{/* Category and Labels */}
@@ -166,11 +328,16 @@ const ImageCard: React.FC<ImageCardProps> = ({
 						<div className="p-2 bg-accent/10 rounded-lg">
 							<Sparkles className="w-4 h-4 text-accent" />
 						</div>
-						<Badge
-							className={`${getCategoryColor(result.insights.category)} px-3 py-1 font-semibold`}
-						>
-							{result.insights.category}
-						</Badge>
+						<div className="flex flex-wrap gap-2">
+							{groups.map(({ category, confidence }) => (
+								<CategoryBadge
+									key={category}
+									category={category}
+									confidence={confidence}
+									color={getCategoryColor(category)}
+								/>
+							))}
+						</div>
 					</div>
 
 					{result.insights.meta.labels.length > 0 && (
@@ -221,81 +388,14 @@ const ImageCard: React.FC<ImageCardProps> = ({
 					</AnalysisSection>
 				)}
 
-				{/* Food Nutrients */}
-				{result.insights.food?.nutrients &&
-					result.insights.food.nutrients.length > 0 && (
-						<AnalysisSection
-							title="Nutrition Facts"
-							icon={<Utensils className="w-4 h-4 text-green-600" />}
-							iconBgColor="bg-green-50 dark:bg-green-900/20"
-						>
-							<div className="grid grid-cols-2 gap-3">
-								{result.insights.food.nutrients.slice(0, 4).map((n) => (
-									<div
-										key={n.id}
-										className="bg-gradient-to-br from-muted/50 to-muted/30 rounded-lg p-3 border border-border/30 hover:border-accent/30 transition-colors"
-									>
-										<div className="text-sm font-bold text-foreground">
-											{n.name}
-										</div>
-										<div className="text-xs text-muted-foreground font-medium">
-											{n.value} {n.unit}
-										</div>
-									</div>
-								))}
-							</div>
-						</AnalysisSection>
-					)}
-
-				{/* Web Results */}
-				{result.insights.cse && result.insights.cse.length > 0 && (
-					<AnalysisSection
-						title="Web Results"
-						icon={<LinkIcon className="w-4 h-4 text-purple-600" />}
-						iconBgColor="bg-purple-50 dark:bg-purple-900/20"
-					>
-						<ScrollArea className="h-24">
-							<div className="space-y-3">
-								{result.insights.cse.slice(0, 3).map((c, i) => (
-									<a
-										key={i}
-										href={c.link}
-										target="_blank"
-										rel="noreferrer"
-										className="block text-sm text-accent hover:text-accent/80 hover:underline leading-relaxed font-medium transition-colors p-2 hover:bg-accent/5 rounded-md"
-									>
-										{c.title}
-									</a>
-								))}
-							</div>
-						</ScrollArea>
-					</AnalysisSection>
-				)}
-
-				{/* YouTube Videos */}
-				{result.insights.youtube && result.insights.youtube.length > 0 && (
-					<AnalysisSection
-						title="Related Videos"
-						icon={<Youtube className="w-4 h-4 text-red-600" />}
-						iconBgColor="bg-red-50 dark:bg-red-900/20"
-					>
-						<ScrollArea className="h-24">
-							<div className="space-y-3">
-								{result.insights.youtube.slice(0, 2).map((v, i) => (
-									<a
-										key={i}
-										href={`https://www.youtube.com/watch?v=${v.videoId}`}
-										target="_blank"
-										rel="noreferrer"
-										className="block text-sm text-accent hover:text-accent/80 hover:underline leading-relaxed font-medium transition-colors p-2 hover:bg-accent/5 rounded-md"
-									>
-										{v.title}
-									</a>
-								))}
-							</div>
-						</ScrollArea>
-					</AnalysisSection>
-				)}
+				{groups.map((group) => (
+					<CategoryGroup
+						key={group.category}
+						group={group}
+						showHeader={groups.length > 1}
+						color={getCategoryColor(group.category)}
+					/>
+				))}
 			</>
 		);
 	}, [result, showAnalysis, getCategoryColor]);
@@ -0,0 +1,44 @@
+// Background analysis jobs started from the upload UI, kept in localStorage so
+// a reloaded page can show their images again and reattach to them.
+
+export interface PendingJob {
+	/** Server job id (`/api/jobs/:id`) */
+	jobId: string;
+	/** Id of the `ImageFile` the job analyzes */
+	fileId: string;
+	/** File name shown on the image card */
+	name: string;
+}
+
+const STORAGE_KEY = "secure-image-upload:pending-jobs";
+
+export const loadPendingJobs = (): PendingJob[] => {
+	try {
+		const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+		return Array.isArray(stored) ? stored : [];
+	} catch {
+		return [];
+	}
+};
+
+const savePendingJobs = (jobs: PendingJob[]) => {
+	try {
+		if (jobs.length) localStorage.setItem(STORAGE_KEY, JSON.stringify(jobs));
+		else localStorage.removeItem(STORAGE_KEY);
+	} catch {
+		// Storage may be full or disabled; the job then just cannot be resumed
+	}
+};
+
+export const addPendingJob = (job: PendingJob) => {
+	savePendingJobs([
+		...loadPendingJobs().filter((j) => j.fileId !== job.fileId),
+		job,
+	]);
+};
+
+export const removePendingJob = (fileId: string) => {
+	savePendingJobs(loadPendingJobs().filter((j) => j.fileId !== fileId));
+};
+
+export const clearPendingJobs = () => savePendingJobs([]);
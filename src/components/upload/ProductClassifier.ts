@@ -0,0 +1,407 @@
+import {
+	type ClassificationRules,
+	getClassificationRules,
+	type Token,
+} from "./ClassificationRules";
+import { ngramCounts, tokenize } from "./Tokenizer";
+
+// Category and primitive names come from the classification rules
+export type Category = string;
+
+export type Primitive = string;
+
+export interface PipelineMeta {
+	primaryQuery: string;
+	labels: string[];
+	// Optional extra context if you have it:
+	brand?: string | null;
+	source?: string | null; // e.g., "amazon", "wikipedia", "bestbuy"
+	locale?: string | null; // e.g., "en-US"
+	description?: string | null; // scraped snippet
+	attributes?: Record<string, string | number | boolean | null | undefined>;
+}
+
+export interface CategoryEvidence {
+	matched: string[]; // tokens/regex labels that hit
+	blocked: string[]; // negatives that fired (if any)
+	score: number; // final score after weights
+}
+
+export interface RankedCategory<C extends string = Category> {
+	category: C;
+	// Confidence that the image shows this category, regardless of the others;
+	// absent for the fallback category, which no evidence supports
+	confidence?: number;
+}
+
+export interface CategoryDecision<C extends string = Category> {
+	category: C;
+	evidenceByCategory: Record<C, CategoryEvidence>;
+	// Calibrated probability of each category, summing to 1
+	probabilities: Record<C, number>;
+	// Probability of `category`; a share of all categories, unlike the
+	// per-category confidence in `categories`
+	probability: number;
+	// True when the runner-up is within the ruleset's ambiguityMargin of the
+	// chosen category, so both category pipelines should run
+	ambiguous: boolean;
+	runnerUp?: C;
+	// Categories whose pipelines should run, most likely first: `category`,
+	// then the others whose confidence reaches the ruleset's labelThreshold,
+	// plus an ambiguous runner-up
+	categories: RankedCategory<C>[];
+}
+
+export interface PrimitiveDecision {
+	primitives: Primitive[];
+	evidence: Record<Primitive, string[]>;
+}
+
+// A rule token ready to match: a word n-gram, or a global regex
+interface Matcher {
+	label: string;
+	// Stemmed words joined with a space; empty for regexes
+	gram: string;
+	words: number;
+	regex?: RegExp;
+}
+
+interface CompiledCategory {
+	include: Matcher[];
+	exclude: Matcher[];
+	sourceHints: Matcher[];
+}
+
+interface CompiledRules {
+	categories: Record<string, CompiledCategory>;
+	primitives: Record<string, Matcher[]>;
+	// Inverse category frequency of each include token, 1 for tokens only
+	// one category uses
+	idf: Map<string, number>;
+	maxWords: number;
+}
+
+// Text of a meta as one lowercased string, and its word n-grams
+interface MatchText {
+	blob: string;
+	grams: Map<string, number>;
+}
+
+function squash(meta: PipelineMeta): string {
+	const parts = [
+		meta.primaryQuery,
+		...meta.labels,
+		meta.brand,
+		meta.source,
+		meta.locale,
+		meta.description,
+		...Object.entries(meta.attributes ?? {}).map(([k, v]) => `${k}:${v}`),
+	].filter(Boolean) as string[];
+
+	const blob = parts.join(" ").toLowerCase();
+	return blob
+		.replace(/[_\-]+/g, " ")
+		.replace(/\s{2,}/g, " ")
+		.trim();
+}
+
+function toMatcher(token: Token): Matcher {
+	if (typeof token === "string") {
+		const words = tokenize(token);
+		return { label: token, gram: words.join(" "), words: words.length };
+	}
+	const flags = token.flags.includes("g") ? token.flags : `${token.flags}g`;
+	return {
+		label: token.source,
+		gram: "",
+		words: 0,
+		regex: new RegExp(token.source, flags),
+	};
+}
+
+const matcherKey = (m: Matcher) => (m.regex ? `/${m.label}/` : m.gram);
+
+// Tokens made only of stopwords cannot match anything
+const compileTokens = (tokens: Token[]) =>
+	tokens.map(toMatcher).filter((m) => m.regex || m.words > 0);
+
+const compiled = new WeakMap<ClassificationRules, CompiledRules>();
+
+function compile(rules: ClassificationRules): CompiledRules {
+	const cached = compiled.get(rules);
+	if (cached) return cached;
+
+	const categories = Object.fromEntries(
+		Object.entries(rules.categories).map(([name, rule]) => [
+			name,
+			{
+				include: compileTokens(rule.include),
+				exclude: compileTokens(rule.exclude),
+				sourceHints: compileTokens(rule.sourceHints),
+			},
+		]),
+	);
+	const primitives = Object.fromEntries(
+		Object.entries(rules.primitives).map(([name, rule]) => [
+			name,
+			compileTokens(rule.include),
+		]),
+	);
+
+	// Tokens shared by several categories say less about which one applies
+	const scored = Object.keys(categories).filter((c) => c !== rules.fallback);
+	const df = new Map<string, number>();
+	for (const c of scored) {
+		for (const key of new Set(categories[c].include.map(matcherKey))) {
+			df.set(key, (df.get(key) ?? 0) + 1);
+		}
+	}
+	const n = scored.length;
+	const idf = new Map(
+		[...df].map(([key, count]) => [
+			key,
+			n > 1 ? Math.log(1 + n / count) / Math.log(1 + n) : 1,
+		]),
+	);
+
+	const maxWords = Math.max(
+		1,
+		...Object.values(categories).flatMap((c) =>
+			[...c.include, ...c.exclude, ...c.sourceHints].map((m) => m.words),
+		),
+		...Object.values(primitives).flatMap((ms) => ms.map((m) => m.words)),
+	);
+
+	const result = { categories, primitives, idf, maxWords };
+	compiled.set(rules, result);
+	return result;
+}
+
+// Occurrences of a token in the text
+function occurrences(text: MatchText, m: Matcher): number {
+	if (m.regex) return text.blob.match(m.regex)?.length ?? 0;
+	return text.grams.get(m.gram) ?? 0;
+}
+
+// Sublinear term frequency: repeats count, but less and less
+const termWeight = (count: number) => (count > 0 ? 1 + Math.log(count) : 0);
+
+// Whether phrase `outer` contains phrase `inner` as whole words
+const containsGram = (outer: string, inner: string) =>
+	` ${outer} `.includes(` ${inner} `);
+
+// Scores the tokens found in the text. Occurrences inside a matched exclude
+// phrase do not count: "phone case" blocks the "phone" it contains.
+function countMatches(
+	text: MatchText,
+	matchers: Matcher[],
+	idf?: Map<string, number>,
+	blocked: Matcher[] = [],
+): { hits: string[]; score: number } {
+	const hits: string[] = [];
+	let score = 0;
+	for (const m of matchers) {
+		let count = occurrences(text, m);
+		for (const b of blocked) {
+			if (!m.regex && !b.regex && containsGram(b.gram, m.gram)) {
+				count -= occurrences(text, b);
+			}
+		}
+		if (count > 0) {
+			hits.push(m.label);
+			score += termWeight(count) * (idf?.get(matcherKey(m)) ?? 1);
+		}
+	}
+	return { hits, score };
+}
+
+function anyMatch(text: MatchText, matchers: Matcher[]): string[] {
+	return matchers.filter((m) => occurrences(text, m) > 0).map((m) => m.label);
+}
+
+const round = (n: number) => Math.round(n * 1_000) / 1_000;
+
+// Scores categories and primitives against a ruleset. Without one it follows
+// the active rules (see ClassificationRules), so hot reloads apply to
+// existing classifiers too.
+export class ProductClassifier<C extends string = Category> {
+	constructor(private readonly ruleset?: ClassificationRules<C>) {}
+
+	get rules(): ClassificationRules<C> {
+		return this.ruleset ?? (getClassificationRules() as ClassificationRules<C>);
+	}
+
+	private matchText(meta: PipelineMeta, maxWords: number): MatchText {
+		const blob = squash(meta);
+		return { blob, grams: ngramCounts(tokenize(blob), maxWords) };
+	}
+
+	// Turns scores into probabilities with a softmax. The fallback category
+	// scores the threshold, so it wins until another category clearly beats it.
+	private calibrate(scores: Record<C, number>): Record<C, number> {
+		const rules = this.rules;
+		const logits = (Object.keys(scores) as C[]).map((c) => [
+			c,
+			(c === rules.fallback ? rules.threshold : Math.max(0, scores[c])) /
+				rules.temperature,
+		]) as [C, number][];
+		const max = Math.max(...logits.map(([, l]) => l));
+		const exp = logits.map(([c, l]) => [c, Math.exp(l - max)] as const);
+		const sum = exp.reduce((s, [, e]) => s + e, 0);
+		return Object.fromEntries(
+			exp.map(([c, e]) => [c, round(e / sum)]),
+		) as Record<C, number>;
+	}
+
+	// Confidence of one label on its own: a sigmoid that crosses 0.5 at the
+	// threshold, so a product can be both food and a drug
+	private labelConfidence(score: number): number {
+		const { threshold, temperature } = this.rules;
+		return round(1 / (1 + Math.exp(-(score - threshold) / temperature)));
+	}
+
+	determineCategory(meta: PipelineMeta): CategoryDecision<C> {
+		const rules = this.rules;
+		const matchers = compile(rules);
+		const text = this.matchText(meta, matchers.maxWords);
+
+		const evidenceByCategory = Object.fromEntries(
+			(Object.keys(rules.categories) as C[]).map((cat) => {
+				const rule = rules.categories[cat];
+				const { include, exclude, sourceHints } = matchers.categories[cat];
+				const blocked = exclude.filter((m) => occurrences(text, m) > 0);
+				const inc = countMatches(text, include, matchers.idf, blocked);
+				const exc = blocked.map((m) => m.label);
+				let score = inc.score;
+
+				score += countMatches(text, sourceHints).score * rules.sourceHintWeight;
+
+				score *= rule.weight;
+
+				if (exc.length) score -= Math.min(1, exc.length) * rules.excludePenalty;
+
+				return [cat, { matched: inc.hits, blocked: exc, score: round(score) }];
+			}),
+		) as Record<C, CategoryEvidence>;
+
+		const ranked = (Object.keys(evidenceByCategory) as C[])
+			.filter((c) => c !== rules.fallback)
+			.map((c) => [c, evidenceByCategory[c].score] as const)
+			.sort((a, b) => b[1] - a[1]);
+		const [best, second] = ranked;
+
+		const category: C =
+			best && best[1] >= rules.threshold ? best[0] : rules.fallback;
+
+		const probabilities = this.calibrate(
+			Object.fromEntries(
+				Object.entries(evidenceByCategory).map(([c, e]) => [
+					c,
+					(e as CategoryEvidence).score,
+				]),
+			) as Record<C, number>,
+		);
+		const runnerUp =
+			category !== rules.fallback && second && second[1] >= rules.threshold
+				? second[0]
+				: undefined;
+
+		const ambiguous =
+			runnerUp !== undefined &&
+			probabilities[category] - probabilities[runnerUp] < rules.ambiguityMargin;
+
+		const categories: RankedCategory<C>[] =
+			category === rules.fallback
+				? [{ category }]
+				: ranked
+						.map(([c, score]) => ({
+							category: c,
+							confidence: this.labelConfidence(score),
+						}))
+						.filter(
+							({ category: c, confidence }, i) =>
+								i === 0 ||
+								confidence >= rules.labelThreshold ||
+								(ambiguous && c === runnerUp),
+						);
+
+		return {
+			category,
+			evidenceByCategory,
+			probabilities,
+			probability: probabilities[category],
+			ambiguous,
+			...(runnerUp !== undefined && { runnerUp }),
+			categories,
+		};
+	}
+
+	detectPrimitives(meta: PipelineMeta): PrimitiveDecision {
+		const { primitives: rules } = this.rules;
+		const matchers = compile(this.rules);
+		const text = this.matchText(meta, matchers.maxWords);
+
+		const primitives: Primitive[] = [];
+		const evidence: Record<Primitive, string[]> = Object.fromEntries(
+			Object.keys(rules).map((p) => [p, []]),
+		);
+
+		Object.keys(rules).forEach((p) => {
+			const hits = anyMatch(text, matchers.primitives[p]);
+			if (hits.length) {
+				primitives.push(p);
+				evidence[p] = hits;
+			}
+		});
+
+		return { primitives, evidence };
+	}
+
+	routeCategory(category: C): string[] {
+		return this.rules.categories[category]?.tasks ?? [];
+	}
+
+	routePrimitives(primitives: Primitive[]): string[] {
+		const { primitives: rules } = this.rules;
+		return primitives.flatMap((p) => rules[p]?.tasks ?? []);
+	}
+
+	plan(meta: PipelineMeta) {
+		const categoryDecision = this.determineCategory(meta);
+		const primitiveDecision = this.detectPrimitives(meta);
+
+		const categoryTasks = [
+			...new Set(
+				categoryDecision.categories.flatMap(({ category }) =>
+					this.routeCategory(category),
+				),
+			),
+		];
+		const primitiveTasks = this.routePrimitives(primitiveDecision.primitives);
+
+		return {
+			category: categoryDecision.category,
+			categoryEvidence:
+				categoryDecision.evidenceByCategory[categoryDecision.category],
+			evidenceByCategory: categoryDecision.evidenceByCategory,
+			probability: categoryDecision.probability,
+			probabilities: categoryDecision.probabilities,
+			ambiguous: categoryDecision.ambiguous,
+			runnerUp: categoryDecision.runnerUp,
+			categories: categoryDecision.categories,
+			primitiveSignals: primitiveDecision.primitives,
+			primitiveEvidence: primitiveDecision.evidence,
+			nextSteps: {
+				categoryTasks,
+				primitiveTasks,
+				outputTriggers: [
+					...(primitiveTasks.some((s) =>
+						/Summarization|Alert Generation|Impact Assessment/.test(s),
+					)
+						? ["Output Designated Information"]
+						: []),
+				],
+			},
+		};
+	}
+}
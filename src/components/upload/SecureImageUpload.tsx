@@ -1,10 +1,12 @@
 import { AlertCircle, Sparkles } from "lucide-react";
 import React, { useCallback, useMemo, useRef, useState } from "react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { getAnalysisJobImage, getClassificationRuleset } from "@/core";
 // Import utilities
 import EnhancedAIAnalysis from "./AIAnalysisLoader";
 import { AIAnalysisPipeline, type PipelineResult } from "./AIAnalysisPipeline";
 // Import compartmentalized components
+import { compileRules, setClassificationRules } from "./ClassificationRules";
 import EmptyState from "./EmptyState";
 import FileListHeader from "./FileListHeader";
 import {
@@ -14,6 +16,11 @@ import {
 } from "./FileValidation";
 import ImageCard from "./ImageCard";
 import ImageUploadArea from "./ImageUploadArea";
+import {
+	clearPendingJobs,
+	loadPendingJobs,
+	removePendingJob,
+} from "./PendingJobs";
 
 // Enhanced TypeScript interfaces with better documentation
 export interface ImageFile {
@@ -23,6 +30,8 @@ export interface ImageFile {
 	size: number;
 	type: string;
 	lastModified: number;
+	/** Background analysis job to reattach to, for images restored on reload */
+	jobId?: string;
 }
 
 export interface ImageUploadProps {
@@ -156,7 +165,7 @@ const SecureImageUpload: React.FC<ImageUploadProps> = ({
 
 	// Memoized AI pipeline instance
 	const aiPipeline = useMemo(() => {
-		return new AIAnalysisPipeline(import.meta.env.VITE_FOOD_API_KEY ?? "");
+		return new AIAnalysisPipeline();
 	}, []);
 
 	// Memoized validation function
@@ -321,6 +330,7 @@ const SecureImageUpload: React.FC<ImageUploadProps> = ({
 		(id: string) => {
 			removeFile(id);
 			removeResult(id);
+			removePendingJob(id);
 		},
 		[removeFile, removeResult],
 	);
@@ -329,6 +339,7 @@ const SecureImageUpload: React.FC<ImageUploadProps> = ({
 	const handleClearAll = useCallback(() => {
 		clearAll();
 		clearResults();
+		clearPendingJobs();
 	}, [clearAll, clearResults]);
 
 	// Handle AI analysis results
@@ -344,11 +355,60 @@ const SecureImageUpload: React.FC<ImageUploadProps> = ({
 		[setResult],
 	);
 
+	// Drive the progress bar from the analysis stages; ignore late events for
+	// images that already have a result or were removed
+	const handleAnalysisProgress = useCallback(
+		(id: string, progress: number) => {
+			setProcessingProgress((prev) =>
+				id in prev ? { ...prev, [id]: progress } : prev,
+			);
+		},
+		[setProcessingProgress],
+	);
+
 	const handleAnalysisError = useCallback((error: Error) => {
 		console.error("AI Analysis error:", error);
 		// Handle error appropriately
 	}, []);
 
+	// Classify and color categories with the server's rules, which may differ
+	// from the bundled ones; keep the bundled rules if they cannot be loaded
+	React.useEffect(() => {
+		getClassificationRuleset()
+			.then((ruleset) => setClassificationRules(compileRules(ruleset)))
+			.catch((error) =>
+				console.warn("Using the bundled classification rules:", error),
+			);
+	}, []);
+
+	// Reattach to analysis jobs still pending from before a reload. The server
+	// keeps each job's normalized image, which stands in for the lost upload.
+	const reattached = useRef(false);
+	React.useEffect(() => {
+		if (!useEnhancedAnalysis || reattached.current) return;
+		reattached.current = true;
+
+		for (const { jobId, fileId, name } of loadPendingJobs()) {
+			getAnalysisJobImage(jobId)
+				.then((blob) => {
+					const file = new File([blob], name, { type: "image/jpeg" });
+					addFiles([
+						{
+							file,
+							preview: URL.createObjectURL(file),
+							id: fileId,
+							size: file.size,
+							type: file.type,
+							lastModified: file.lastModified,
+							jobId,
+						},
+					]);
+					setProcessingProgress((prev) => ({ ...prev, [fileId]: 0 }));
+				})
+				.catch(() => removePendingJob(fileId));
+		}
+	}, [useEnhancedAnalysis, addFiles, setProcessingProgress]);
+
 	// Cleanup on unmount
 	React.useEffect(() => {
 		return () => {
@@ -443,6 +503,8 @@ const SecureImageUpload: React.FC<ImageUploadProps> = ({
 											imageFile={imageFile}
 											onResult={handleAnalysisResult}
 											onError={handleAnalysisError}
+											onProgress={handleAnalysisProgress}
+											runOn="job"
 										/>
 									)}
 								</React.Fragment>
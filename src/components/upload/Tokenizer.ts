@@ -0,0 +1,77 @@
+// Word-level text matching for ProductClassifier: splits text into stemmed
+// words without stopwords, and counts word n-grams so rule phrases like
+// "graphics card" match whole words only ("top" no longer hits "laptop").
+
+const WORD = /[a-z0-9]+(?:&[a-z0-9]+)*/g;
+
+export const STOPWORDS: ReadonlySet<string> = new Set([
+	"a",
+	"an",
+	"and",
+	"are",
+	"as",
+	"at",
+	"be",
+	"by",
+	"for",
+	"from",
+	"in",
+	"is",
+	"it",
+	"its",
+	"of",
+	"on",
+	"or",
+	"the",
+	"this",
+	"that",
+	"to",
+	"with",
+]);
+
+// Words the plural rule would mangle
+const INVARIANT = new Set(["news", "series", "species"]);
+
+// Light suffix stripping, so plurals and simple verb forms meet their base
+// word ("calories"/"calorie", "launched"/"launch"). Over-stemming is harmless
+// as long as rules and text go through the same function.
+export function stem(word: string): string {
+	if (word.length <= 3 || /\d/.test(word) || INVARIANT.has(word)) return word;
+	let w = word;
+	if (w.endsWith("sses")) w = w.slice(0, -2);
+	else if (w.endsWith("ies")) w = `${w.slice(0, -3)}y`;
+	else if (/(x|ch|sh|z)es$/.test(w)) w = w.slice(0, -2);
+	else if (w.endsWith("s") && !/(ss|us|is)$/.test(w)) w = w.slice(0, -1);
+
+	if (w.endsWith("ie")) w = `${w.slice(0, -2)}y`;
+	if (w.endsWith("ing") && w.length > 5) w = w.slice(0, -3);
+	else if (w.endsWith("ed") && w.length > 4) w = w.slice(0, -2);
+	if (w.endsWith("e") && w.length > 3) w = w.slice(0, -1);
+	return w;
+}
+
+// Lowercased, stemmed words of a text, stopwords removed
+export function tokenize(
+	text: string,
+	stopwords: ReadonlySet<string> = STOPWORDS,
+): string[] {
+	return (text.toLowerCase().match(WORD) ?? [])
+		.filter((word) => !stopwords.has(word))
+		.map(stem);
+}
+
+// Occurrences of every word n-gram up to `maxN` words, keyed by the words
+// joined with a space
+export function ngramCounts(
+	words: string[],
+	maxN: number,
+): Map<string, number> {
+	const counts = new Map<string, number>();
+	for (let n = 1; n <= maxN; n++) {
+		for (let i = 0; i + n <= words.length; i++) {
+			const gram = words.slice(i, i + n).join(" ");
+			counts.set(gram, (counts.get(gram) ?? 0) + 1);
+		}
+	}
+	return counts;
+}
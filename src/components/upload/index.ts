@@ -38,5 +38,6 @@ export type { ImageCardProps } from "./ImageCard";
 export { default as ImageCard } from "./ImageCard";
 export type { ImageUploadAreaProps } from "./ImageUploadArea";
 export { default as ImageUploadArea } from "./ImageUploadArea";
+export * from "./PendingJobs";
 export type { ImageFile, ImageUploadProps } from "./SecureImageUpload";
 export { default as SecureImageUpload } from "./SecureImageUpload";
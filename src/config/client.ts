@@ -0,0 +1,94 @@
+/**
+ * @fileoverview Browser configuration, read from Vite's `import.meta.env`.
+ *
+ * Only the variables listed here reach the client bundle: each one is read as
+ * `import.meta.env.VITE_*` so Vite inlines it individually, instead of the
+ * whole `import.meta.env` object. Everything here is public once shipped;
+ * upstream secrets belong in `src/config/server.ts`.
+ */
+
+import { type } from "arktype";
+
+const ClientEnv = type({
+	"VITE_API_KEY?": "string",
+	"VITE_HTTP_CASSETTE?": "string",
+	"VITE_HTTP_CASSETTE_MODE?": "'record' | 'replay' | 'auto'",
+	"VITE_HTTP_CASSETTE_STRICT?": "'true' | 'false'",
+});
+
+/**
+ * The validated client configuration.
+ * @interface
+ */
+export interface ClientConfig {
+	/** Key for the server's API routes, sent as a bearer token */
+	apiKey?: string;
+	/** Record/replay settings for the `core.ts` wrappers (see `effect-cassette`) */
+	cassette: {
+		name?: string;
+		mode: "record" | "replay" | "auto";
+		strict: boolean;
+	};
+}
+
+/**
+ * Validates the client variables and builds the client configuration.
+ *
+ * @param {Record<string, string | undefined>} env - The `VITE_*` variables
+ * @returns {ClientConfig} The configuration, with defaults applied
+ * @throws {Error} If a variable has an invalid value
+ */
+export const loadClientConfig = (
+	env: Record<string, string | undefined>,
+): ClientConfig => {
+	const set = Object.fromEntries(
+		Object.entries(env).filter(([, v]) => v !== undefined && v !== ""),
+	);
+	const parsed = ClientEnv(set);
+	if (parsed instanceof type.errors) {
+		throw new Error(`Invalid client configuration:\n${parsed.summary}`);
+	}
+	return {
+		apiKey: parsed.VITE_API_KEY,
+		cassette: {
+			name: parsed.VITE_HTTP_CASSETTE,
+			mode: parsed.VITE_HTTP_CASSETTE_MODE ?? "auto",
+			strict: parsed.VITE_HTTP_CASSETTE_STRICT === "true",
+		},
+	};
+};
+
+let current: ClientConfig | undefined;
+
+/**
+ * Returns the client configuration, loading it on first use.
+ */
+export const getClientConfig = (): ClientConfig => {
+	current ??= loadClientConfig({
+		VITE_API_KEY: import.meta.env.VITE_API_KEY,
+		VITE_HTTP_CASSETTE: import.meta.env.VITE_HTTP_CASSETTE,
+		VITE_HTTP_CASSETTE_MODE: import.meta.env.VITE_HTTP_CASSETTE_MODE,
+		VITE_HTTP_CASSETTE_STRICT: import.meta.env.VITE_HTTP_CASSETTE_STRICT,
+	});
+	return current;
+};
+
+/**
+ * Replaces parts of the configuration, e.g. in tests.
+ *
+ * @param {Partial<ClientConfig>} overrides - Fields to replace
+ * @returns {ClientConfig} The new configuration
+ */
+export const overrideClientConfig = (
+	overrides: Partial<ClientConfig>,
+): ClientConfig => {
+	current = { ...getClientConfig(), ...overrides };
+	return current;
+};
+
+/**
+ * Drops overrides; the next {@link getClientConfig} reloads from `import.meta.env`.
+ */
+export const resetClientConfig = (): void => {
+	current = undefined;
+};
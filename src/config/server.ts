@@ -0,0 +1,443 @@
+/**
+ * @fileoverview Server configuration, read once from `process.env`.
+ *
+ * Every server setting is validated here with an arktype schema and exposed as
+ * one typed {@link ServerConfig}. Secrets use unprefixed names
+ * (`GNEWS_API_KEY`, `GOOGLE_API_KEY`, ...) because Vite bundles every
+ * `VITE_`-prefixed variable a client module reads. The old `VITE_` names are
+ * still accepted as fallbacks and flagged in {@link configReport}.
+ *
+ * Never import this module from browser code; the client view is
+ * `src/config/client.ts`.
+ */
+
+import { type } from "arktype";
+import type { StageRetryPolicy } from "../components/upload/AnalysisStages";
+import type { Quotas } from "../server/auth";
+import type { AnalysisProvider } from "../server/jobs";
+
+/**
+ * Raw environment accepted by {@link loadServerConfig}. Unknown variables are
+ * ignored; empty strings count as unset.
+ */
+const ServerEnv = type({
+	"NODE_ENV?": "string",
+	"PORT?": "string.integer",
+	"LOG_LEVEL?": /^(none|error|warn|info|debug|trace|all)$/i,
+	"LOG_FILE?": "string",
+	"UPSTREAM_MODE?": "'live' | 'fixture'",
+	"UPSTREAM_FIXTURES_DIR?": "string",
+	"UPSTREAM_RECORD_DIR?": "string",
+	"GOOGLE_APPLICATION_CREDENTIALS?": "string",
+	"API_AUTH?": "'on' | 'off'",
+	"ADMIN_API_TOKEN?": "string",
+	"API_KEY_STORE?": "'json' | 'sqlite'",
+	"API_KEY_FILE?": "string",
+	"API_QUOTA_PER_MINUTE?": "string.integer",
+	"API_QUOTA_PER_DAY?": "string.integer",
+	"API_EXPENSIVE_QUOTA_PER_MINUTE?": "string.integer",
+	"API_EXPENSIVE_QUOTA_PER_DAY?": "string.integer",
+	"CACHE_STORE?": "'memory' | 'file'",
+	"CACHE_DIR?": "string",
+	"CACHE_MAX_ENTRIES?": "string.integer",
+	"HTTP_CASSETTE?": "string",
+	"HTTP_CASSETTE_MODE?": "'record' | 'replay' | 'auto'",
+	"HTTP_CASSETTE_STRICT?": "'true' | 'false'",
+	"HTTP_CASSETTE_DIR?": "string",
+	"OTEL_EXPORTER_OTLP_TRACES_ENDPOINT?": "string.url",
+	"HEALTH_CHECK_TIMEOUT_MS?": "string.integer",
+	"HEALTH_CACHE_TTL_MS?": "string.integer",
+	"IMAGE_MAX_BYTES?": "string.integer",
+	"IMAGE_MAX_DIMENSION?": "string.integer",
+	"ANALYSIS_STORE?": "'memory' | 'file'",
+	"ANALYSIS_DIR?": "string",
+	"ANALYSIS_MAX_ENTRIES?": "string.integer",
+	"ANALYSIS_TTL_SECONDS?": "string.integer",
+	"ANALYSIS_DEDUPE_DISTANCE?": "string.integer",
+	"JOBS_FILE?": "string",
+	"JOBS_CONCURRENCY?": "string.integer",
+	"JOBS_STAGE_RETRIES?": "string.integer",
+	"JOBS_RETRY_DELAY_MS?": "string.integer",
+	"JOBS_TTL_SECONDS?": "string.integer",
+	"JOBS_PROVIDER_CONCURRENCY?":
+		/^(vision|gnews|cse|youtube|fdc)=\d+(,(vision|gnews|cse|youtube|fdc)=\d+)*$/,
+	"CLASSIFICATION_RULES?": "string",
+	"CLASSIFICATION_RULES_WATCH?": "'true' | 'false'",
+});
+
+/**
+ * Secrets by config key, with their variable name. Each also accepts the
+ * legacy `VITE_`-prefixed name.
+ */
+const SECRET_VARIABLES = {
+	gnews: "GNEWS_API_KEY",
+	google: "GOOGLE_API_KEY",
+	googleCseCx: "GOOGLE_SEARCH_ENGINE_ID",
+	food: "FOOD_API_KEY",
+	newsapi: "NEWS_API_KEY",
+	mediastack: "ARTICLE_API_KEY",
+} as const;
+
+type SecretKey = keyof typeof SECRET_VARIABLES;
+
+/**
+ * The validated server configuration.
+ * @interface
+ */
+export interface ServerConfig {
+	/** `NODE_ENV`, defaulting to `development` */
+	env: string;
+	port: number;
+	log: { level?: string; file?: string };
+	/** Upstream API keys; a missing key disables the features that need it */
+	keys: Partial<Record<SecretKey, string>>;
+	/** Google service account file used by Vision */
+	visionKeyFile: string;
+	upstream: {
+		mode: "live" | "fixture";
+		fixturesDir: string;
+		recordDir?: string;
+	};
+	auth: {
+		/**
+		 * `API_AUTH`. Unset, auth is on only once keys can be used: with
+		 * `ADMIN_API_TOKEN` set or keys already issued (decided at startup).
+		 */
+		mode: "on" | "off" | "auto";
+		adminToken?: string;
+		store: "json" | "sqlite";
+		file: string;
+		quotas: Quotas;
+	};
+	cache: { store: "memory" | "file"; dir: string; maxEntries: number };
+	cassette: {
+		name?: string;
+		mode: "record" | "replay" | "auto";
+		strict: boolean;
+		dir: string;
+	};
+	otlpTracesUrl: string;
+	health: { timeout: number; cacheTtl: number };
+	/** Upload limits; larger images are rejected, wider or taller ones downscaled */
+	image: { maxBytes: number; maxDimension: number };
+	/** Stored analyses; uploads within `maxDistance` bits of a stored image reuse its result */
+	analyses: {
+		store: "memory" | "file";
+		dir: string;
+		maxEntries: number;
+		ttl: number;
+		maxDistance: number;
+	};
+	/** Background analysis jobs; see `src/server/jobs.ts` */
+	jobs: {
+		file: string;
+		concurrency: number;
+		retry: StageRetryPolicy;
+		ttl: number;
+		/** Upstream calls in flight allowed per provider, across all jobs */
+		providerConcurrency: Record<AnalysisProvider, number>;
+	};
+	/** Classification ruleset; see `src/components/upload/ClassificationRules.ts` */
+	classification: {
+		/** JSON or YAML ruleset; the bundled one when unset */
+		rulesFile?: string;
+		/** Reload the ruleset when the file changes */
+		watch: boolean;
+	};
+	/** Legacy `VITE_` variables the secrets were read from */
+	legacyVariables: string[];
+}
+
+/**
+ * Thrown when the environment does not match the config schema.
+ */
+export class ConfigError extends Error {
+	constructor(readonly summary: string) {
+		super(`Invalid server configuration:\n${summary}`);
+		this.name = "ConfigError";
+	}
+}
+
+/**
+ * Thrown when a feature is called without the configuration it needs.
+ */
+export class FeatureDisabledError extends Error {
+	/** HTTP status for routes that depend on the feature */
+	readonly status = 503;
+
+	/**
+	 * @param {string} feature - The disabled feature
+	 * @param {string[]} variables - Environment variables that would enable it
+	 */
+	constructor(
+		readonly feature: string,
+		readonly variables: string[],
+	) {
+		super(`${feature} is disabled: set ${variables.join(", ")}`);
+		this.name = "FeatureDisabledError";
+	}
+}
+
+/**
+ * Returns a configured key, or throws {@link FeatureDisabledError} naming the
+ * variables to set.
+ *
+ * @param {string} feature - The feature needing the key, for the error message
+ * @param {SecretKey[]} names - Config keys the feature needs
+ * @param {ServerConfig["keys"]} keys - The configured keys
+ * @returns {string[]} The key values, in the order of `names`
+ */
+export const requireKeys = (
+	feature: string,
+	names: SecretKey[],
+	keys: ServerConfig["keys"],
+): string[] => {
+	const missing = names.filter((name) => !keys[name]);
+	if (missing.length) {
+		throw new FeatureDisabledError(
+			feature,
+			missing.map((name) => SECRET_VARIABLES[name]),
+		);
+	}
+	return names.map((name) => keys[name] as string);
+};
+
+const int = (value: string | undefined, fallback: number): number =>
+	value === undefined ? fallback : Number(value);
+
+/**
+ * Validates an environment record and builds the server configuration.
+ *
+ * @param {Record<string, string | undefined>} [env=process.env] - Environment variables
+ * @returns {ServerConfig} The configuration, with defaults applied
+ * @throws {ConfigError} If a variable has an invalid value
+ */
+export const loadServerConfig = (
+	env: Record<string, string | undefined> = process.env,
+): ServerConfig => {
+	const set = Object.fromEntries(
+		Object.entries(env).filter(([, v]) => v !== undefined && v !== ""),
+	) as Record<string, string>;
+	const parsed = ServerEnv(set);
+	if (parsed instanceof type.errors) throw new ConfigError(parsed.summary);
+
+	const legacyVariables: string[] = [];
+	const keys: ServerConfig["keys"] = {};
+	for (const [key, name] of Object.entries(SECRET_VARIABLES)) {
+		const value = set[name] ?? set[`VITE_${name}`];
+		if (!set[name] && value) legacyVariables.push(`VITE_${name}`);
+		if (value) keys[key as SecretKey] = value;
+	}
+
+	const authStore = parsed.API_KEY_STORE ?? "json";
+	return {
+		env: parsed.NODE_ENV ?? "development",
+		port: int(parsed.PORT, 3_000),
+		log: { level: parsed.LOG_LEVEL?.toUpperCase(), file: parsed.LOG_FILE },
+		keys,
+		visionKeyFile:
+			parsed.GOOGLE_APPLICATION_CREDENTIALS ?? "./credentials.json",
+		upstream: {
+			mode: parsed.UPSTREAM_MODE ?? "live",
+			fixturesDir: parsed.UPSTREAM_FIXTURES_DIR ?? "./fixtures/upstream",
+			recordDir: parsed.UPSTREAM_RECORD_DIR,
+		},
+		auth: {
+			mode: parsed.API_AUTH ?? "auto",
+			adminToken: parsed.ADMIN_API_TOKEN,
+			store: authStore,
+			file:
+				parsed.API_KEY_FILE ??
+				(authStore === "sqlite"
+					? "./data/api-keys.sqlite"
+					: "./data/api-keys.json"),
+			quotas: {
+				perMinute: int(parsed.API_QUOTA_PER_MINUTE, 60),
+				perDay: int(parsed.API_QUOTA_PER_DAY, 5_000),
+				expensivePerMinute: int(parsed.API_EXPENSIVE_QUOTA_PER_MINUTE, 5),
+				expensivePerDay: int(parsed.API_EXPENSIVE_QUOTA_PER_DAY, 100),
+			},
+		},
+		cache: {
+			store: parsed.CACHE_STORE ?? "memory",
+			dir: parsed.CACHE_DIR ?? "./.cache/api",
+			maxEntries: int(parsed.CACHE_MAX_ENTRIES, 500),
+		},
+		cassette: {
+			name: parsed.HTTP_CASSETTE,
+			mode: parsed.HTTP_CASSETTE_MODE ?? "auto",
+			strict: parsed.HTTP_CASSETTE_STRICT === "true",
+			dir: parsed.HTTP_CASSETTE_DIR ?? "./fixtures/cassettes",
+		},
+		otlpTracesUrl:
+			parsed.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT ??
+			"http://localhost:4318/v1/traces",
+		health: {
+			timeout: int(parsed.HEALTH_CHECK_TIMEOUT_MS, 2_000),
+			cacheTtl: int(parsed.HEALTH_CACHE_TTL_MS, 5_000),
+		},
+		image: {
+			maxBytes: int(parsed.IMAGE_MAX_BYTES, 10 * 1_024 * 1_024),
+			maxDimension: int(parsed.IMAGE_MAX_DIMENSION, 2_048),
+		},
+		analyses: {
+			store: parsed.ANALYSIS_STORE ?? "memory",
+			dir: parsed.ANALYSIS_DIR ?? "./.cache/analyses",
+			maxEntries: int(parsed.ANALYSIS_MAX_ENTRIES, 500),
+			ttl: int(parsed.ANALYSIS_TTL_SECONDS, 24 * 60 * 60),
+			maxDistance: int(parsed.ANALYSIS_DEDUPE_DISTANCE, 6),
+		},
+		jobs: {
+			file: parsed.JOBS_FILE ?? "./data/jobs.sqlite",
+			concurrency: int(parsed.JOBS_CONCURRENCY, 2),
+			retry: {
+				retries: int(parsed.JOBS_STAGE_RETRIES, 2),
+				baseDelay: int(parsed.JOBS_RETRY_DELAY_MS, 1_000),
+				maxDelay: 30_000,
+			},
+			ttl: int(parsed.JOBS_TTL_SECONDS, 7 * 24 * 60 * 60),
+			providerConcurrency: {
+				vision: 2,
+				gnews: 2,
+				cse: 2,
+				youtube: 2,
+				fdc: 2,
+				// "vision=1,fdc=4"
+				...Object.fromEntries(
+					(parsed.JOBS_PROVIDER_CONCURRENCY ?? "")
+						.split(",")
+						.filter(Boolean)
+						.map((pair) => {
+							const [provider, limit] = pair.split("=");
+							return [provider, Number(limit)];
+						}),
+				),
+			},
+		},
+		classification: {
+			rulesFile: parsed.CLASSIFICATION_RULES,
+			watch:
+				parsed.CLASSIFICATION_RULES_WATCH === undefined
+					? parsed.NODE_ENV !== "production"
+					: parsed.CLASSIFICATION_RULES_WATCH === "true",
+		},
+		legacyVariables,
+	};
+};
+
+let current: ServerConfig | undefined;
+
+/**
+ * Returns the server configuration, loading it from `process.env` on first use.
+ */
+export const getServerConfig = (): ServerConfig => {
+	if (typeof window !== "undefined") {
+		throw new Error("The server configuration is not available in the browser");
+	}
+	current ??= loadServerConfig();
+	return current;
+};
+
+/**
+ * Replaces parts of the configuration, e.g. in tests. Top-level sections are
+ * replaced whole.
+ *
+ * @param {Partial<ServerConfig>} overrides - Sections to replace
+ * @returns {ServerConfig} The new configuration
+ */
+export const overrideServerConfig = (
+	overrides: Partial<ServerConfig>,
+): ServerConfig => {
+	current = { ...getServerConfig(), ...overrides };
+	return current;
+};
+
+/**
+ * Drops overrides; the next {@link getServerConfig} reloads from `process.env`.
+ */
+export const resetServerConfig = (): void => {
+	current = undefined;
+};
+
+/**
+ * Whether a feature is available, and why not.
+ * @interface
+ */
+export interface FeatureStatus {
+	feature: string;
+	enabled: boolean;
+	/** What to set to enable it */
+	reason?: string;
+}
+
+/**
+ * Server features and the keys they need in live mode.
+ */
+const UPSTREAM_FEATURES: { feature: string; keys: SecretKey[] }[] = [
+	{ feature: "GNews search and headlines", keys: ["gnews"] },
+	{ feature: "NewsAPI headlines and search", keys: ["newsapi"] },
+	{ feature: "Mediastack news", keys: ["mediastack"] },
+	{ feature: "Google Custom Search", keys: ["google", "googleCseCx"] },
+	{ feature: "YouTube search", keys: ["google"] },
+	{ feature: "Nutrition lookups (FoodData Central)", keys: ["food"] },
+];
+
+/**
+ * Whether API key auth is on, and why not. With `API_AUTH` unset, keys
+ * already in the store turn it on too, so this is logged once the store is
+ * open rather than in {@link configReport}.
+ *
+ * @param {ServerConfig} config - The server configuration
+ * @param {boolean} [hasKeys=false] - Whether the key store holds any key
+ * @returns {{ enabled: boolean; reason?: string }} The auth state
+ */
+export const authReport = (
+	config: ServerConfig,
+	hasKeys = false,
+): { enabled: boolean; reason?: string } => {
+	const { mode, adminToken } = config.auth;
+	if (mode === "off") return { enabled: false, reason: "API_AUTH=off" };
+	if (mode === "on" || adminToken || hasKeys) return { enabled: true };
+	return {
+		enabled: false,
+		reason:
+			"no API keys yet; set ADMIN_API_TOKEN to issue them, or API_AUTH=on",
+	};
+};
+
+/**
+ * Describes which features the configuration enables, for the startup log.
+ *
+ * @param {ServerConfig} config - The server configuration
+ * @returns {{ features: FeatureStatus[]; warnings: string[] }} Feature states and configuration warnings
+ */
+export const configReport = (
+	config: ServerConfig,
+): { features: FeatureStatus[]; warnings: string[] } => {
+	const fixtures = config.upstream.mode === "fixture";
+	const features: FeatureStatus[] = UPSTREAM_FEATURES.map(
+		({ feature, keys }) => {
+			const missing = keys.filter((k) => !config.keys[k]);
+			// Fixture mode replays recordings and needs no keys
+			const enabled = missing.length === 0 || fixtures;
+			return {
+				feature,
+				enabled,
+				...(!enabled && {
+					reason: `set ${missing.map((k) => SECRET_VARIABLES[k]).join(", ")}`,
+				}),
+			};
+		},
+	);
+	features.push({
+		feature: "Admin routes",
+		enabled: Boolean(config.auth.adminToken),
+		...(!config.auth.adminToken && { reason: "set ADMIN_API_TOKEN" }),
+	});
+
+	const warnings = config.legacyVariables.map(
+		(name) =>
+			`${name} is exposed to the browser by Vite; rename it to ${name.slice(5)}`,
+	);
+	return { features, warnings };
+};
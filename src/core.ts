@@ -1,85 +1,353 @@
 // src/lib/client/news.ts
 
-import { get } from "@/effect-schema-fetcher";
-import { FetchHttpClient } from "@effect/platform";
-import { Effect, pipe } from "effect";
+import { FetchHttpClient, type HttpClient } from "@effect/platform";
+import { treaty } from "@elysiajs/eden";
+import { Effect, type Layer, pipe, Stream } from "effect";
+import { getClientConfig } from "@/config/client";
+import * as Cassette from "@/effect-cassette";
+import {
+	type DecodeError,
+	type FetcherOptions,
+	fetcher,
+	HttpError,
+	type RequestBody,
+	type RetryPolicy,
+} from "@/effect-schema-fetcher";
+import type { App } from "../server";
+import type { AnalysisJob } from "./server/jobs";
+import type { ProblemDetails } from "./server/problem";
 
-// — import your schemas from the same files you showed — //
-import { GNewsResponse as GNewsResponseSchema } from "@/lib/api/gnews";
-import { SearchRecommendation as SearchRecommendationSchema } from "@/lib/api/search";
-import { YoutubeSearchResponse as YoutubeSearchResponseSchema } from "@/lib/api/youtube";
+// HttpClient used by every wrapper below. Set VITE_HTTP_CASSETTE (and optionally
+// VITE_HTTP_CASSETTE_MODE / VITE_HTTP_CASSETTE_STRICT) to record and replay
+// through localStorage, or swap it in code with setHttpClientLayer.
+const { cassette } = getClientConfig();
+let httpClientLayer: Layer.Layer<HttpClient.HttpClient> = cassette.name
+	? Cassette.layer({
+			name: cassette.name,
+			store: Cassette.localStorageStore(),
+			mode: cassette.mode,
+			strict: cassette.strict,
+		})
+	: FetchHttpClient.layer;
+
+export function setHttpClientLayer(layer: Layer.Layer<HttpClient.HttpClient>) {
+	httpClientLayer = layer;
+}
+
+// Retry policy for every wrapper below. The proxy routes already cache
+// upstream responses, so keep this short: transport errors, 408/429/5xx only.
+let retryPolicy: RetryPolicy = { retries: 2, baseDelay: 300, maxDelay: 3_000 };
+
+export function setRetryPolicy(policy: RetryPolicy) {
+	retryPolicy = policy;
+}
+
+// API key for the proxy routes (VITE_API_KEY), sent as a bearer token when set.
+// Read per call so overrideClientConfig applies.
+const authHeaders = (): Record<string, string> => {
+	const { apiKey } = getClientConfig();
+	return apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+};
+
+// Response headers kept on error responses handed back to Eden
+const FORWARDED_ERROR_HEADERS = ["content-type", "retry-after", "x-request-id"];
+
+// fetch for the Eden client: every request runs through effect-schema-fetcher,
+// so the retry policy, dedupe and cassette layer above apply. Error statuses
+// come back as plain responses for Eden to report.
+const effectFetch = async (
+	input: RequestInfo | URL,
+	init: RequestInit = {},
+): Promise<Response> => {
+	const method = (init.method ?? "GET").toUpperCase();
+	const { "content-type": contentType, ...headers } = Object.fromEntries(
+		new Headers(init.headers),
+	);
+	const stream = headers.accept === "text/event-stream";
+	const options: FetcherOptions = {
+		headers,
+		retry: retryPolicy,
+		responseType: stream ? "stream" : "blob",
+		// A stream has one reader, so streamed GETs are never coalesced
+		...(method === "GET" ? { dedupe: !stream } : { timeout: 30_000 }),
+	};
+	// Eden serializes JSON bodies; the fetcher encodes them itself
+	const body =
+		typeof init.body === "string" && contentType?.includes("json")
+			? JSON.parse(init.body)
+			: (init.body as RequestBody | undefined);
+
+	const effect = pipe(
+		method === "GET"
+			? fetcher(String(input), "GET", options)
+			: fetcher(String(input), method as "POST", options, undefined, body),
+		Effect.map((value) =>
+			stream
+				? new Response(
+						Stream.toReadableStream(
+							value as Stream.Stream<Uint8Array, DecodeError>,
+						),
+						{ headers: { "content-type": "text/event-stream" } },
+					)
+				: new Response(value as Blob, {
+						headers: { "content-type": (value as Blob).type },
+					}),
+		),
+		Effect.catchIf(
+			(error) => error instanceof HttpError,
+			(error) =>
+				Effect.succeed(
+					new Response(
+						typeof error.responseData === "string"
+							? error.responseData
+							: JSON.stringify(error.responseData),
+						{
+							status: error.status,
+							// Encoding and length no longer match the re-serialized body
+							headers: Object.fromEntries(
+								Object.entries(error.headers).filter(([name]) =>
+									FORWARDED_ERROR_HEADERS.includes(name),
+								),
+							),
+						},
+					),
+				),
+		),
+		Effect.provide(httpClientLayer),
+	);
+	return Effect.runPromise(effect);
+};
+
+// Typed client for the proxy routes, inferred from the server's route schemas:
+// a renamed route or query parameter is a compile error here. JSON is parsed
+// as-is (Eden would turn ISO date strings into Date objects) and images are
+// read as blobs (Eden would read them as text).
+export const api = treaty<App>(
+	typeof window !== "undefined" ? window.location.origin : "localhost:3000",
+	{
+		fetcher: effectFetch as typeof fetch,
+		headers: () => authHeaders(),
+		onResponse: (response) => {
+			if (!response.ok) return undefined;
+			const type = response.headers.get("content-type") ?? "";
+			if (type.includes("application/json")) return response.json();
+			if (type.startsWith("image/")) return response.blob();
+			return undefined;
+		},
+	},
+).api;
+
+// Query parameters of an Eden GET call
+type QueryOf<F extends (options: never) => unknown> = NonNullable<
+	NonNullable<Parameters<F>[0]>
+>["query"];
+
+// An error response from the API, carrying its RFC 9457 problem details
+export class ApiError extends Error {
+	constructor(readonly problem: ProblemDetails) {
+		super(problem.detail ?? problem.title);
+		this.name = "ApiError";
+	}
+
+	get status(): number {
+		return this.problem.status;
+	}
+}
+
+const isProblem = (body: unknown): body is ProblemDetails =>
+	typeof body === "object" &&
+	body !== null &&
+	typeof (body as ProblemDetails).type === "string" &&
+	typeof (body as ProblemDetails).title === "string" &&
+	typeof (body as ProblemDetails).status === "number";
+
+// Decodes an error response body (as parsed by Eden) into problem details.
+// Other bodies, e.g. from a proxy in front of the API, become an about:blank
+// problem with the response status.
+export function decodeProblem(
+	body: unknown,
+	response: Response,
+): ProblemDetails {
+	if (isProblem(body)) return body;
+	const requestId = response.headers.get("x-request-id");
+	return {
+		type: "about:blank",
+		title: response.statusText || `HTTP ${response.status}`,
+		status: response.status,
+		...(typeof body === "string" && body && { detail: body.slice(0, 200) }),
+		...(requestId && { requestId }),
+	};
+}
+
+// Resolves to an Eden call's data, or throws an ApiError on an error status
+async function unwrap<T>(
+	call: Promise<{
+		data: T | null;
+		error: { status: unknown; value: unknown } | null;
+		response: Response;
+	}>,
+): Promise<T> {
+	const { data, error, response } = await call;
+	if (error) throw new ApiError(decodeProblem(error.value, response));
+	return data as T;
+}
+
+// The GET wrappers coalesce identical concurrent calls (dedupe), since the
+// pipeline fans out the same news/search/video queries for similar images.
 
 // GNews: search
-export async function gnewsSearch(
+export function gnewsSearch(
 	q: string,
-	opts?: { lang?: string; max?: number },
+	opts?: Omit<QueryOf<typeof api.gnews.search.get>, "q">,
 ) {
-	const effect = pipe(
-		get(
-			"/api/gnews/search",
-			{ schema: GNewsResponseSchema },
-			{ q, lang: opts?.lang ?? "en", max: opts?.max ?? 5 },
-		),
-		Effect.provide(FetchHttpClient.layer),
+	return unwrap(
+		api.gnews.search.get({
+			query: { q, ...opts, lang: opts?.lang ?? "en", max: opts?.max ?? 5 },
+		}),
 	);
-	const res = await Effect.runPromise(effect);
-	if (!res) throw new Error("Invalid GNews response");
-	return res;
 }
 
 // GNews: top headlines
-export async function gnewsTopHeadlines(opts?: {
-	lang?: string;
-	country?: string;
-	category?:
-		| "technology"
-		| "general"
-		| "world"
-		| "nation"
-		| "business"
-		| "entertainment"
-		| "sports"
-		| "science"
-		| "health";
-	max?: number;
-}) {
-	const effect = pipe(
-		get(
-			"/api/gnews/top-headlines",
-			{ schema: GNewsResponseSchema },
-			opts ?? {},
-		),
-		Effect.provide(FetchHttpClient.layer),
+export function gnewsTopHeadlines(
+	opts?: QueryOf<(typeof api.gnews)["top-headlines"]["get"]>,
+) {
+	return unwrap(api.gnews["top-headlines"].get({ query: opts ?? {} }));
+}
+
+// NewsAPI: top headlines
+export function newsapiTopHeadlines(
+	opts?: QueryOf<(typeof api.newsapi)["top-headlines"]["get"]>,
+) {
+	return unwrap(api.newsapi["top-headlines"].get({ query: opts ?? {} }));
+}
+
+// NewsAPI: search every article
+export function newsapiEverything(
+	q: string,
+	opts?: Omit<QueryOf<typeof api.newsapi.everything.get>, "q">,
+) {
+	return unwrap(api.newsapi.everything.get({ query: { q, ...opts } }));
+}
+
+// Mediastack: live news; list filters are comma-separated
+export function mediastackNews(opts?: QueryOf<typeof api.mediastack.news.get>) {
+	return unwrap(api.mediastack.news.get({ query: opts ?? {} }));
+}
+
+// FoodData Central: food search; dataType is comma-separated ("Branded,Foundation")
+export function fdcSearch(
+	query: string,
+	opts?: Omit<QueryOf<typeof api.fdc.search.get>, "query">,
+) {
+	return unwrap(api.fdc.search.get({ query: { query, ...opts } }));
+}
+
+// FoodData Central: one food, optionally limited to some nutrient numbers
+export function fdcFood(
+	fdcId: number,
+	nutrients?: number[],
+	format?: "abridged" | "full",
+) {
+	return unwrap(
+		api.fdc
+			.food({ fdcId })
+			.get({ query: { nutrients: nutrients?.join(","), format } }),
 	);
-	return Effect.runPromise(effect);
 }
 
 // Google CSE: returns your trimmed DTO (SearchRecommendation)
-export async function googleSearch(q: string) {
-	const effect = pipe(
-		get(
-			"/api/google/cse",
-			{ schema: SearchRecommendationSchema },
-			{ q, num: 10 },
-		),
-		Effect.provide(FetchHttpClient.layer),
-	);
-	const res = await Effect.runPromise(effect);
-	if (!res) throw new Error("Invalid CSE response");
-	return res;
+export function googleSearch(q: string) {
+	return unwrap(api.google.cse.get({ query: { q, num: 10 } }));
 }
 
 // YouTube search
-export async function youtubeSearch(q: string, pageToken?: string) {
-	const effect = pipe(
-		get(
-			"/api/google/youtube/search",
-			{ schema: YoutubeSearchResponseSchema },
-			{ q, pageToken, maxResults: 10 },
-		),
-		Effect.provide(FetchHttpClient.layer),
+export function youtubeSearch(q: string, pageToken?: string) {
+	return unwrap(
+		api.google.youtube.search.get({ query: { q, pageToken, maxResults: 10 } }),
 	);
-	const res = await Effect.runPromise(effect);
-	if (!res) throw new Error("Invalid YouTube response");
-	return res;
+}
+
+// Vision reverse image search: multipart upload, returns the normalized webDetection
+export async function reverseImageSearch(file: File) {
+	const { data } = await unwrap(api.google["reverse-image"].post({ file }));
+	return data;
+}
+
+// The server's active classification ruleset, as written
+export function getClassificationRuleset() {
+	return unwrap(api.classification.rules.get());
+}
+
+// Yields the JSON payload of each server-sent event of a response
+async function* readEvents<T>(response: Response): AsyncGenerator<T> {
+	if (!response.body) throw new Error("The event stream has no body");
+	const reader = response.body.getReader();
+	const decoder = new TextDecoder();
+
+	let buffer = "";
+	try {
+		for (;;) {
+			const { done, value } = await reader.read();
+			if (done) break;
+			buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, "\n");
+			for (
+				let end = buffer.indexOf("\n\n");
+				end >= 0;
+				end = buffer.indexOf("\n\n")
+			) {
+				const data = buffer
+					.slice(0, end)
+					.split("\n")
+					.filter((line) => line.startsWith("data:"))
+					.map((line) => line.slice(5).trimStart())
+					.join("\n");
+				buffer = buffer.slice(end + 2);
+				if (data) yield JSON.parse(data) as T;
+			}
+		}
+	} finally {
+		await reader.cancel().catch(() => undefined);
+	}
+}
+
+// Server-side analysis: uploads the image to /api/analyze and yields the JSON
+// payload of each server-sent event as the pipeline stages complete.
+export async function* streamImageAnalysis<T = unknown>(
+	file: File,
+): AsyncGenerator<T> {
+	const { response, error } = await api.analyze.post(
+		{ file },
+		{ headers: { accept: "text/event-stream" } },
+	);
+	if (error) throw new ApiError(decodeProblem(error.value, response));
+	yield* readEvents<T>(response);
+}
+
+// Background analysis: queues the image and resolves to the new job. The job
+// keeps running on the server if the page goes away.
+export function submitAnalysisJob(file: File): Promise<AnalysisJob> {
+	return unwrap(api.jobs.post({ file })) as Promise<AnalysisJob>;
+}
+
+// Background analysis: the current state of a job
+export function getAnalysisJob(id: string): Promise<AnalysisJob> {
+	return unwrap(api.jobs({ id }).get()) as Promise<AnalysisJob>;
+}
+
+// Background analysis: the normalized image a job analyzes. The route answers
+// with a raw Response, which onResponse reads as a Blob.
+export function getAnalysisJobImage(id: string): Promise<Blob> {
+	return unwrap(api.jobs({ id }).image.get()) as unknown as Promise<Blob>;
+}
+
+// Background analysis: yields a job snapshot, then each event of the job
+// until it succeeds or fails
+export async function* followAnalysisJob<T = unknown>(
+	id: string,
+): AsyncGenerator<T> {
+	const { response, error } = await api.jobs({ id }).events.get({
+		headers: { accept: "text/event-stream" },
+	});
+	if (error) throw new ApiError(decodeProblem(error.value, response));
+	yield* readEvents<T>(response);
 }
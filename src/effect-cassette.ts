@@ -0,0 +1,395 @@
+import {
+	FetchHttpClient,
+	HttpClient,
+	HttpClientError,
+	type HttpClientRequest,
+	HttpClientResponse,
+} from "@effect/platform";
+import { Effect, Layer } from "effect";
+
+/**
+ * @module effect-cassette
+ *
+ * Record-and-replay `HttpClient` layer for the Effect fetcher.
+ *
+ * Provide {@link layer} instead of `FetchHttpClient.layer` and every request made
+ * through `fetcher()` is matched against a named cassette. On first run the real
+ * response is recorded; afterwards the recorded response is replayed
+ * deterministically (identical requests replay their recordings in order).
+ *
+ * Requests match on method, origin + path, normalized query string and body;
+ * each rule can be turned off. Credentials in the query string (`apikey`, `key`,
+ * `access_key`, `api_key` by default) are ignored for matching and redacted in
+ * the stored cassette.
+ *
+ * @example
+ * ```ts
+ * import * as Cassette from './effect-cassette';
+ *
+ * const effect = pipe(
+ *   get('/api/gnews/search', { schema: GNewsResponse }, { q: 'laptop' }),
+ *   Effect.provide(
+ *     Cassette.layer({
+ *       name: 'gnews-laptop',
+ *       store: Cassette.fileStore('./fixtures/cassettes'),
+ *       mode: 'replay',
+ *       strict: true,
+ *     }),
+ *   ),
+ * );
+ * ```
+ */
+
+/**
+ * A recorded request/response pair.
+ */
+export interface CassetteInteraction {
+	request: {
+		method: string;
+		/** Origin and path, without the query string */
+		url: string;
+		/** Normalized query string with credentials redacted */
+		query: string;
+		body?: string;
+	};
+	response: {
+		status: number;
+		headers: Record<string, string>;
+		/** Response body, base64-encoded when `bodyEncoding` is `base64` */
+		body: string;
+		bodyEncoding: "utf8" | "base64";
+	};
+	recordedAt: string;
+}
+
+/**
+ * A named collection of recorded interactions.
+ */
+export interface Cassette {
+	version: 1;
+	interactions: CassetteInteraction[];
+}
+
+/**
+ * Persistence for cassettes.
+ */
+export interface CassetteStore {
+	load(name: string): Promise<Cassette | undefined>;
+	save(name: string, cassette: Cassette): Promise<void>;
+}
+
+/**
+ * - `record`: always hit the network and (re)record.
+ * - `replay`: only replay; unmatched requests pass through (or fail when `strict`).
+ * - `auto`: replay when a recording matches, otherwise record.
+ */
+export type CassetteMode = "record" | "replay" | "auto";
+
+/**
+ * Which parts of a request must be equal for a recording to match.
+ */
+export interface MatchRules {
+	method?: boolean;
+	url?: boolean;
+	query?: boolean;
+	body?: boolean;
+}
+
+/**
+ * Configuration for the cassette layer.
+ */
+export interface CassetteOptions {
+	/** Cassette name; becomes the file name for {@link fileStore} */
+	name: string;
+	store: CassetteStore;
+	/** Defaults to `auto` */
+	mode?: CassetteMode;
+	/** Fail unmatched requests in `replay` mode instead of passing them through */
+	strict?: boolean;
+	/** Defaults to matching on everything */
+	match?: MatchRules;
+	/** Query parameters ignored for matching and redacted when recording */
+	redactQueryParams?: string[];
+}
+
+const DEFAULT_REDACTED = ["apikey", "key", "access_key", "api_key"];
+
+/**
+ * Stores each cassette as `<dir>/<name>.json`. Server-side only; `node:fs` is
+ * imported lazily so the module stays safe to bundle for the browser.
+ */
+export const fileStore = (dir: string): CassetteStore => {
+	const fileFor = async (name: string) => {
+		const path = await import("node:path");
+		return path.join(dir, `${name.replace(/[^\w.-]+/g, "_")}.json`);
+	};
+
+	return {
+		async load(name) {
+			const fs = await import("node:fs/promises");
+			try {
+				return JSON.parse(await fs.readFile(await fileFor(name), "utf8"));
+			} catch {
+				return undefined;
+			}
+		},
+		async save(name, cassette) {
+			const fs = await import("node:fs/promises");
+			await fs.mkdir(dir, { recursive: true });
+			await fs.writeFile(
+				await fileFor(name),
+				JSON.stringify(cassette, null, 2),
+			);
+		},
+	};
+};
+
+/**
+ * Stores cassettes in `localStorage` under `cassette:<name>`, for opting the
+ * browser wrappers in `core.ts` into record/replay.
+ */
+export const localStorageStore = (prefix = "cassette:"): CassetteStore => ({
+	async load(name) {
+		const raw = globalThis.localStorage?.getItem(`${prefix}${name}`);
+		return raw ? (JSON.parse(raw) as Cassette) : undefined;
+	},
+	async save(name, cassette) {
+		globalThis.localStorage?.setItem(
+			`${prefix}${name}`,
+			JSON.stringify(cassette),
+		);
+	},
+});
+
+/**
+ * Keeps cassettes in memory. Handy for seeding recordings in code.
+ */
+export const memoryStore = (
+	initial: Record<string, Cassette> = {},
+): CassetteStore => {
+	const cassettes = new Map(Object.entries(initial));
+	return {
+		async load(name) {
+			return cassettes.get(name);
+		},
+		async save(name, cassette) {
+			cassettes.set(name, cassette);
+		},
+	};
+};
+
+/**
+ * Normalizes a query string: sorts keys and values, and redacts credentials.
+ */
+const normalizeQuery = (params: URLSearchParams, redacted: string[]) => {
+	const entries = [...params.entries()]
+		.map(([k, v]) => [k, redacted.includes(k) ? "REDACTED" : v] as const)
+		.sort(([ak, av], [bk, bv]) => ak.localeCompare(bk) || av.localeCompare(bv));
+	return new URLSearchParams(entries as [string, string][]).toString();
+};
+
+/**
+ * Serializes a request body for matching. Streams are not replayable and
+ * match on their content type only.
+ */
+const serializeBody = (
+	body: HttpClientRequest.HttpClientRequest["body"],
+): string | undefined => {
+	switch (body._tag) {
+		case "Empty":
+			return undefined;
+		case "Raw":
+			return typeof body.body === "string" ? body.body : String(body.body);
+		case "Uint8Array":
+			return new TextDecoder().decode(body.body);
+		case "FormData":
+			return JSON.stringify(
+				[...body.formData.entries()]
+					.map(([k, v]) => [k, typeof v === "string" ? v : "<file>"])
+					.sort(([a], [b]) => String(a).localeCompare(String(b))),
+			);
+		case "Stream":
+			return `<stream:${body.contentType}>`;
+	}
+};
+
+const isTextual = (contentType: string | undefined) =>
+	!contentType ||
+	/json|text|xml|javascript|x-www-form-urlencoded/.test(contentType);
+
+const toBase64 = (bytes: Uint8Array) => {
+	let binary = "";
+	for (const b of bytes) binary += String.fromCharCode(b);
+	return btoa(binary);
+};
+
+const fromBase64 = (data: string) =>
+	Uint8Array.from(atob(data), (c) => c.charCodeAt(0));
+
+/**
+ * Builds an `HttpClient` layer that records to and replays from a cassette.
+ * The cassette and replay cursors live with the returned layer, so build it
+ * once and provide it to every request that should share the recording.
+ *
+ * @param options Cassette name, store, mode and matching rules
+ * @param live The layer used for real requests (defaults to `FetchHttpClient.layer`)
+ */
+export const layer = (
+	options: CassetteOptions,
+	live: Layer.Layer<HttpClient.HttpClient> = FetchHttpClient.layer,
+): Layer.Layer<HttpClient.HttpClient> => {
+	const {
+		name,
+		store,
+		mode = "auto",
+		strict = false,
+		match = {},
+		redactQueryParams = DEFAULT_REDACTED,
+	} = options;
+	const rules: Required<MatchRules> = {
+		method: true,
+		url: true,
+		query: true,
+		body: true,
+		...match,
+	};
+
+	let cassette: Promise<Cassette> | undefined;
+	const loadCassette = () => {
+		cassette ??= store
+			.load(name)
+			.then(
+				(loaded): Cassette =>
+					mode === "record" || !loaded
+						? { version: 1, interactions: [] }
+						: loaded,
+			);
+		return cassette;
+	};
+	// Replay cursor per match key, so repeated requests replay in order
+	const cursors = new Map<string, number>();
+
+	return Layer.effect(
+		HttpClient.HttpClient,
+		Effect.gen(function* () {
+			const client = yield* HttpClient.HttpClient;
+			const cassette = yield* Effect.promise(loadCassette);
+
+			const keyOf = (req: CassetteInteraction["request"]) =>
+				JSON.stringify([
+					rules.method ? req.method : "",
+					rules.url ? req.url : "",
+					rules.query ? req.query : "",
+					rules.body ? (req.body ?? "") : "",
+				]);
+
+			const findRecording = (req: CassetteInteraction["request"]) => {
+				const key = keyOf(req);
+				const candidates = cassette.interactions.filter(
+					(i) => keyOf(i.request) === key,
+				);
+				if (candidates.length === 0) return undefined;
+				const cursor = cursors.get(key) ?? 0;
+				cursors.set(key, cursor + 1);
+				return candidates[Math.min(cursor, candidates.length - 1)];
+			};
+
+			const replay = (
+				request: HttpClientRequest.HttpClientRequest,
+				recording: CassetteInteraction,
+			) => {
+				const { status, headers, body, bodyEncoding } = recording.response;
+				return HttpClientResponse.fromWeb(
+					request,
+					new Response(
+						status === 204 || status === 304
+							? null
+							: bodyEncoding === "base64"
+								? fromBase64(body)
+								: body,
+						{ status, headers },
+					),
+				);
+			};
+
+			const record = (
+				request: HttpClientRequest.HttpClientRequest,
+				key: CassetteInteraction["request"],
+			) =>
+				Effect.gen(function* () {
+					const response = yield* client.execute(request);
+					const bytes = new Uint8Array(yield* response.arrayBuffer);
+					// The body is stored decoded, so drop headers describing the wire encoding
+					const {
+						"content-encoding": _encoding,
+						"content-length": _length,
+						...headers
+					} = response.headers as Record<string, string>;
+					const textual = isTextual(headers["content-type"]);
+					const interaction: CassetteInteraction = {
+						request: key,
+						response: {
+							status: response.status,
+							headers,
+							body: textual ? new TextDecoder().decode(bytes) : toBase64(bytes),
+							bodyEncoding: textual ? "utf8" : "base64",
+						},
+						recordedAt: new Date().toISOString(),
+					};
+					cassette.interactions.push(interaction);
+					yield* Effect.promise(() => store.save(name, cassette));
+					return replay(request, interaction);
+				});
+
+			return HttpClient.make((request, url) => {
+				const key: CassetteInteraction["request"] = {
+					method: request.method,
+					url: `${url.origin}${url.pathname}`,
+					query: normalizeQuery(url.searchParams, redactQueryParams),
+					body: serializeBody(request.body),
+				};
+
+				if (mode === "record") return record(request, key);
+
+				const recording = findRecording(key);
+				if (recording) return Effect.succeed(replay(request, recording));
+
+				if (mode === "auto") return record(request, key);
+
+				if (strict) {
+					return Effect.fail(
+						new HttpClientError.RequestError({
+							request,
+							reason: "Transport",
+							description: `No recording in cassette "${name}" matches ${key.method} ${key.url}${key.query ? `?${key.query}` : ""}`,
+						}),
+					);
+				}
+
+				return client.execute(request);
+			});
+		}),
+	).pipe(Layer.provide(live));
+};
+
+/**
+ * Builds a cassette layer from environment-style settings, or returns
+ * `undefined` when no cassette name is configured.
+ *
+ * @param env A record such as `process.env` or `import.meta.env`
+ * @param store The store to use when a cassette is configured
+ */
+export const layerFromEnv = (
+	env: Record<string, string | undefined>,
+	store: CassetteStore,
+): Layer.Layer<HttpClient.HttpClient> | undefined => {
+	const name = env.HTTP_CASSETTE;
+	if (!name) return undefined;
+	const mode = env.HTTP_CASSETTE_MODE;
+	return layer({
+		name,
+		store,
+		mode: mode === "record" || mode === "replay" ? mode : "auto",
+		strict: env.HTTP_CASSETTE_STRICT === "true",
+	});
+};
@@ -0,0 +1,185 @@
+import { Effect, pipe, RateLimiter, Scope } from "effect";
+
+/**
+ * @module effect-rate-limiter
+ *
+ * Shared, host-keyed client-side rate limiting for the Effect fetcher.
+ *
+ * Each upstream host gets one limiter built from a {@link RateLimitRule}: a
+ * token bucket (`limit` requests per `interval`), an optional minimum spacing
+ * between request starts (`minInterval`), and a cap on concurrent requests
+ * (`maxConcurrent`). Every `fetcher()` call with `rateLimit: true` queues on
+ * the limiter for its URL's host, so separate API clients hitting the same host
+ * share one budget.
+ *
+ * Rules are registered with {@link defineRateLimit} (see `src/lib/api/rate-limits.ts`
+ * for the ones used by the API clients) and counters can be read at runtime
+ * with {@link rateLimitStats}.
+ *
+ * @example
+ * ```ts
+ * defineRateLimit('api.example.com', { limit: 60, interval: 60_000, maxConcurrent: 2 });
+ *
+ * const effect = get('https://api.example.com/items', { rateLimit: true });
+ * console.log(rateLimitStats()['api.example.com']);
+ * ```
+ */
+
+/**
+ * Limits applied to every request sharing a key. Omitted fields are unlimited.
+ */
+export interface RateLimitRule {
+	/** Requests allowed per `interval` (token bucket) */
+	limit?: number;
+	/** Token bucket window in milliseconds (defaults to 60000) */
+	interval?: number;
+	/** Minimum milliseconds between two request starts */
+	minInterval?: number;
+	/** Maximum requests in flight at once */
+	maxConcurrent?: number;
+}
+
+/**
+ * Runtime counters for one limiter key.
+ */
+export interface RateLimitStats {
+	rule: RateLimitRule;
+	/** Requests currently running */
+	active: number;
+	/** Requests waiting for a slot or a token */
+	queued: number;
+	/** Requests that have started since the rule was defined */
+	started: number;
+	/** Requests that have finished, successfully or not */
+	completed: number;
+	/** Total milliseconds requests spent waiting */
+	waitedMs: number;
+	/** Epoch milliseconds of the most recent start, 0 if none */
+	lastStartedAt: number;
+}
+
+interface Limiter {
+	gate: <A, E, R>(effect: Effect.Effect<A, E, R>) => Effect.Effect<A, E, R>;
+	stats: RateLimitStats;
+}
+
+// Limiters fork their refill fibers into this scope, which lives as long as the module
+const scope = Effect.runSync(Scope.make());
+const limiters = new Map<string, Limiter>();
+
+const makeLimiter = (rule: RateLimitRule): Limiter => {
+	const { limit, interval = 60_000, minInterval, maxConcurrent } = rule;
+	const build = (options: RateLimiter.RateLimiter.Options) =>
+		Effect.runSync(Scope.extend(RateLimiter.make(options), scope));
+
+	const bucket = limit
+		? build({ limit, interval, algorithm: "token-bucket" })
+		: undefined;
+	const spacing = minInterval
+		? build({ limit: 1, interval: minInterval, algorithm: "token-bucket" })
+		: undefined;
+	const semaphore = maxConcurrent
+		? Effect.unsafeMakeSemaphore(maxConcurrent)
+		: undefined;
+
+	return {
+		stats: {
+			rule,
+			active: 0,
+			queued: 0,
+			started: 0,
+			completed: 0,
+			waitedMs: 0,
+			lastStartedAt: 0,
+		},
+		gate: (effect) => {
+			const throttled = spacing ? spacing(effect) : effect;
+			const metered = bucket ? bucket(throttled) : throttled;
+			return semaphore ? semaphore.withPermits(1)(metered) : metered;
+		},
+	};
+};
+
+/**
+ * Registers (or replaces) the rule for a key, usually a host name.
+ *
+ * @param key Host name such as `api.mediastack.com`, or any shared bucket name
+ * @param rule The limits to apply
+ */
+export const defineRateLimit = (key: string, rule: RateLimitRule): void => {
+	limiters.set(key, makeLimiter(rule));
+};
+
+/**
+ * Returns the counters of every registered limiter, keyed like {@link defineRateLimit}.
+ */
+export const rateLimitStats = (): Record<string, RateLimitStats> =>
+	Object.fromEntries(
+		[...limiters].map(([key, limiter]) => [key, { ...limiter.stats }]),
+	);
+
+/**
+ * Zeroes the counters for a key without touching its rule or pending requests.
+ */
+export const resetRateLimitStats = (key: string): void => {
+	const stats = limiters.get(key)?.stats;
+	if (!stats) return;
+	stats.started = 0;
+	stats.completed = 0;
+	stats.waitedMs = 0;
+	stats.lastStartedAt = 0;
+};
+
+/**
+ * The limiter key for a URL: its host (`hostname:port` when a port is set).
+ */
+export const rateLimitKey = (url: string): string =>
+	new URL(url, globalThis.location?.href ?? "http://localhost").host;
+
+/**
+ * Runs `effect` once the limiter for `key` allows it. Keys without a rule get
+ * an unlimited limiter, so their traffic still shows up in {@link rateLimitStats}.
+ */
+export const withRateLimit = <A, E, R>(
+	key: string,
+	effect: Effect.Effect<A, E, R>,
+): Effect.Effect<A, E, R> =>
+	Effect.suspend(() => {
+		let limiter = limiters.get(key);
+		if (!limiter) {
+			limiter = makeLimiter({});
+			limiters.set(key, limiter);
+		}
+		const { gate, stats } = limiter;
+		const queuedAt = Date.now();
+		let started = false;
+		stats.queued++;
+
+		const run = Effect.suspend(() => {
+			const now = Date.now();
+			started = true;
+			stats.queued--;
+			stats.active++;
+			stats.started++;
+			stats.waitedMs += now - queuedAt;
+			stats.lastStartedAt = now;
+			return pipe(
+				effect,
+				Effect.ensuring(
+					Effect.sync(() => {
+						stats.active--;
+						stats.completed++;
+					}),
+				),
+			);
+		});
+
+		return pipe(
+			gate(run),
+			Effect.onInterrupt(() =>
+				Effect.sync(() => {
+					if (!started) stats.queued--;
+				}),
+			),
+		);
+	});
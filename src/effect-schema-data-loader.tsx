@@ -3,18 +3,21 @@
 import { FetchHttpClient } from "@effect/platform";
 import type { QueryKey } from "@tanstack/react-query";
 import {
+	type UseSuspenseQueryOptions,
 	useQueryClient,
 	useSuspenseQuery,
-	type UseSuspenseQueryOptions,
 } from "@tanstack/react-query";
 import { Effect, pipe, Schema } from "effect";
 import React, { Suspense, useCallback, useMemo } from "react";
 import { ClientError } from "./client-error.tsx";
 import {
-	fetcher,
-	FetcherError,
 	type FetcherOptions,
+	fetcher,
 	get,
+	HttpError,
+	isFetcherError,
+	isRetryableStatus,
+	NetworkError,
 	type QueryParams,
 	ValidationError,
 } from "./effect-schema-fetcher.ts";
@@ -86,11 +89,41 @@ export interface DataLoaderRenderProps<T> {
 }
 
 /**
- * Base props for DataLoader without schema.
+ * A typed client call returning Eden's `{ data, error }` result, e.g.
+ * `() => api.gnews.search.get({ query: { q } })` with `api` from `src/core.ts`.
+ *
+ * @template T The type of the response data.
  */
-interface BaseDataLoaderProps<T> {
-	/** URL to fetch data from */
-	url: string;
+export type TreatyRequest<T> = () => Promise<{
+	data: T | null;
+	error: { status: unknown; value: unknown } | null;
+	response: Response;
+}>;
+
+/**
+ * Runs a {@link TreatyRequest}, throwing an error status as an `HttpError` so
+ * the retry rules below apply to it as to `url` requests.
+ */
+const runRequest = async <T,>(request: TreatyRequest<T>): Promise<T> => {
+	const { data, error, response } = await request();
+	if (error) {
+		const status = Number(error.status);
+		throw new HttpError({
+			message: `HTTP ${status}: Request failed`,
+			url: response.url,
+			attempt: 1,
+			status,
+			responseData: error.value,
+			headers: Object.fromEntries(response.headers),
+		});
+	}
+	return data as T;
+};
+
+/**
+ * Props shared by every DataLoader variant.
+ */
+interface LoaderOptions<T> {
 	/** Additional React Query options */
 	queryOptions?: Partial<UseSuspenseQueryOptions<T, Error, T, QueryKey>>;
 	/** Custom loading component */
@@ -99,10 +132,6 @@ interface BaseDataLoaderProps<T> {
 	ErrorComponent?:
 		| React.ComponentType<{ error: Error; retry: () => void }>
 		| React.ReactElement;
-	/** Fetcher options (retries, timeout, etc.) */
-	options?: FetcherOptions<T>;
-	/** Query parameters */
-	params?: QueryParams;
 	/** Custom query key override */
 	queryKey?: QueryKey;
 	/** Callback fired when data is successfully loaded */
@@ -123,6 +152,18 @@ interface BaseDataLoaderProps<T> {
 	[key: string]: unknown;
 }
 
+/**
+ * Base props for DataLoader without schema.
+ */
+interface BaseDataLoaderProps<T> extends LoaderOptions<T> {
+	/** URL to fetch data from */
+	url: string;
+	/** Fetcher options (retries, timeout, etc.) */
+	options?: FetcherOptions<T>;
+	/** Query parameters */
+	params?: QueryParams;
+}
+
 /**
  * Props for DataLoader without schema (manual typing).
  */
@@ -135,6 +176,7 @@ export interface DataLoaderProps<T> extends BaseDataLoaderProps<T> {
 		| ((data: T, utils: DataLoaderRenderProps<T>) => React.ReactNode);
 	/** Effect Schema for runtime validation (optional) */
 	schema?: never;
+	request?: never;
 }
 
 /**
@@ -151,11 +193,32 @@ export interface DataLoaderPropsWithSchema<
 		| ((
 				data: Schema.Schema.Type<S>,
 				utils: DataLoaderRenderProps<Schema.Schema.Type<S>>,
-		) => React.ReactNode);
+		  ) => React.ReactNode);
 	/** Effect Schema for runtime validation */
 	schema: S;
 	/** Fetcher options with schema */
 	options?: FetcherOptions<Schema.Schema.Type<S>> & { schema: S };
+	request?: never;
+}
+
+/**
+ * Props for DataLoader with a typed client call instead of a URL; the data
+ * type comes from the server's route schema.
+ */
+export interface DataLoaderPropsWithRequest<T> extends LoaderOptions<T> {
+	/** The typed client call; it retries and validates through `src/core.ts` */
+	request: TreatyRequest<T>;
+	/** Required: a call cannot be turned into a cache key */
+	queryKey: QueryKey;
+	/**
+	 * Render prop that receives data and optional utilities. A single
+	 * signature, so `T` inferred from `request` types the callback.
+	 */
+	children: (data: T, utils: DataLoaderRenderProps<T>) => React.ReactNode;
+	url?: never;
+	options?: never;
+	params?: never;
+	schema?: never;
 }
 
 /**
@@ -180,10 +243,23 @@ export interface DataLoaderPropsWithSchema<
  *   {(users) => <UserList users={users} />} // users is fully typed!
  * </DataLoader>
  * ```
+ *
+ * @example With a typed client call
+ * ```tsx
+ * <DataLoader
+ *   request={() => api.gnews.search.get({ query: { q } })}
+ *   queryKey={["gnews", q]}
+ * >
+ *   {({ articles }) => <ArticleList articles={articles} />}
+ * </DataLoader>
+ * ```
  */
 export function DataLoader<T = unknown>(
 	props: DataLoaderProps<T>,
 ): React.ReactElement;
+export function DataLoader<T>(
+	props: DataLoaderPropsWithRequest<T>,
+): React.ReactElement;
 export function DataLoader<S extends Schema.Schema<any, any, never>>(
 	props: DataLoaderPropsWithSchema<S>,
 ): React.ReactElement;
@@ -193,6 +269,7 @@ export function DataLoader<
 >({
 	children,
 	url,
+	request,
 	queryOptions = {},
 	LoadingComponent = <Loader />,
 	ErrorComponent = ClientError,
@@ -207,7 +284,11 @@ export function DataLoader<
 	refetchOnWindowFocus = false,
 	refetchOnReconnect = true,
 	schema,
-}: (DataLoaderProps<T> | DataLoaderPropsWithSchema<S>) & {
+}: (
+	| DataLoaderProps<T>
+	| DataLoaderPropsWithSchema<S>
+	| DataLoaderPropsWithRequest<T>
+) & {
 	schema?: S;
 }): React.ReactElement {
 	const queryClient = useQueryClient();
@@ -236,10 +317,10 @@ export function DataLoader<
 			retryDelay: 1_000,
 			timeout: 30_000,
 			onError: (err) => {
-				const path = parseCodePath(url, fetcher);
+				const path = parseCodePath(url ?? "", fetcher);
 				console.error(`[DataLoader]: ${path}`);
 
-				if (err instanceof FetcherError) {
+				if (err instanceof HttpError) {
 					console.error(`[DataLoader]: Status ${err.status}`, err.responseData);
 				} else if (err instanceof ValidationError) {
 					console.error(
@@ -247,11 +328,11 @@ export function DataLoader<
 					);
 					console.error(`[DataLoader]: Invalid data:`, err.responseData);
 				} else {
-					console.error("[DataLoader]: Unexpected error", err);
+					console.error(`[DataLoader]: ${err._tag} - ${err.message}`);
 				}
 
 				// Call user-provided error handler
-				if (onError && err instanceof Error) onError(err);
+				if (onError) onError(err);
 			},
 			...(options || {}),
 		};
@@ -263,13 +344,21 @@ export function DataLoader<
 
 	// Memoized query function with schema support
 	const queryFn = useCallback(async () => {
-		try {
+		const load = async () => {
 			const effect = pipe(
-				get(url, fetcherOptions, params),
+				get(url ?? "", fetcherOptions, params),
 				Effect.provide(FetchHttpClient.layer),
+				Effect.either,
 			);
 
-			const result = await Effect.runPromise(effect);
+			// Unwrap the Either so the tagged error itself (not a FiberFailure) is thrown
+			const outcome = await Effect.runPromise(effect);
+			if (outcome._tag === "Left") throw outcome.left;
+			return outcome.right;
+		};
+
+		try {
+			const result = request ? await runRequest(request) : await load();
 
 			// Apply transformation if provided (note: schema validation happens first)
 			const finalResult =
@@ -285,17 +374,18 @@ export function DataLoader<
 			// Enhanced error handling for validation errors
 			if (error instanceof ValidationError) throw error;
 
-			if (error instanceof FetcherError) throw error;
+			if (isFetcherError(error)) throw error;
 
 			// Wrap unexpected errors
-			throw new FetcherError(
-				error instanceof Error ? error.message : "Unknown error occurred",
-				url,
-				undefined,
-				error,
-			);
+			throw new NetworkError({
+				message:
+					error instanceof Error ? error.message : "Unknown error occurred",
+				url: url ?? "",
+				attempt: 0,
+				cause: error,
+			});
 		}
-	}, [url, fetcherOptions, params, transform, onSuccess]);
+	}, [url, request, fetcherOptions, params, transform, onSuccess]);
 
 	// Enhanced query options
 	const queryOptionsWithDefaults = useMemo(() => {
@@ -307,13 +397,10 @@ export function DataLoader<
 			refetchOnWindowFocus,
 			refetchOnReconnect,
 			retry: (failureCount: number, error: unknown) => {
-				// Don't retry client errors (4xx)
+				// Don't retry validation failures or non-retryable statuses (4xx)
 				if (
 					error instanceof ValidationError ||
-					(error instanceof FetcherError &&
-						error.status &&
-						error.status >= 400 &&
-						error.status < 500)
+					(error instanceof HttpError && !isRetryableStatus(error.status))
 				)
 					return false;
 
@@ -429,7 +516,19 @@ export function useDataLoader<S extends Schema.Schema<any, any, never>>(
 	>
 >;
 
-export function useDataLoader(url: string, options: any = {}) {
+export function useDataLoader<T>(
+	request: TreatyRequest<T>,
+	options: Omit<
+		DataLoaderPropsWithRequest<T>,
+		"request" | "children" | "LoadingComponent" | "ErrorComponent"
+	>,
+): ReturnType<typeof useSuspenseQuery<T, Error, T, QueryKey>>;
+
+export function useDataLoader(
+	source: string | TreatyRequest<unknown>,
+	options: any = {},
+) {
+	const url = typeof source === "string" ? source : undefined;
 	const {
 		queryOptions = {},
 		options: fetcherOptions = {},
@@ -473,7 +572,7 @@ export function useDataLoader(url: string, options: any = {}) {
 					);
 				}
 
-				if (typeof onError === "function" && err instanceof Error) {
+				if (typeof onError === "function") {
 					onError(err);
 				}
 			},
@@ -488,12 +587,19 @@ export function useDataLoader(url: string, options: any = {}) {
 	}, [fetcherOptions, onError, schema]);
 
 	const queryFn = useCallback(async () => {
-		const effect = pipe(
-			get(url, enhancedFetcherOptions, params as QueryParams),
-			Effect.provide(FetchHttpClient.layer),
-		);
+		const load = async () => {
+			const effect = pipe(
+				get(url ?? "", enhancedFetcherOptions, params as QueryParams),
+				Effect.provide(FetchHttpClient.layer),
+				Effect.either,
+			);
 
-		const result = await Effect.runPromise(effect);
+			const outcome = await Effect.runPromise(effect);
+			if (outcome._tag === "Left") throw outcome.left;
+			return outcome.right;
+		};
+		const result =
+			typeof source === "function" ? await runRequest(source) : await load();
 		const finalResult =
 			transform && typeof transform === "function" ? transform(result) : result;
 
@@ -502,7 +608,7 @@ export function useDataLoader(url: string, options: any = {}) {
 		}
 
 		return finalResult;
-	}, [url, enhancedFetcherOptions, params, transform, onSuccess]);
+	}, [source, url, enhancedFetcherOptions, params, transform, onSuccess]);
 
 	const queryOptionsWithDefaults = useMemo(() => {
 		const baseOptions: UseSuspenseQueryOptions<any, Error, any, QueryKey> = {
@@ -515,10 +621,7 @@ export function useDataLoader(url: string, options: any = {}) {
 			retry: (failureCount: number, error: unknown) => {
 				if (
 					error instanceof ValidationError ||
-					(error instanceof FetcherError &&
-						error.status &&
-						error.status >= 400 &&
-						error.status < 500)
+					(error instanceof HttpError && !isRetryableStatus(error.status))
 				) {
 					return false;
 				}
@@ -543,4 +646,4 @@ export function useDataLoader(url: string, options: any = {}) {
 	return useSuspenseQuery(queryOptionsWithDefaults);
 }
 
-export default DataLoader;
\ No newline at end of file
+export default DataLoader;
@@ -1,8 +1,20 @@
 "use strict";
 
-import { HttpClient, HttpClientRequest } from "@effect/platform";
+import {
+	HttpClient,
+	HttpClientRequest,
+	type HttpClientResponse,
+} from "@effect/platform";
 import { Schema, ParseResult } from "effect";
-import { Duration, Effect, pipe, Schedule } from "effect";
+import { Data, Duration, Effect, Exit, Fiber, pipe, Stream } from "effect";
+import {
+	context as otelContext,
+	type Span,
+	SpanKind,
+	SpanStatusCode,
+	trace,
+} from "@opentelemetry/api";
+import { rateLimitKey, withRateLimit } from "./effect-rate-limiter";
 
 declare const EMPTY = "";
 
@@ -17,15 +29,21 @@ declare const EMPTY = "";
  *
  * ## Features
  * - Type-safe HTTP requests for all verbs (GET, POST, PUT, PATCH, DELETE, OPTIONS, HEAD)
+ * - JSON, text, binary, streaming and NDJSON responses via `responseType`
+ * - JSON, FormData, URLSearchParams and raw byte request bodies
  * - Runtime type validation with effect/Schema
- * - Effect-based error handling and retry logic
- * - Customizable headers, timeouts, and retry strategies
- * - Rich error context via FetcherError and ValidationError
+ * - Tagged errors in the Effect error channel (NetworkError, TimeoutError, HttpError, DecodeError, ValidationError)
+ * - Status-aware retries with exponential backoff, jitter and `Retry-After` support
+ * - Opt-in coalescing of identical in-flight requests with a short memo
+ * - Opt-in host-keyed rate limiting shared across callers (see effect-rate-limiter)
+ * - OpenTelemetry client spans per request and per attempt (no-ops without an SDK)
+ * - Customizable headers, timeouts, and retry policies
  * - Query parameter serialization
  * - Designed for use with Effect and React Query
  *
  * @see FetcherError
  * @see ValidationError
+ * @see RetryPolicy
  * @see fetcher
  * @see get
  * @see post
@@ -106,9 +124,39 @@ const RequestBody = Schema.Union(
 
 /**
  * Represents a type-safe request body for HTTP methods that support a body.
- * Can be an object, array, string, number, boolean, or null.
+ * Objects, arrays, strings, numbers, booleans and null are sent as JSON;
+ * `FormData` as multipart, `URLSearchParams` as a urlencoded form, and
+ * `Uint8Array`/`ArrayBuffer`/`Blob` as raw bytes.
  */
-type RequestBody = Schema.Schema.Type<typeof RequestBody>;
+export type RequestBody =
+	| Schema.Schema.Type<typeof RequestBody>
+	| FormData
+	| URLSearchParams
+	| Uint8Array
+	| ArrayBuffer
+	| Blob;
+
+/**
+ * How the response body is read. The resolved value (and the type argument
+ * to use for `T`) is:
+ * - `json` (default): the parsed JSON value
+ * - `text`: `string`
+ * - `blob`: `Blob`, typed with the response `content-type`
+ * - `arrayBuffer`: `ArrayBuffer`
+ * - `stream`: `Stream.Stream<Uint8Array, DecodeError>`; never validated
+ * - `ndjson`: an array with one parsed value per non-empty line
+ * - `none`: `undefined`; the body is ignored (the default for HEAD)
+ *
+ * A schema validates the resolved value for every type except `stream`.
+ */
+export type ResponseType =
+	| "json"
+	| "text"
+	| "blob"
+	| "arrayBuffer"
+	| "stream"
+	| "ndjson"
+	| "none";
 
 // Headers type definition
 const Headers = Schema.Record({ key: Schema.String, value: Schema.String });
@@ -119,60 +167,114 @@ const Headers = Schema.Record({ key: Schema.String, value: Schema.String });
 type Headers = Schema.Schema.Type<typeof Headers>;
 
 /**
- * Configuration options for the fetcher utility.
+ * Minimal Standard Schema (https://standardschema.dev) interface, so schemas
+ * from other libraries (e.g. arktype) can validate responses too.
  */
-export interface FetcherOptions<T = unknown> {
-	/** Number of times to retry the request on failure */
-	retries?: number;
-	/** Delay in milliseconds between retries */
-	retryDelay?: number;
-	/** Optional callback invoked on error */
-	onError?: (error: unknown) => void;
-	/** Timeout in milliseconds for the request */
-	timeout?: number;
-	/** Additional headers to include in the request */
-	headers?: Record<string, string>;
-	/** Effect/Schema for runtime validation of the response */
-	schema?: Schema.Schema<T, any, never>;
-	/** Abortsignal */
-	signal?: AbortSignal;
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+	readonly "~standard": {
+		readonly version: 1;
+		readonly vendor: string;
+		readonly validate: (
+			value: unknown,
+		) =>
+			| StandardSchemaV1.Result<Output>
+			| Promise<StandardSchemaV1.Result<Output>>;
+		readonly types?: { readonly input: Input; readonly output: Output };
+	};
 }
 
-/**
- * Custom error class for validation-specific errors.
- * Includes detailed validation problems from effect/Schema.
- */
-export class ValidationError extends Error {
-	constructor(
-		message: string,
-		public readonly url: string,
-		public readonly problems: string,
-		public readonly responseData: unknown,
-		public readonly attempt?: number,
-	) {
-		super(message);
-		this.name = "ValidationError";
-		Object.setPrototypeOf(this, ValidationError.prototype);
+export declare namespace StandardSchemaV1 {
+	type Result<Output> =
+		| { readonly value: Output; readonly issues?: undefined }
+		| { readonly issues: ReadonlyArray<Issue> };
+	interface Issue {
+		readonly message: string;
+		readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
 	}
+}
 
-	[Symbol.toStringTag] = "ValidationError";
+/**
+ * A response schema: either an Effect Schema or any Standard Schema.
+ */
+export type ResponseSchema<T = any> =
+	| Schema.Schema<T, any, never>
+	| StandardSchemaV1<any, T>;
 
-	[Symbol.for("nodejs.util.inspect.custom")]() {
-		return this.toString();
-	}
+const isStandardSchema = <T>(
+	schema: ResponseSchema<T>,
+): schema is StandardSchemaV1<any, T> =>
+	!Schema.isSchema(schema) && "~standard" in schema;
 
-	[Symbol.for("Deno.customInspect")]() {
-		return this.toString();
-	}
+/**
+ * The validated output type of a {@link ResponseSchema}.
+ */
+export type SchemaType<S> =
+	S extends Schema.Schema<infer A, any, never>
+		? A
+		: S extends StandardSchemaV1<any, infer O>
+			? O
+			: never;
 
-	[Symbol.for("react.element")]() {
-		return this.toString();
-	}
+/**
+ * The request could not be sent or the connection failed.
+ */
+export class NetworkError extends Data.TaggedError("NetworkError")<{
+	readonly message: string;
+	readonly url: string;
+	readonly attempt: number;
+	readonly cause?: unknown;
+}> {}
 
-	toString(): string {
-		return `ValidationError: ${this.message} (URL: ${this.url}${this.attempt ? `, Attempt: ${this.attempt}` : ""})`;
-	}
+/**
+ * The request did not complete within `timeout` milliseconds.
+ */
+export class TimeoutError extends Data.TaggedError("TimeoutError")<{
+	readonly message: string;
+	readonly url: string;
+	readonly attempt: number;
+	readonly timeout: number;
+}> {}
 
+/**
+ * The server answered with a non-2xx status.
+ */
+export class HttpError extends Data.TaggedError("HttpError")<{
+	readonly message: string;
+	readonly url: string;
+	readonly attempt: number;
+	readonly status: number;
+	/** Parsed JSON body when possible, otherwise the raw text */
+	readonly responseData: unknown;
+	readonly headers: Readonly<Record<string, string>>;
+	/** Milliseconds requested by a `Retry-After` header, if any */
+	readonly retryAfter?: number;
+}> {}
+
+/**
+ * A 2xx response body could not be read or parsed.
+ */
+export class DecodeError extends Data.TaggedError("DecodeError")<{
+	readonly message: string;
+	readonly url: string;
+	readonly attempt: number;
+	readonly status: number;
+	readonly contentType?: string;
+	/** The first 200 characters of the body, for debugging */
+	readonly bodySnippet?: string;
+	readonly cause?: unknown;
+}> {}
+
+/**
+ * The response parsed but did not match the schema.
+ * Includes detailed validation problems from the schema.
+ */
+export class ValidationError extends Data.TaggedError("ValidationError")<{
+	readonly message: string;
+	readonly url: string;
+	readonly attempt: number;
+	readonly problems: string;
+	readonly responseData: unknown;
+}> {
 	/**
 	 * Get a formatted string of all validation problems
 	 */
@@ -182,43 +284,252 @@ export class ValidationError extends Error {
 }
 
 /**
- * Custom error class for fetcher-specific errors.
- * Includes additional context such as the request URL, HTTP status, response data, and attempt number.
- */
-export class FetcherError extends Error {
-	constructor(
-		message: string,
-		public readonly url: string,
-		public readonly status?: number,
-		public readonly responseData?: unknown,
-		public readonly attempt?: number,
-	) {
-		super(message);
-		this.name = "FetcherError";
-		Object.setPrototypeOf(this, FetcherError.prototype);
-	}
+ * Transport and protocol failures of a request. {@link ValidationError} is
+ * kept separate since it signals a contract mismatch rather than a failed call.
+ */
+export type FetcherError =
+	| NetworkError
+	| TimeoutError
+	| HttpError
+	| DecodeError;
 
-	[Symbol.toStringTag] = "FetcherError";
+/**
+ * Returns `true` for any {@link FetcherError}.
+ */
+export const isFetcherError = (error: unknown): error is FetcherError =>
+	error instanceof NetworkError ||
+	error instanceof TimeoutError ||
+	error instanceof HttpError ||
+	error instanceof DecodeError;
 
-	[Symbol.for("nodejs.util.inspect.custom")]() {
-		return this.toString();
-	}
+/**
+ * Status codes retried by {@link defaultShouldRetry}.
+ */
+export const isRetryableStatus = (status: number): boolean =>
+	status === 408 || status === 429 || status >= 500;
 
-	[Symbol.for("Deno.customInspect")]() {
-		return this.toString();
+/**
+ * Retries transport failures, timeouts and 408/429/5xx responses. Other 4xx
+ * responses, unparseable bodies and validation failures are never retried.
+ */
+export const defaultShouldRetry = (
+	error: FetcherError | ValidationError,
+): boolean => {
+	switch (error._tag) {
+		case "NetworkError":
+		case "TimeoutError":
+			return true;
+		case "HttpError":
+			return isRetryableStatus(error.status);
+		default:
+			return false;
 	}
+};
 
-	[Symbol.for("react.element")]() {
-		return this.toString();
-	}
+/**
+ * Details passed to {@link RetryPolicy.onAttempt}.
+ */
+export interface AttemptInfo {
+	url: string;
+	method: HttpMethod;
+	/** 1 for the first try */
+	attempt: number;
+}
 
-	toString(): string {
-		return `FetcherError: ${this.message} (URL: ${this.url}${this.status ? `, Status: ${this.status}` : ""}${this.attempt ? `, Attempt: ${this.attempt}` : ""})`;
-	}
+/**
+ * Details passed to {@link RetryPolicy.onRetry}.
+ */
+export interface RetryInfo extends AttemptInfo {
+	error: FetcherError | ValidationError;
+	/** Milliseconds waited before the next attempt */
+	delay: number;
+}
+
+/**
+ * How failed requests are retried.
+ */
+export interface RetryPolicy {
+	/** Retries after the first attempt (defaults to `FetcherOptions.retries`, then 0) */
+	retries?: number;
+	/** Delay before the first retry in milliseconds (defaults to `FetcherOptions.retryDelay`, then 1000) */
+	baseDelay?: number;
+	/** Upper bound for any single delay, including `Retry-After` (defaults to 30000) */
+	maxDelay?: number;
+	/** Multiplier applied to the delay after each retry (defaults to 2) */
+	factor?: number;
+	/** Randomize each delay between 50% and 100% of its value (defaults to true) */
+	jitter?: boolean;
+	/** Decides whether an error is retried (defaults to {@link defaultShouldRetry}) */
+	shouldRetry?: (
+		error: FetcherError | ValidationError,
+		attempt: number,
+	) => boolean;
+	/** Wait as long as a `Retry-After` header asks, capped at `maxDelay` (defaults to true) */
+	respectRetryAfter?: boolean;
+	/** Called before every attempt */
+	onAttempt?: (info: AttemptInfo) => void;
+	/** Called after a failed attempt that will be retried */
+	onRetry?: (info: RetryInfo) => void;
+}
+
+/**
+ * Parses a `Retry-After` header (delta-seconds or HTTP-date) into milliseconds.
+ */
+export const parseRetryAfter = (
+	value: string | undefined,
+	now: number = Date.now(),
+): number | undefined => {
+	if (!value) return undefined;
+	const trimmed = value.trim();
+	if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1_000;
+	const date = Date.parse(trimmed);
+	return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+/**
+ * Settings for coalescing identical requests.
+ */
+export interface DedupeOptions {
+	/** Milliseconds a successful result is reused after it settles (defaults to 1000; 0 disables) */
+	ttl?: number;
+	/** Overrides the key; defaults to method + URL with query + headers */
+	key?: string;
+}
+
+/**
+ * A request shared by every concurrent caller with the same key.
+ */
+interface InFlight {
+	fiber: Fiber.RuntimeFiber<unknown, unknown>;
+	subscribers: number;
+}
+
+const inFlight = new Map<string, InFlight>();
+const memo = new Map<
+	string,
+	{ exit: Exit.Exit<unknown, unknown>; expiresAt: number }
+>();
+
+/**
+ * Drops every memoized result. In-flight requests are left alone.
+ */
+export const clearDedupeCache = (): void => memo.clear();
+
+/**
+ * Runs `effect` at most once per key at a time. Later callers join the running
+ * fiber instead of starting their own; it is forked as a daemon so it outlives
+ * whichever caller started it, and is interrupted only once every subscriber
+ * has been interrupted. Successful results are memoized for `ttl` ms.
+ */
+const coalesce = <A, E, R>(
+	key: string,
+	ttl: number,
+	effect: Effect.Effect<A, E, R>,
+): Effect.Effect<A, E, R> =>
+	Effect.gen(function* () {
+		const now = Date.now();
+		const cached = memo.get(key);
+		if (cached && cached.expiresAt > now) {
+			return yield* cached.exit as Exit.Exit<A, E>;
+		}
+		if (cached) memo.delete(key);
+
+		let entry = inFlight.get(key);
+		if (!entry) {
+			const fiber = yield* Effect.forkDaemon(effect);
+			const created: InFlight = { fiber, subscribers: 0 };
+			inFlight.set(key, created);
+			fiber.addObserver((exit) => {
+				if (inFlight.get(key) === created) inFlight.delete(key);
+				if (ttl > 0 && Exit.isSuccess(exit)) {
+					const settledAt = Date.now();
+					for (const [k, v] of memo)
+						if (v.expiresAt <= settledAt) memo.delete(k);
+					memo.set(key, { exit, expiresAt: settledAt + ttl });
+				}
+			});
+			entry = created;
+		}
+
+		const shared = entry;
+		shared.subscribers++;
+		return yield* pipe(
+			Fiber.join(shared.fiber as Fiber.RuntimeFiber<A, E>),
+			Effect.ensuring(Effect.sync(() => shared.subscribers--)),
+			Effect.onInterrupt(() => {
+				if (shared.subscribers > 0) return Effect.void;
+				if (inFlight.get(key) === shared) inFlight.delete(key);
+				return Fiber.interrupt(shared.fiber);
+			}),
+		);
+	});
+
+/**
+ * Configuration options for the fetcher utility.
+ */
+export interface FetcherOptions<T = unknown> {
+	/** Number of times to retry the request on failure (shorthand for `retry.retries`) */
+	retries?: number;
+	/** Delay in milliseconds before the first retry (shorthand for `retry.baseDelay`) */
+	retryDelay?: number;
+	/** Full retry policy; takes precedence over `retries` and `retryDelay` */
+	retry?: RetryPolicy;
+	/** Optional callback invoked once with the final error */
+	onError?: (error: FetcherError | ValidationError) => void;
+	/** Timeout in milliseconds for each attempt */
+	timeout?: number;
+	/** How the response body is read (defaults to `json`, or `none` for HEAD) */
+	responseType?: ResponseType;
+	/** Additional headers to include in the request */
+	headers?: Record<string, string>;
+	/** Effect Schema or Standard Schema for runtime validation of the response */
+	schema?: ResponseSchema<T>;
+	/** Abortsignal */
+	signal?: AbortSignal;
+	/**
+	 * Share one request between concurrent identical calls (same method, URL,
+	 * query and headers) and briefly memoize its result. Requests with a body
+	 * are never coalesced. The first caller's retry policy and timeout apply.
+	 */
+	dedupe?: boolean | DedupeOptions;
+	/**
+	 * Queue every attempt on a shared limiter: `true` uses the rule defined for
+	 * the URL's host, a string names the limiter key explicitly.
+	 */
+	rateLimit?: boolean | string;
 }
 
 // --- Overloaded function signatures for type safety with effect/Schema ---
 
+const tracer = trace.getTracer("effect-schema-fetcher");
+
+/**
+ * Ends a fetcher span from an Effect exit, recording the error tag, HTTP
+ * status and validation outcome of failures.
+ */
+const endSpan = (
+	span: Span,
+	exit: Exit.Exit<unknown, FetcherError | ValidationError>,
+): void => {
+	if (Exit.isFailure(exit)) {
+		const error = exit.cause._tag === "Fail" ? exit.cause.error : undefined;
+		if (error) {
+			span.setAttribute("error.type", error._tag);
+			if (error._tag === "HttpError") {
+				span.setAttribute("http.response.status_code", error.status);
+			}
+			if (error._tag === "ValidationError") {
+				span.setAttribute("fetcher.validation", "failed");
+			}
+		}
+		span.setStatus({
+			code: SpanStatusCode.ERROR,
+			message: error?.message ?? "interrupted",
+		});
+	}
+	span.end();
+};
+
 /**
  * Performs a GET request with optional schema validation.
  */
@@ -230,15 +541,15 @@ export function fetcher<T = unknown>(
 ): Effect.Effect<T, FetcherError | ValidationError, HttpClient.HttpClient>;
 
 /**
- * Performs a GET request with Effect schema validation and automatic type inference.
+ * Performs a GET request with schema validation and automatic type inference.
  */
-export function fetcher<S extends Schema.Schema<any, any, never>>(
+export function fetcher<S extends ResponseSchema>(
 	input: string,
 	method: "GET",
-	options: FetcherOptions<Schema.Schema.Type<S>> & { schema: S },
+	options: FetcherOptions<SchemaType<S>> & { schema: S },
 	params?: QueryParams,
 ): Effect.Effect<
-	Schema.Schema.Type<S>,
+	SchemaType<S>,
 	FetcherError | ValidationError,
 	HttpClient.HttpClient
 >;
@@ -255,16 +566,16 @@ export function fetcher<T = unknown>(
 ): Effect.Effect<T, FetcherError | ValidationError, HttpClient.HttpClient>;
 
 /**
- * Performs a POST, PUT, or PATCH request with Effect schema validation and automatic type inference.
+ * Performs a POST, PUT, or PATCH request with schema validation and automatic type inference.
  */
-export function fetcher<S extends Schema.Schema<any, any, never>>(
+export function fetcher<S extends ResponseSchema>(
 	input: string,
 	method: "POST" | "PUT" | "PATCH",
-	options: FetcherOptions<Schema.Schema.Type<S>> & { schema: S },
+	options: FetcherOptions<SchemaType<S>> & { schema: S },
 	params?: QueryParams,
 	body?: RequestBody,
 ): Effect.Effect<
-	Schema.Schema.Type<S>,
+	SchemaType<S>,
 	FetcherError | ValidationError,
 	HttpClient.HttpClient
 >;
@@ -280,13 +591,16 @@ export function fetcher<T = unknown>(
 ): Effect.Effect<T, FetcherError | ValidationError, HttpClient.HttpClient>;
 
 /**
- * Enhanced data fetching utility with type safety, Effect Schema validation, and Effect-based error handling.
- * Supports retries, timeouts, custom headers, runtime validation, and error handling.
+ * Enhanced data fetching utility with type safety, schema validation, and Effect-based error handling.
+ * Supports retry policies, timeouts, custom headers, runtime validation, and error handling.
+ *
+ * Failures are tagged errors, so callers can recover selectively with
+ * `Effect.catchTag("HttpError", ...)`.
  *
  * @template T
  * @param input The URL to request
  * @param method The HTTP method to use
- * @param options Optional fetcher configuration including Effect Schema
+ * @param options Optional fetcher configuration including the schema and retry policy
  * @param params Optional query parameters
  * @param body Optional request body (for methods that support it)
  * @returns An Effect that resolves to the validated response data of type T
@@ -303,17 +617,19 @@ export function fetcher<T = unknown>(
  *
  * const effect = pipe(
  *   get("/api/user/123", {
- *     retries: 1,
- *     retryDelay: 1_000,
  *     timeout: 10_000,
  *     schema: UserSchema,
- *     onError: (error) => {
- *       if (error instanceof ValidationError) {
- *         console.error("Validation failed:", error.getProblemsString())
- *       }
- *     }
+ *     retry: {
+ *       retries: 3,
+ *       baseDelay: 500,
+ *       onRetry: ({ attempt, delay, error }) =>
+ *         console.warn(`Attempt ${attempt} failed (${error._tag}), retrying in ${delay}ms`)
+ *     },
  *   }),
- *   Effect.provide(HttpClient.layer)
+ *   Effect.catchTag("HttpError", (error) =>
+ *     error.status === 404 ? Effect.succeed(null) : Effect.fail(error)
+ *   ),
+ *   Effect.provide(FetchHttpClient.layer)
  * )
  * ```
  */
@@ -325,13 +641,23 @@ export function fetcher<T = unknown>(
 	body?: RequestBody,
 ): Effect.Effect<T, FetcherError | ValidationError, HttpClient.HttpClient> {
 	const {
-		retries = 0,
-		retryDelay = 1_000,
 		onError,
 		timeout = 10_000,
 		headers = {},
 		schema,
+		responseType = method === "HEAD" ? "none" : "json",
 	} = options;
+	const {
+		retries = options.retries ?? 0,
+		baseDelay = options.retryDelay ?? 1_000,
+		maxDelay = 30_000,
+		factor = 2,
+		jitter = true,
+		shouldRetry = defaultShouldRetry,
+		respectRetryAfter = true,
+		onAttempt,
+		onRetry,
+	} = options.retry ?? {};
 
 	/**
 	 * Builds a query string from the provided query parameters.
@@ -357,6 +683,9 @@ export function fetcher<T = unknown>(
 
 	const url = params ? `${input}?${buildQueryString(params)}` : input;
 
+	// Spans are parented to whatever span is active where the request is built
+	const parentContext = otelContext.active();
+
 	/**
 	 * Builds a type-safe HttpClientRequest for the given method and URL.
 	 */
@@ -383,7 +712,7 @@ export function fetcher<T = unknown>(
 	};
 
 	/**
-	 * Validates response data using the provided Effect schema.
+	 * Validates response data using the provided Effect Schema or Standard Schema.
 	 */
 	const validateResponse = (
 		data: unknown,
@@ -393,28 +722,188 @@ export function fetcher<T = unknown>(
 			return Effect.succeed(data as T);
 		}
 
-		const result = Schema.decodeUnknownEither(schema)(data);
-
-		if (result._tag === "Left") {
-			const problems = ParseResult.TreeFormatter.formatIssueSync(result.left.issue);
-			const validationError = new ValidationError(
-				"Response validation failed",
+		const invalid = (problems: string) =>
+			new ValidationError({
+				message: "Response validation failed",
 				url,
+				attempt,
 				problems,
-				data,
+				responseData: data,
+			});
+
+		if (!isStandardSchema(schema)) {
+			const result = Schema.decodeUnknownEither(schema)(data);
+			return result._tag === "Left"
+				? Effect.fail(
+						invalid(
+							ParseResult.TreeFormatter.formatIssueSync(result.left.issue),
+						),
+					)
+				: Effect.succeed(result.right as T);
+		}
+
+		return pipe(
+			Effect.promise(async () => schema["~standard"].validate(data)),
+			Effect.flatMap((result) =>
+				result.issues
+					? Effect.fail(
+							invalid(
+								result.issues
+									.map((issue) => {
+										const path = (issue.path ?? [])
+											.map((p) => String(typeof p === "object" ? p.key : p))
+											.join(".");
+										return path ? `${path}: ${issue.message}` : issue.message;
+									})
+									.join("\n"),
+							),
+						)
+					: Effect.succeed(result.value as T),
+			),
+		);
+	};
+
+	/**
+	 * Reads a 2xx response body according to `responseType`.
+	 */
+	const decodeBody = (
+		response: HttpClientResponse.HttpClientResponse,
+		attempt: number,
+	): Effect.Effect<unknown, DecodeError, never> => {
+		const contentType = response.headers["content-type"];
+		const readFailed = (error: { message: string }) =>
+			new DecodeError({
+				message: `Failed to read response body: ${error.message}`,
+				url,
 				attempt,
-			);
+				status: response.status,
+				contentType,
+				cause: error,
+			});
+		const parseFailed = (text: string, error: unknown, what: string) =>
+			new DecodeError({
+				message: `Failed to parse ${what} response. Status: ${response.status}, Content-Type: ${contentType || "unknown"}, Body: ${text.slice(0, 200)}${text.length > 200 ? "..." : ""}`,
+				url,
+				attempt,
+				status: response.status,
+				contentType,
+				bodySnippet: text.slice(0, 200),
+				cause: error,
+			});
+
+		switch (responseType) {
+			case "none":
+				return Effect.succeed(undefined);
+			case "text":
+				return Effect.mapError(response.text, readFailed);
+			case "arrayBuffer":
+				return Effect.mapError(response.arrayBuffer, readFailed);
+			case "blob":
+				return pipe(
+					response.arrayBuffer,
+					Effect.map((buffer) => new Blob([buffer], { type: contentType })),
+					Effect.mapError(readFailed),
+				);
+			case "stream":
+				return Effect.succeed(Stream.mapError(response.stream, readFailed));
+			case "ndjson":
+				return pipe(
+					response.text,
+					Effect.mapError(readFailed),
+					Effect.flatMap((text) =>
+						Effect.try({
+							try: () =>
+								text
+									.split("\n")
+									.filter((line) => line.trim() !== "")
+									.map((line) => JSON.parse(line)),
+							catch: (error) => parseFailed(text, error, "NDJSON"),
+						}),
+					),
+				);
+			case "json":
+				return pipe(
+					response.text,
+					Effect.mapError(readFailed),
+					Effect.flatMap((text) =>
+						Effect.try({
+							try: () => (text === "" ? undefined : JSON.parse(text)),
+							catch: (error) => parseFailed(text, error, "JSON"),
+						}),
+					),
+				);
+		}
+	};
 
-			if (onError) onError(validationError);
-			return Effect.fail(validationError);
+	/**
+	 * Encodes the request body: FormData, URLSearchParams and bytes as-is,
+	 * everything else as JSON.
+	 */
+	const encodeBody = (
+		req: HttpClientRequest.HttpClientRequest,
+		body: RequestBody,
+	) => {
+		const contentType =
+			Object.entries(headers).find(
+				([key]) => key.toLowerCase() === "content-type",
+			)?.[1] ?? "application/octet-stream";
+
+		if (body instanceof FormData) {
+			return Effect.succeed(HttpClientRequest.bodyFormData(req, body));
+		}
+		if (body instanceof URLSearchParams) {
+			return Effect.succeed(HttpClientRequest.bodyUrlParams(req, body));
+		}
+		if (body instanceof Uint8Array) {
+			return Effect.succeed(
+				HttpClientRequest.bodyUint8Array(req, body, contentType),
+			);
+		}
+		if (body instanceof ArrayBuffer) {
+			return Effect.succeed(
+				HttpClientRequest.bodyUint8Array(
+					req,
+					new Uint8Array(body),
+					contentType,
+				),
+			);
+		}
+		if (body instanceof Blob) {
+			return pipe(
+				Effect.promise(() => body.arrayBuffer()),
+				Effect.map((buffer) =>
+					HttpClientRequest.bodyUint8Array(
+						req,
+						new Uint8Array(buffer),
+						body.type || contentType,
+					),
+				),
+			);
 		}
+		return HttpClientRequest.bodyJson(req, body);
+	};
 
-		return Effect.succeed(result.right as T);
+	/**
+	 * Computes the wait before the next attempt: exponential backoff with
+	 * optional jitter, or the server's `Retry-After` when present.
+	 */
+	const delayFor = (
+		error: FetcherError | ValidationError,
+		attempt: number,
+	): number => {
+		if (
+			respectRetryAfter &&
+			error._tag === "HttpError" &&
+			error.retryAfter !== undefined
+		) {
+			return Math.min(error.retryAfter, maxDelay);
+		}
+		const backoff = Math.min(baseDelay * factor ** (attempt - 1), maxDelay);
+		return jitter ? Math.round(backoff * (0.5 + Math.random() * 0.5)) : backoff;
 	};
 
 	return Effect.gen(function* () {
 		const client = yield* HttpClient.HttpClient;
-		let attempt = 0;
 
 		// Build the request object
 		let req = buildRequest(method, url);
@@ -426,150 +915,188 @@ export function fetcher<T = unknown>(
 			(method === "POST" || method === "PUT" || method === "PATCH")
 		) {
 			req = yield* pipe(
-				HttpClientRequest.bodyJson(body)(req),
+				encodeBody(req, body),
 				Effect.mapError(
 					(error) =>
-						new FetcherError(
-							`Failed to serialize request body: ${error instanceof Error ? error.message : String(error)}`,
+						new NetworkError({
+							message: `Failed to serialize request body: ${error instanceof Error ? error.message : String(error)}`,
 							url,
-							undefined,
-							undefined,
-							attempt,
-						),
+							attempt: 0,
+							cause: error,
+						}),
 				),
 			);
 		}
 
+		// One client span for the whole call, with a child span per attempt, so
+		// a trace shows retries, their statuses and schema failures. The query
+		// string is left out since it can carry API keys.
+		const target = new URL(
+			url,
+			globalThis.location?.href ?? "http://localhost",
+		);
+		const spanAttributes = {
+			"http.request.method": method,
+			"server.address": target.hostname,
+			"url.path": target.pathname,
+		};
+		const callSpan = tracer.startSpan(
+			`${method} ${target.host}`,
+			{ kind: SpanKind.CLIENT, attributes: spanAttributes },
+			parentContext,
+		);
+		const callContext = trace.setSpan(parentContext, callSpan);
+
 		/**
-		 * Wraps an Effect with a timeout, converting timeout errors to FetcherError.
+		 * Executes a single attempt: sends the request, maps transport errors,
+		 * checks the status, parses the body and validates it.
 		 */
-		const withTimeout = <A, E, R>(
-			eff: Effect.Effect<A, E, R>,
-		): Effect.Effect<A, FetcherError | E, R> =>
-			pipe(
-				eff,
-				Effect.timeoutFail({
-					duration: Duration.millis(timeout),
-					onTimeout: () =>
-						new FetcherError(
-							"Request timed out",
+		const executeRequest = (attempt: number, span: Span) =>
+			Effect.gen(function* () {
+				onAttempt?.({ url, method, attempt });
+
+				// Execute the HTTP request and handle network/transport errors
+				const response = yield* pipe(
+					client.execute(req),
+					Effect.mapError(
+						(error) =>
+							new NetworkError({
+								message: error.message,
+								url,
+								attempt,
+								cause: error,
+							}),
+					),
+					Effect.timeoutFail({
+						duration: Duration.millis(timeout),
+						onTimeout: () =>
+							new TimeoutError({
+								message: `Request timed out after ${timeout}ms`,
+								url,
+								attempt,
+								timeout,
+							}),
+					}),
+				);
+
+				span.setAttribute("http.response.status_code", response.status);
+
+				// Check for HTTP errors (non-2xx status codes)
+				if (response.status < 200 || response.status >= 300) {
+					const text = yield* pipe(
+						response.text,
+						Effect.orElseSucceed(() => ""),
+					);
+					let responseData: unknown = text || undefined;
+					try {
+						responseData = text ? JSON.parse(text) : undefined;
+					} catch {
+						// Keep the raw text
+					}
+
+					return yield* Effect.fail(
+						new HttpError({
+							message: `HTTP ${response.status}: ${text.slice(0, 200) || "Request failed"}`,
 							url,
-							undefined,
-							undefined,
 							attempt,
-						),
-				}),
-			);
+							status: response.status,
+							responseData,
+							headers: response.headers,
+							retryAfter: parseRetryAfter(response.headers["retry-after"]),
+						}),
+					);
+				}
 
-		// Retry schedule with exponential backoff and maximum number of retries
-		const retrySchedule = Schedule.intersect(
-			Schedule.exponential(Duration.millis(retryDelay)),
-			Schedule.recurs(retries),
-		);
+				// Read the body according to responseType, reporting it on failure
+				const rawData = yield* decodeBody(response, attempt);
+
+				// Streams are handed over unread, so there is nothing to validate
+				if (responseType === "stream") return rawData as T;
+
+				// Validate the response data if a schema was provided
+				const data = yield* validateResponse(rawData, attempt);
+				span.setAttribute("fetcher.validation", schema ? "passed" : "skipped");
+				return data;
+			});
 
 		/**
-		 * Executes the HTTP request, handling errors, HTTP status, response parsing, and validation.
+		 * Runs one attempt inside its own span.
 		 */
-		const executeRequest = Effect.gen(function* () {
-			attempt++;
-
-			// Execute the HTTP request and handle network/transport errors
-			const response = yield* pipe(
-				client.execute(req),
-				withTimeout,
-				Effect.mapError((error) => {
-					if (error instanceof FetcherError) return error;
-
-					return new FetcherError(
-						error instanceof Error ? error.message : String(error),
-						url,
-						undefined,
-						undefined,
-						attempt,
-					);
-				}),
-			);
-
-			// Check for HTTP errors (non-2xx status codes)
-			if (response.status < 200 || response.status >= 300) {
-				const errorData = yield* pipe(
-					response.json,
-					Effect.catchAll(() => Effect.succeed(undefined)),
+		const tracedAttempt = (attempt: number) =>
+			Effect.suspend(() => {
+				callSpan.setAttribute("fetcher.attempts", attempt);
+				const span = tracer.startSpan(
+					`${method} ${target.host} attempt ${attempt}`,
+					{
+						kind: SpanKind.CLIENT,
+						attributes: { ...spanAttributes, "fetcher.attempt": attempt },
+					},
+					callContext,
 				);
-
-				const error = new FetcherError(
-					`HTTP ${response.status}: ${response.text || "Request failed"}`,
-					url,
-					response.status,
-					errorData,
-					attempt,
+				return pipe(
+					executeRequest(attempt, span),
+					Effect.onExit((exit) => Effect.sync(() => endSpan(span, exit))),
 				);
+			});
 
-				if (onError) onError(error);
-				return yield* Effect.fail(error);
-			}
+		const limiterKey =
+			options.rateLimit === true
+				? rateLimitKey(url)
+				: options.rateLimit || undefined;
 
-			// Parse response data as JSON, with fallback to text and detailed error reporting
-			const rawData = yield* pipe(
-				response.json,
+		/**
+		 * Runs attempts until one succeeds, the policy declines, or retries run out.
+		 */
+		const withRetries = (
+			attempt: number,
+		): Effect.Effect<T, FetcherError | ValidationError, never> =>
+			pipe(
+				limiterKey
+					? withRateLimit(limiterKey, tracedAttempt(attempt))
+					: tracedAttempt(attempt),
 				Effect.catchAll((error) => {
-					// Try to get response text for better debugging
+					if (attempt > retries || !shouldRetry(error, attempt)) {
+						return Effect.fail(error);
+					}
+					const delay = delayFor(error, attempt);
+					callSpan.addEvent("retry", {
+						"fetcher.attempt": attempt,
+						"fetcher.retry_delay_ms": delay,
+						"error.type": error._tag,
+					});
+					onRetry?.({ url, method, attempt, error, delay });
 					return pipe(
-						response.text,
-						Effect.flatMap((text) => {
-							const errorMessage = `Failed to parse JSON response. Status: ${response.status}, Content-Type: ${response.headers["Content-Type"] || "unknown"}, Body: ${text.slice(0, 200)}${text.length > 200 ? "..." : ""}`;
-							return Effect.fail(
-								new FetcherError(
-									errorMessage,
-									url,
-									response.status,
-									{ originalError: error, responseText: text },
-									attempt,
-								),
-							);
-						}),
-						Effect.catchAll(() =>
-							Effect.fail(
-								new FetcherError(
-									`Failed to parse response: ${error instanceof Error ? error.message : String(error)}`,
-									url,
-									response.status,
-									undefined,
-									attempt,
-								),
-							),
-						),
+						Effect.sleep(Duration.millis(delay)),
+						Effect.zipRight(Effect.suspend(() => withRetries(attempt + 1))),
 					);
 				}),
 			);
 
-			// Validate the response data using Effect Schema if provided
-			const validatedData = yield* validateResponse(rawData, attempt);
-
-			return validatedData;
-		});
+		const dedupe =
+			options.dedupe && body == null
+				? options.dedupe === true
+					? {}
+					: options.dedupe
+				: undefined;
+		const shared = dedupe
+			? coalesce(
+					dedupe.key ??
+						JSON.stringify([
+							method,
+							url,
+							Object.entries(headers)
+								.map(([k, v]) => [k.toLowerCase(), v])
+								.sort(([a], [b]) => a.localeCompare(b)),
+						]),
+					dedupe.ttl ?? 1_000,
+					withRetries(1),
+				)
+			: withRetries(1);
 
-		// Run the request with retry and error handling
 		return yield* pipe(
-			executeRequest,
-			Effect.retry(retrySchedule),
-			Effect.catchAll((error) => {
-				if (error instanceof FetcherError || error instanceof ValidationError) {
-					if (onError) onError(error);
-					return Effect.fail(error);
-				}
-
-				const fetcherError = new FetcherError(
-					String(error),
-					url,
-					undefined,
-					undefined,
-					attempt,
-				);
-
-				if (onError) onError(fetcherError);
-				return Effect.fail(fetcherError);
-			}),
+			shared,
+			Effect.tapError((error) => Effect.sync(() => onError?.(error))),
+			Effect.onExit((exit) => Effect.sync(() => endSpan(callSpan, exit))),
 		);
 	});
 }
@@ -597,12 +1124,12 @@ export function get<T = unknown>(
 	params?: QueryParams,
 ): Effect.Effect<T, FetcherError | ValidationError, HttpClient.HttpClient>;
 
-export function get<S extends Schema.Schema<any, any, never>>(
+export function get<S extends ResponseSchema>(
 	url: string,
-	options: FetcherOptions<Schema.Schema.Type<S>> & { schema: S },
+	options: FetcherOptions<SchemaType<S>> & { schema: S },
 	params?: QueryParams,
 ): Effect.Effect<
-	Schema.Schema.Type<S>,
+	SchemaType<S>,
 	FetcherError | ValidationError,
 	HttpClient.HttpClient
 >;
@@ -625,13 +1152,13 @@ export function post<T = unknown>(
 	params?: QueryParams,
 ): Effect.Effect<T, FetcherError | ValidationError, HttpClient.HttpClient>;
 
-export function post<S extends Schema.Schema<any, any, never>>(
+export function post<S extends ResponseSchema>(
 	url: string,
 	body: RequestBody,
-	options: FetcherOptions<Schema.Schema.Type<S>> & { schema: S },
+	options: FetcherOptions<SchemaType<S>> & { schema: S },
 	params?: QueryParams,
 ): Effect.Effect<
-	Schema.Schema.Type<S>,
+	SchemaType<S>,
 	FetcherError | ValidationError,
 	HttpClient.HttpClient
 >;
@@ -655,13 +1182,13 @@ export function put<T = unknown>(
 	params?: QueryParams,
 ): Effect.Effect<T, FetcherError | ValidationError, HttpClient.HttpClient>;
 
-export function put<S extends Schema.Schema<any, any, never>>(
+export function put<S extends ResponseSchema>(
 	url: string,
 	body: RequestBody,
-	options: FetcherOptions<Schema.Schema.Type<S>> & { schema: S },
+	options: FetcherOptions<SchemaType<S>> & { schema: S },
 	params?: QueryParams,
 ): Effect.Effect<
-	Schema.Schema.Type<S>,
+	SchemaType<S>,
 	FetcherError | ValidationError,
 	HttpClient.HttpClient
 >;
@@ -685,13 +1212,13 @@ export function patch<T = unknown>(
 	params?: QueryParams,
 ): Effect.Effect<T, FetcherError | ValidationError, HttpClient.HttpClient>;
 
-export function patch<S extends Schema.Schema<any, any, never>>(
+export function patch<S extends ResponseSchema>(
 	url: string,
 	body: RequestBody,
-	options: FetcherOptions<Schema.Schema.Type<S>> & { schema: S },
+	options: FetcherOptions<SchemaType<S>> & { schema: S },
 	params?: QueryParams,
 ): Effect.Effect<
-	Schema.Schema.Type<S>,
+	SchemaType<S>,
 	FetcherError | ValidationError,
 	HttpClient.HttpClient
 >;
@@ -714,12 +1241,12 @@ export function del<T = unknown>(
 	params?: QueryParams,
 ): Effect.Effect<T, FetcherError | ValidationError, HttpClient.HttpClient>;
 
-export function del<S extends Schema.Schema<any, any, never>>(
+export function del<S extends ResponseSchema>(
 	url: string,
-	options: FetcherOptions<Schema.Schema.Type<S>> & { schema: S },
+	options: FetcherOptions<SchemaType<S>> & { schema: S },
 	params?: QueryParams,
 ): Effect.Effect<
-	Schema.Schema.Type<S>,
+	SchemaType<S>,
 	FetcherError | ValidationError,
 	HttpClient.HttpClient
 >;
@@ -741,12 +1268,12 @@ export function options<T = unknown>(
 	params?: QueryParams,
 ): Effect.Effect<T, FetcherError | ValidationError, HttpClient.HttpClient>;
 
-export function options<S extends Schema.Schema<any, any, never>>(
+export function options<S extends ResponseSchema>(
 	url: string,
-	options: FetcherOptions<Schema.Schema.Type<S>> & { schema: S },
+	options: FetcherOptions<SchemaType<S>> & { schema: S },
 	params?: QueryParams,
 ): Effect.Effect<
-	Schema.Schema.Type<S>,
+	SchemaType<S>,
 	FetcherError | ValidationError,
 	HttpClient.HttpClient
 >;
@@ -768,12 +1295,12 @@ export function head<T = unknown>(
 	params?: QueryParams,
 ): Effect.Effect<T, FetcherError | ValidationError, HttpClient.HttpClient>;
 
-export function head<S extends Schema.Schema<any, any, never>>(
+export function head<S extends ResponseSchema>(
 	url: string,
-	options: FetcherOptions<Schema.Schema.Type<S>> & { schema: S },
+	options: FetcherOptions<SchemaType<S>> & { schema: S },
 	params?: QueryParams,
 ): Effect.Effect<
-	Schema.Schema.Type<S>,
+	SchemaType<S>,
 	FetcherError | ValidationError,
 	HttpClient.HttpClient
 >;
@@ -845,4 +1372,4 @@ export const createApiResponseSchema = <T, I>(
 		message: Schema.optional(Schema.String),
 		errors: Schema.optional(Schema.Array(Schema.String)),
 	});
-};
\ No newline at end of file
+};
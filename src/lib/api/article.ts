@@ -14,81 +14,25 @@
  * limitations under the License.
  */
 
+import { FetchHttpClient } from "@effect/platform";
 import { type } from "arktype";
-
-const PaginationInfo = type({
-	limit: "number",
-	offset: "number",
-	count: "number",
-	total: "number",
-});
-
-const NewsArticle = type({
-	author: "string | null",
-	title: "string",
-	description: "string | null",
-	url: "string",
-	source: "string",
-	image: "string | null",
-	category: "string",
-	language: "string",
-	country: "string",
-	published_at: "string",
-});
-
-const NewsSource = type({
-	id: "string",
-	name: "string",
-	category: "string",
-	country: "string",
-	language: "string",
-	url: "string",
-});
-
-const NewsResponse = type({
-	pagination: PaginationInfo,
-	data: NewsArticle.array(),
-});
-
-const SourcesResponse = type({
-	pagination: PaginationInfo,
-	data: NewsSource.array(),
-});
-
-const APIError = type({
-	error: {
-		code: "string",
-		message: "string",
-		"context?": "Record<string, string[]>",
-	},
-});
-
-const NewsCategory = type(
-	"'general' | 'business' | 'entertainment' | 'health' | 'science' | 'sports' | 'technology'",
-);
-
-const SortOption = type("'published_desc' | 'popularity'");
-
-const NewsRequestParams = type({
-	"sources?": "string",
-	"categories?": "string",
-	"countries?": "string",
-	"languages?": "string",
-	"keywords?": "string",
-	"date?": "string",
-	"sort?": SortOption,
-	"limit?": "number",
-	"offset?": "number",
-});
-
-const SourcesRequestParams = type({
-	"search?": "string",
-	"countries?": "string",
-	"languages?": "string",
-	"categories?": "string",
-	"limit?": "number",
-	"offset?": "number",
-});
+import { Effect, pipe } from "effect";
+import { getServerConfig } from "@/config/server";
+import {
+	defineRateLimit,
+	rateLimitStats,
+	resetRateLimitStats,
+} from "@/effect-rate-limiter";
+import { get, HttpError } from "@/effect-schema-fetcher";
+import { MEDIASTACK_HOST, MEDIASTACK_RATE_LIMITS } from "./rate-limits";
+import {
+	APIError,
+	NewsCategory,
+	NewsRequestParams,
+	NewsResponse,
+	SourcesRequestParams,
+	SourcesResponse,
+} from "./schemas/article";
 
 const ConstructorOptions = type({
 	"minRequestInterval?": "number",
@@ -96,24 +40,11 @@ const ConstructorOptions = type({
 	"isFreePlan?": "boolean",
 });
 
-type PaginationInfo = typeof PaginationInfo.infer;
-type NewsArticle = typeof NewsArticle.infer;
-type NewsSource = typeof NewsSource.infer;
-type NewsResponse = typeof NewsResponse.infer;
-type SourcesResponse = typeof SourcesResponse.infer;
-type APIError = typeof APIError.infer;
-type NewsCategory = typeof NewsCategory.infer;
-type SortOption = typeof SortOption.infer;
-type NewsRequestParams = typeof NewsRequestParams.infer;
-type SourcesRequestParams = typeof SourcesRequestParams.infer;
 type ConstructorOptions = typeof ConstructorOptions.infer;
 
 class MediastackAPI {
 	private readonly apiKey: string;
-	private readonly baseUrl: string = "https://api.mediastack.com/v1";
-	private lastRequestTime: number = 0;
-	private readonly minRequestInterval: number;
-	private requestCount: number = 0;
+	private readonly baseUrl: string = `https://${MEDIASTACK_HOST}/v1`;
 	private readonly maxRequestsPerMinute: number;
 
 	constructor(apiKey?: string, options?: ConstructorOptions) {
@@ -126,7 +57,7 @@ class MediastackAPI {
 			}
 		}
 
-		this.apiKey = apiKey || import.meta.env.VITE_ARTICLE_API_KEY || "";
+		this.apiKey = apiKey || getServerConfig().keys.mediastack || "";
 		if (!this.apiKey) {
 			throw new Error(
 				"API key is required. Set ARTICLE_API_KEY environment variable or pass it to constructor.",
@@ -137,10 +68,17 @@ class MediastackAPI {
 
 		// Free plan: be more conservative with rate limits
 		// Paid plans: allow more frequent requests
-		this.minRequestInterval =
-			options?.minRequestInterval ?? (isFreePlan ? 2000 : 500);
-		this.maxRequestsPerMinute =
-			options?.maxRequestsPerMinute ?? (isFreePlan ? 25 : 100);
+		const plan = MEDIASTACK_RATE_LIMITS[isFreePlan ? "free" : "paid"];
+		this.maxRequestsPerMinute = options?.maxRequestsPerMinute ?? plan.limit;
+
+		// Every Mediastack client shares the host limiter; custom options replace its rule
+		if (options) {
+			defineRateLimit(MEDIASTACK_HOST, {
+				...plan,
+				limit: this.maxRequestsPerMinute,
+				minInterval: options.minRequestInterval ?? plan.minInterval,
+			});
+		}
 	}
 
 	private buildUrl(endpoint: string, params: Record<string, any>): string {
@@ -156,37 +94,27 @@ class MediastackAPI {
 		return url.toString();
 	}
 
-	private async rateLimitDelay(): Promise<void> {
-		const now = Date.now();
-		const timeSinceLastRequest = now - this.lastRequestTime;
-
-		if (timeSinceLastRequest < this.minRequestInterval) {
-			const delayTime = this.minRequestInterval - timeSinceLastRequest;
-			console.log(
-				`Rate limiting: waiting ${delayTime}ms before next request...`,
-			);
-			await new Promise((resolve) => setTimeout(resolve, delayTime));
-		}
-
-		this.lastRequestTime = Date.now();
-		this.requestCount++;
-	}
-
 	private async makeRequest<T>(
 		endpoint: string,
 		params: Record<string, any> = {},
 		responseSchema: any,
 	): Promise<T> {
-		await this.rateLimitDelay();
-
 		const url = this.buildUrl(endpoint, params);
 
 		try {
-			const response = await fetch(url);
-			const data = await response.json();
+			// Queued on the shared Mediastack limiter (see rate-limits.ts)
+			const outcome = await Effect.runPromise(
+				pipe(
+					get<unknown>(url, { rateLimit: true }),
+					Effect.provide(FetchHttpClient.layer),
+					Effect.either,
+				),
+			);
 
-			if (!response.ok) {
-				const errorValidation = APIError(data);
+			if (outcome._tag === "Left") {
+				if (!(outcome.left instanceof HttpError)) throw outcome.left;
+
+				const errorValidation = APIError(outcome.left.responseData);
 				if (errorValidation instanceof type.errors) {
 					throw new Error(
 						`Invalid API error response format: ${errorValidation.summary}`,
@@ -223,6 +151,7 @@ class MediastackAPI {
 				);
 			}
 
+			const data = outcome.right;
 			const validationResult = responseSchema(data);
 			if (validationResult instanceof type.errors) {
 				console.warn(
@@ -234,7 +163,9 @@ class MediastackAPI {
 				return data as T;
 			}
 
-			console.log(`✅ Request successful (${this.requestCount} requests made)`);
+			console.log(
+				`✅ Request successful (${this.getStats().requestCount} requests made)`,
+			);
 			return validationResult as T;
 		} catch (error) {
 			if (Error.isError(error)) {
@@ -403,10 +334,18 @@ class MediastackAPI {
 	/**
 	 * Get request statistics
 	 */
-	getStats(): { requestCount: number; lastRequestTime: number } {
+	getStats(): {
+		requestCount: number;
+		lastRequestTime: number;
+		queued: number;
+		active: number;
+	} {
+		const stats = rateLimitStats()[MEDIASTACK_HOST];
 		return {
-			requestCount: this.requestCount,
-			lastRequestTime: this.lastRequestTime,
+			requestCount: stats?.started ?? 0,
+			lastRequestTime: stats?.lastStartedAt ?? 0,
+			queued: stats?.queued ?? 0,
+			active: stats?.active ?? 0,
 		};
 	}
 
@@ -414,15 +353,14 @@ class MediastackAPI {
 	 * Reset request counter (useful for testing or monthly resets)
 	 */
 	resetStats(): void {
-		this.requestCount = 0;
-		this.lastRequestTime = 0;
+		resetRateLimitStats(MEDIASTACK_HOST);
 	}
 
 	/**
 	 * Check if we're approaching rate limits
 	 */
 	isApproachingRateLimit(): boolean {
-		return this.requestCount > this.maxRequestsPerMinute * 0.8; // 80% of limit
+		return this.getStats().requestCount > this.maxRequestsPerMinute * 0.8; // 80% of limit
 	}
 }
 
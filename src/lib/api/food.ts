@@ -14,153 +14,31 @@
  * limitations under the License.
  */
 
+import { FetchHttpClient } from "@effect/platform";
 import { type } from "arktype";
-
-const FoodNutrientDerivation = type({
-	id: "number",
-	code: "string",
-	description: "string",
-});
-
-const Nutrient = type({
-	id: "number",
-	number: "string",
-	name: "string",
-	rank: "number",
-	unitName: "string",
-});
-
-const FoodNutrient = type({
-	id: "number",
-	amount: "number",
-	nutrient: Nutrient,
-	"foodNutrientDerivation?": FoodNutrientDerivation,
-});
-
-const FoodAttribute = type({
-	id: "number",
-	sequenceNumber: "number",
-	value: "string",
-});
-
-const Food = type({
-	fdcId: "number",
-	description: "string",
-	dataType: "string",
-	publicationDate: "string",
-	"brandOwner?": "string",
-	"brandName?": "string",
-	"ingredients?": "string",
-	"marketCountry?": "string",
-	"foodCategory?": "string",
-	"modifiedDate?": "string",
-	"dataSource?": "string",
-	"packageWeight?": "string",
-	"servingSizeUnit?": "string",
-	"servingSize?": "number",
-	"householdServingFullText?": "string",
-	foodNutrients: FoodNutrient.array(),
-	"foodAttributes?": FoodAttribute.array(),
-});
-
-const AbridgedFoodNutrient = type({
-	nutrientId: "number",
-	nutrientName: "string",
-	nutrientNumber: "string",
-	unitName: "string",
-	value: "number",
-});
-
-const AbridgedFood = type({
-	fdcId: "number",
-	description: "string",
-	dataType: "string",
-	publicationDate: "string",
-	"brandOwner?": "string",
-	"gtinUpc?": "string",
-	"brandName?": "string",
-	"ingredients?": "string",
-	"marketCountry?": "string",
-	"foodCategory?": "string",
-	"modifiedDate?": "string",
-	"dataSource?": "string",
-	"packageWeight?": "string",
-	"servingSizeUnit?": "string",
-	"servingSize?": "number",
-	"householdServingFullText?": "string",
-	"shortDescription?": "string",
-	"tradeChannels?": "string[]",
-	"allHighlightFields?": "string",
-	"score?": "number",
-	"microbes?": "unknown[]",
-	foodNutrients: AbridgedFoodNutrient.array(),
-});
-
-const SearchCriteria = type({
-	query: "string",
-	dataType: "string[]",
-	pageSize: "number",
-	pageNumber: "number",
-	sortBy: "string",
-	sortOrder: "string",
-});
-
-const SearchAggregations = type({
-	"dataType?": "Record<string, number>",
-	"nutrients?": "Record<string, unknown>",
-});
-
-const SearchResult = type({
-	totalHits: "number",
-	currentPage: "number",
-	totalPages: "number",
-	pageList: "number[]",
-	foods: AbridgedFood.array(),
-	criteria: SearchCriteria,
-	"aggregations?": SearchAggregations,
-});
-
-const FoodsListResponse = type({
-	currentPage: "number",
-	totalHits: "number",
-	totalPages: "number",
-	foods: AbridgedFood.array(),
-});
-
-// API parameter schemas
-const DataType = type(
-	"'Branded' | 'Foundation' | 'Survey' | 'Legacy' | 'Survey (FNDDS)' | 'SR Legacy'",
-);
-
-const SortBy = type(
-	"'dataType.keyword' | 'lowercaseDescription.keyword' | 'fdcId' | 'publishedDate'",
-);
-
-const SortOrder = type("'asc' | 'desc'");
-
-const SearchOptions = type({
-	query: "string",
-	"dataType?": DataType.array(),
-	"pageSize?": "number",
-	"pageNumber?": "number",
-	"sortBy?": SortBy,
-	"sortOrder?": SortOrder,
-	"brandOwner?": "string",
-});
-
-const ListOptions = type({
-	"dataType?": DataType.array(),
-	"pageSize?": "number",
-	"pageNumber?": "number",
-	"sortBy?": SortBy,
-	"sortOrder?": SortOrder,
-});
-
-const FoodsOptions = type({
-	fdcIds: "number[]",
-	"format?": "'abridged' | 'full'",
-	"nutrients?": "number[]",
-});
+import { Effect, pipe } from "effect";
+import {
+	defaultShouldRetry,
+	type FetcherOptions,
+	get,
+	HttpError,
+	post,
+	type RequestBody,
+} from "@/effect-schema-fetcher";
+import { FDC_HOST } from "./rate-limits";
+import {
+	AbridgedFood,
+	DataType,
+	Food,
+	FoodNutrient,
+	FoodsListResponse,
+	FoodsOptions,
+	ListOptions,
+	SearchOptions,
+	SearchResult,
+	SortBy,
+	SortOrder,
+} from "./schemas/food";
 
 const FDCClientConfig = type({
 	apiKey: "string",
@@ -170,24 +48,6 @@ const FDCClientConfig = type({
 	"retryDelay?": "number",
 });
 
-// Type inference from ArkType schemas
-type FoodNutrientDerivation = typeof FoodNutrientDerivation.infer;
-type Nutrient = typeof Nutrient.infer;
-type FoodNutrient = typeof FoodNutrient.infer;
-type FoodAttribute = typeof FoodAttribute.infer;
-type Food = typeof Food.infer;
-type AbridgedFoodNutrient = typeof AbridgedFoodNutrient.infer;
-type AbridgedFood = typeof AbridgedFood.infer;
-type SearchCriteria = typeof SearchCriteria.infer;
-type SearchAggregations = typeof SearchAggregations.infer;
-type SearchResult = typeof SearchResult.infer;
-type FoodsListResponse = typeof FoodsListResponse.infer;
-type DataType = typeof DataType.infer;
-type SortBy = typeof SortBy.infer;
-type SortOrder = typeof SortOrder.infer;
-type SearchOptions = typeof SearchOptions.infer;
-type ListOptions = typeof ListOptions.infer;
-type FoodsOptions = typeof FoodsOptions.infer;
 type FDCClientConfig = typeof FDCClientConfig.infer;
 
 /**
@@ -254,101 +114,88 @@ export class FDCClient {
 		}
 
 		this.apiKey = validatedConfig.apiKey;
-		this.baseUrl = validatedConfig.baseUrl || "https://api.nal.usda.gov/fdc/v1";
+		this.baseUrl = validatedConfig.baseUrl || `https://${FDC_HOST}/fdc/v1`;
 		this.timeout = validatedConfig.timeout || 10_000; // 10 seconds
 		this.retryAttempts = validatedConfig.retryAttempts || 3;
 		this.retryDelay = validatedConfig.retryDelay || 1_000; // 1 second
 	}
 
 	/**
-	 * Makes HTTP requests with error handling, retries, and validation
+	 * Makes HTTP requests with error handling, retries, and validation.
+	 * Requests queue on the shared FDC host limiter (see rate-limits.ts) and are
+	 * retried by the fetcher on transport errors and 5xx.
 	 */
 	private async makeRequest<T>(
 		endpoint: string,
 		responseSchema: any,
-		options: RequestInit = {},
+		options: { method?: "GET" | "POST"; body?: RequestBody } = {},
 	): Promise<T> {
 		const url = `${this.baseUrl}${endpoint}`;
-		const controller = new AbortController();
-		const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-
-		const requestOptions: RequestInit = {
-			...options,
-			signal: controller.signal,
-			headers: {
-				"Content-Type": "application/json",
-				Accept: "application/json",
-				...options.headers,
+		const fetcherOptions: FetcherOptions = {
+			timeout: this.timeout,
+			headers: { Accept: "application/json" },
+			rateLimit: true,
+			retry: {
+				retries: this.retryAttempts - 1,
+				baseDelay: this.retryDelay,
+				// 429 blocks the key for an hour, so retrying only burns attempts
+				shouldRetry: (error) =>
+					defaultShouldRetry(error) &&
+					!(error instanceof HttpError && error.status === 429),
+				onRetry: ({ attempt, error }) =>
+					console.error(`Attempt ${attempt} failed:`, error.message),
 			},
 		};
 
-		let lastError: Error;
-
-		for (let attempt = 1; attempt <= this.retryAttempts; attempt++) {
-			try {
-				console.log(`Making request to: ${url}`);
-
-				const response = await fetch(url, requestOptions);
-				clearTimeout(timeoutId);
-
-				if (!response.ok) {
-					await this.handleHttpError(response);
-				}
-
-				const data = await response.json();
-				console.log(`Raw response received:`, JSON.stringify(data, null, 2)); // Debug log
-
-				// Validate response against schema
-				const validationResult = responseSchema(data);
-				if (validationResult instanceof type.errors) {
-					console.warn(
-						"⚠️ API response validation failed:",
-						validationResult.summary,
-					);
-					console.warn("Raw response:", JSON.stringify(data, null, 2));
-					// Continue with unvalidated data but log the issue
-					return data as T;
-				}
-
-				console.log("✅ Response validation successful");
-				return validationResult as T;
-			} catch (error) {
-				lastError = error as Error;
-
-				// Log the error for debugging
-				console.error(`Attempt ${attempt} failed:`, error);
+		console.log(`Making request to: ${url}`);
+
+		const outcome = await Effect.runPromise(
+			pipe(
+				options.method === "POST"
+					? post(url, options.body, fetcherOptions)
+					: get(url, fetcherOptions),
+				Effect.provide(FetchHttpClient.layer),
+				Effect.either,
+			),
+		);
+
+		if (outcome._tag === "Left") {
+			const error = outcome.left;
+			if (error instanceof HttpError) this.handleHttpError(error);
+			throw new FDCApiError(error.message, undefined, error);
+		}
 
-				if (
-					error instanceof FDCRateLimitError ||
-					error instanceof FDCAuthError ||
-					error instanceof FDCValidationError
-				)
-					throw error; // Don't retry on these errors
+		const data = outcome.right;
+		console.log(`Raw response received:`, JSON.stringify(data, null, 2)); // Debug log
 
-				if (attempt < this.retryAttempts) {
-					await this.delay(this.retryDelay * attempt);
-				}
-			}
+		// Validate response against schema
+		const validationResult = responseSchema(data);
+		if (validationResult instanceof type.errors) {
+			console.warn(
+				"⚠️ API response validation failed:",
+				validationResult.summary,
+			);
+			console.warn("Raw response:", JSON.stringify(data, null, 2));
+			// Continue with unvalidated data but log the issue
+			return data as T;
 		}
 
-		clearTimeout(timeoutId);
-		throw lastError!;
+		console.log("✅ Response validation successful");
+		return validationResult as T;
 	}
 
 	/**
 	 * Handle HTTP errors with appropriate error types
 	 */
-	private async handleHttpError(response: Response): Promise<never> {
-		let responseText = "";
-		try {
-			responseText = await response.text();
-		} catch (e) {
-			responseText = `Could not read response: ${e}`;
-		}
+	private handleHttpError(error: HttpError): never {
+		const responseText =
+			typeof error.responseData === "string"
+				? error.responseData
+				: JSON.stringify(error.responseData ?? "");
 
-		console.error(`HTTP Error ${response.status}: ${responseText}`); // Debug log
+		console.error(`HTTP Error ${error.status}: ${responseText}`); // Debug log
 
-		switch (response.status) {
+		switch (error.status) {
 			case 401:
 				throw new FDCAuthError("Invalid API key");
 			case 429:
@@ -373,20 +220,13 @@ export class FDCClient {
 				);
 			default:
 				throw new FDCApiError(
-					`HTTP ${response.status}: ${responseText}`,
-					response.status,
+					`HTTP ${error.status}: ${responseText}`,
+					error.status,
 					responseText,
 				);
 		}
 	}
 
-	/**
-	 * Utility method for delays
-	 */
-	private delay(ms: number): Promise<void> {
-		return new Promise((resolve) => setTimeout(resolve, ms));
-	}
-
 	/**
 	 * Validates FDC ID format
 	 */
@@ -505,7 +345,7 @@ export class FDCClient {
 
 		return this.makeRequest<Food[]>(endpoint, Food.array(), {
 			method: "POST",
-			body: JSON.stringify(body),
+			body,
 		});
 	}
 
@@ -598,7 +438,7 @@ export class FDCClient {
 
 		return this.makeRequest<SearchResult>(endpoint, SearchResult, {
 			method: "POST",
-			body: JSON.stringify(body),
+			body,
 		});
 	}
 
@@ -699,29 +539,29 @@ export function createFDCClient(
 }
 
 export {
-	// ArkType schemas for external validation
-	Food,
 	AbridgedFood,
-	FoodNutrient,
-	SearchResult,
-	FoodsListResponse,
-	SearchOptions,
-	ListOptions,
-	FoodsOptions,
+	type AbridgedFood as IAbridgedFood,
 	DataType,
-	SortBy,
-	SortOrder,
+	type DataType as IDataType,
+	type FDCClientConfig as IFDCClientConfig,
+	// ArkType schemas for external validation
+	Food,
 	// TypeScript types
 	type Food as IFood,
-	type AbridgedFood as IAbridgedFood,
+	FoodNutrient,
 	type FoodNutrient as IFoodNutrient,
-	type SearchResult as ISearchResult,
+	FoodsListResponse,
 	type FoodsListResponse as IFoodsListResponse,
-	type SearchOptions as ISearchOptions,
-	type ListOptions as IListOptions,
+	FoodsOptions,
 	type FoodsOptions as IFoodsOptions,
-	type DataType as IDataType,
+	ListOptions,
+	type ListOptions as IListOptions,
+	SearchOptions,
+	type SearchOptions as ISearchOptions,
+	SearchResult,
+	type SearchResult as ISearchResult,
+	SortBy,
 	type SortBy as ISortBy,
+	SortOrder,
 	type SortOrder as ISortOrder,
-	type FDCClientConfig as IFDCClientConfig,
 };
@@ -14,48 +14,32 @@
  * limitations under the License.
  */
 
-import { get } from "@/effect-schema-fetcher";
 import { FetchHttpClient } from "@effect/platform";
-import { type } from "arktype";
 import { Effect, pipe } from "effect";
+import { getServerConfig, requireKeys } from "@/config/server";
+import { get, type RetryPolicy } from "@/effect-schema-fetcher";
+import { Article, GNewsResponse } from "./schemas/gnews";
 
-// ArkType definitions for GNews API
-const Article = type({
-	title: "string",
-	description: "string",
-	content: "string",
-	url: "string",
-	image: "string",
-	publishedAt: "string",
-	source: {
-		name: "string",
-		url: "string",
-	},
-});
-
-const GNewsResponse = type({
-	totalArticles: "number",
-	articles: [Article, "[]"],
-});
-
-const GNewsError = type({
-	errors: "string[]",
-});
-
-// Infer TypeScript types from ArkType definitions
-type Article = typeof Article.infer;
-type GNewsResponse = typeof GNewsResponse.infer;
+// GNews answers 429 when the per-second limit is hit and sends Retry-After;
+// 403 means the daily quota is gone, which retrying cannot fix.
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+	retries: 2,
+	baseDelay: 500,
+	maxDelay: 5_000,
+	onRetry: ({ attempt, delay, error }) =>
+		console.warn(
+			`GNews attempt ${attempt} failed (${error._tag}), retrying in ${delay}ms`,
+		),
+};
 
 class GNewsAPI {
 	private apiKey: string;
 	private baseUrl: string = "https://gnews.io/api/v4";
+	private retryPolicy: RetryPolicy;
 
-	constructor() {
-		const apiKey = import.meta.env.VITE_GNEWS_API_KEY;
-		if (!apiKey) {
-			throw new Error("GNEWS_API_KEY environment variable is required");
-		}
-		this.apiKey = apiKey;
+	constructor(retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY) {
+		[this.apiKey] = requireKeys("GNews", ["gnews"], getServerConfig().keys);
+		this.retryPolicy = retryPolicy;
 	}
 
 	/**
@@ -76,7 +60,7 @@ class GNewsAPI {
 			const effect = pipe(
 				get(
 					`${this.baseUrl}/search`,
-					{ schema: GNewsResponse, retries: 1, retryDelay: 500 },
+					{ schema: GNewsResponse, retry: this.retryPolicy },
 					{
 						apikey: this.apiKey,
 						q: params.q,
@@ -125,8 +109,7 @@ class GNewsAPI {
 				`${this.baseUrl}/top-headlines`,
 				{
 					schema: GNewsResponse,
-					retries: 1,
-					retryDelay: 500,
+					retry: this.retryPolicy,
 					timeout: 10_000,
 				},
 				{
@@ -19,6 +19,10 @@ import { GoogleGenAI } from "@google/genai";
 import { type } from "arktype";
 import { Error } from "effect/Data";
 import { v4 as uuidv4 } from "uuid";
+import {
+	SIGNATURE_LENGTH,
+	sniffImageType,
+} from "@/components/upload/FileValidation";
 
 // --- ArkType Schemas for Data Validation ---
 
@@ -95,13 +99,13 @@ class ImageContextExtractor {
 	 */
 	async processImage(imagePath: string | Buffer): Promise<ImageAnalysisResult> {
 		try {
-			let imageData: string;
-			if (typeof imagePath === "string") {
-				const imageBuffer = fs.readFileSync(imagePath);
-				imageData = imageBuffer.toString("base64");
-			} else {
-				imageData = imagePath.toString("base64");
-			}
+			const imageBuffer =
+				typeof imagePath === "string" ? fs.readFileSync(imagePath) : imagePath;
+			const imageData = imageBuffer.toString("base64");
+			// Every sniffed type is also the subtype of its MIME type
+			const imageType = sniffImageType(
+				imageBuffer.subarray(0, SIGNATURE_LENGTH),
+			);
 
 			const response: any = await this.ai.models.generateContent({
 				model: this.model,
@@ -120,7 +124,7 @@ class ImageContextExtractor {
 							},
 							{
 								inlineData: {
-									mimeType: "image/jpeg", // Adjust based on actual image type
+									mimeType: `image/${imageType ?? "jpeg"}`,
 									data: imageData,
 								},
 							},
@@ -3,5 +3,6 @@ export * from "./food";
 export * from "./gnews";
 export * from "./image";
 export * from "./news";
+export * from "./rate-limits";
 export * from "./search";
 export * from "./youtube";
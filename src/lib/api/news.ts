@@ -1,48 +1,8 @@
-import { type } from "arktype";
 // @ts-expect-error
 import NewsAPI from "newsapi";
+import { getServerConfig, requireKeys } from "@/config/server";
 
-const Article = type({
-	source: {
-		id: "string|null",
-		name: "string",
-	},
-	author: "string|null",
-	title: "string",
-	description: "string|null",
-	url: "string.url",
-	"urlToImage?": "string.url|null",
-	publishedAt: "string",
-	content: "string|null",
-});
-
-const Source = type({
-	id: "string",
-	name: "string",
-	description: "string",
-	url: "string.url",
-	category: "string",
-	language: "string",
-	country: "string",
-});
-
-const ArticleResponse = type({
-	status: "'ok'",
-	totalResults: "number",
-	articles: [Article, "[]"],
-});
-
-const SourcesResponse = type({
-	status: "'ok'",
-	sources: [Source, "[]"],
-});
-
-const NewsAPIResponse = ArticleResponse.or(SourcesResponse);
-
-type TArticle = typeof Article.infer;
-type TArticleResponse = typeof ArticleResponse.infer;
-type TSourcesResponse = typeof SourcesResponse.infer;
-type TNewsAPIResponse = typeof NewsAPIResponse.infer;
+// Response schemas: ./schemas/news
 
 interface TestConfig {
 	delayBetweenRequests: number;
@@ -53,9 +13,14 @@ const TEST_CONFIG: TestConfig = {
 	maxArticlesToShow: 3,
 };
 
-const NEWS_API_KEY = import.meta.env.VITE_NEWS_API_KEY;
-if (!NEWS_API_KEY) throw new Error("NEWS_API_KEY not set");
-const newsapi = new NewsAPI(NEWS_API_KEY);
+let client: NewsAPI | undefined;
+
+// NewsAPI client, created on first use from NEWS_API_KEY (server only)
+const newsapi = (): NewsAPI => {
+	const [key] = requireKeys("NewsAPI", ["newsapi"], getServerConfig().keys);
+	client ??= new NewsAPI(key);
+	return client;
+};
 
 interface TopHeadlinesParams {
 	sources?: string;
@@ -0,0 +1,45 @@
+/**
+ * Copyright 2025 Mike Odnis
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { defineRateLimit, type RateLimitRule } from "@/effect-rate-limiter";
+
+// Client-side budgets for the upstream APIs, keyed by host. The API clients
+// send every request with `rateLimit: true`, so these are the only limits.
+
+export const MEDIASTACK_HOST = "api.mediastack.com";
+export const FDC_HOST = "api.nal.usda.gov";
+
+/**
+ * Mediastack plans: the free plan is kept to one request every two seconds.
+ */
+export const MEDIASTACK_RATE_LIMITS = {
+	free: { limit: 25, interval: 60_000, minInterval: 2_000, maxConcurrent: 1 },
+	paid: { limit: 100, interval: 60_000, minInterval: 500, maxConcurrent: 4 },
+} satisfies Record<string, RateLimitRule>;
+
+/**
+ * FoodData Central (api.data.gov): 1,000 requests per hour per key.
+ */
+export const FDC_RATE_LIMIT: RateLimitRule = {
+	limit: 1_000,
+	interval: 3_600_000,
+	maxConcurrent: 4,
+};
+
+defineRateLimit(MEDIASTACK_HOST, MEDIASTACK_RATE_LIMITS.free);
+defineRateLimit(FDC_HOST, FDC_RATE_LIMIT);
+
+export { rateLimitStats } from "@/effect-rate-limiter";
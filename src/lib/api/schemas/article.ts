@@ -0,0 +1,89 @@
+// Mediastack response and request parameter schemas. No keys here: safe for
+// browser code.
+
+import { type } from "arktype";
+
+export const PaginationInfo = type({
+	limit: "number",
+	offset: "number",
+	count: "number",
+	total: "number",
+});
+
+export const NewsArticle = type({
+	author: "string | null",
+	title: "string",
+	description: "string | null",
+	url: "string",
+	source: "string",
+	image: "string | null",
+	category: "string",
+	language: "string",
+	country: "string",
+	published_at: "string",
+});
+
+export const NewsSource = type({
+	id: "string",
+	name: "string",
+	category: "string",
+	country: "string",
+	language: "string",
+	url: "string",
+});
+
+export const NewsResponse = type({
+	pagination: PaginationInfo,
+	data: NewsArticle.array(),
+});
+
+export const SourcesResponse = type({
+	pagination: PaginationInfo,
+	data: NewsSource.array(),
+});
+
+export const APIError = type({
+	error: {
+		code: "string",
+		message: "string",
+		"context?": "Record<string, string[]>",
+	},
+});
+
+export const NewsCategory = type(
+	"'general' | 'business' | 'entertainment' | 'health' | 'science' | 'sports' | 'technology'",
+);
+
+export const SortOption = type("'published_desc' | 'popularity'");
+
+export const NewsRequestParams = type({
+	"sources?": "string",
+	"categories?": "string",
+	"countries?": "string",
+	"languages?": "string",
+	"keywords?": "string",
+	"date?": "string",
+	"sort?": SortOption,
+	"limit?": "number",
+	"offset?": "number",
+});
+
+export const SourcesRequestParams = type({
+	"search?": "string",
+	"countries?": "string",
+	"languages?": "string",
+	"categories?": "string",
+	"limit?": "number",
+	"offset?": "number",
+});
+
+export type PaginationInfo = typeof PaginationInfo.infer;
+export type NewsArticle = typeof NewsArticle.infer;
+export type NewsSource = typeof NewsSource.infer;
+export type NewsResponse = typeof NewsResponse.infer;
+export type SourcesResponse = typeof SourcesResponse.infer;
+export type APIError = typeof APIError.infer;
+export type NewsCategory = typeof NewsCategory.infer;
+export type SortOption = typeof SortOption.infer;
+export type NewsRequestParams = typeof NewsRequestParams.infer;
+export type SourcesRequestParams = typeof SourcesRequestParams.infer;
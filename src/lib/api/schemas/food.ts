@@ -0,0 +1,168 @@
+// FoodData Central response and request parameter schemas. No keys here:
+// safe for browser code.
+
+import { type } from "arktype";
+
+export const FoodNutrientDerivation = type({
+	id: "number",
+	code: "string",
+	description: "string",
+});
+
+export const Nutrient = type({
+	id: "number",
+	number: "string",
+	name: "string",
+	rank: "number",
+	unitName: "string",
+});
+
+export const FoodNutrient = type({
+	id: "number",
+	amount: "number",
+	nutrient: Nutrient,
+	"foodNutrientDerivation?": FoodNutrientDerivation,
+});
+
+export const FoodAttribute = type({
+	id: "number",
+	sequenceNumber: "number",
+	value: "string",
+});
+
+export const Food = type({
+	fdcId: "number",
+	description: "string",
+	dataType: "string",
+	publicationDate: "string",
+	"brandOwner?": "string",
+	"brandName?": "string",
+	"ingredients?": "string",
+	"marketCountry?": "string",
+	"foodCategory?": "string",
+	"modifiedDate?": "string",
+	"dataSource?": "string",
+	"packageWeight?": "string",
+	"servingSizeUnit?": "string",
+	"servingSize?": "number",
+	"householdServingFullText?": "string",
+	foodNutrients: FoodNutrient.array(),
+	"foodAttributes?": FoodAttribute.array(),
+});
+
+export const AbridgedFoodNutrient = type({
+	nutrientId: "number",
+	nutrientName: "string",
+	nutrientNumber: "string",
+	unitName: "string",
+	value: "number",
+});
+
+export const AbridgedFood = type({
+	fdcId: "number",
+	description: "string",
+	dataType: "string",
+	publicationDate: "string",
+	"brandOwner?": "string",
+	"gtinUpc?": "string",
+	"brandName?": "string",
+	"ingredients?": "string",
+	"marketCountry?": "string",
+	"foodCategory?": "string",
+	"modifiedDate?": "string",
+	"dataSource?": "string",
+	"packageWeight?": "string",
+	"servingSizeUnit?": "string",
+	"servingSize?": "number",
+	"householdServingFullText?": "string",
+	"shortDescription?": "string",
+	"tradeChannels?": "string[]",
+	"allHighlightFields?": "string",
+	"score?": "number",
+	"microbes?": "unknown[]",
+	foodNutrients: AbridgedFoodNutrient.array(),
+});
+
+export const SearchCriteria = type({
+	query: "string",
+	dataType: "string[]",
+	pageSize: "number",
+	pageNumber: "number",
+	sortBy: "string",
+	sortOrder: "string",
+});
+
+export const SearchAggregations = type({
+	"dataType?": "Record<string, number>",
+	"nutrients?": "Record<string, unknown>",
+});
+
+export const SearchResult = type({
+	totalHits: "number",
+	currentPage: "number",
+	totalPages: "number",
+	pageList: "number[]",
+	foods: AbridgedFood.array(),
+	criteria: SearchCriteria,
+	"aggregations?": SearchAggregations,
+});
+
+export const FoodsListResponse = type({
+	currentPage: "number",
+	totalHits: "number",
+	totalPages: "number",
+	foods: AbridgedFood.array(),
+});
+
+// Request parameter schemas
+export const DataType = type(
+	"'Branded' | 'Foundation' | 'Survey' | 'Legacy' | 'Survey (FNDDS)' | 'SR Legacy'",
+);
+
+export const SortBy = type(
+	"'dataType.keyword' | 'lowercaseDescription.keyword' | 'fdcId' | 'publishedDate'",
+);
+
+export const SortOrder = type("'asc' | 'desc'");
+
+export const SearchOptions = type({
+	query: "string",
+	"dataType?": DataType.array(),
+	"pageSize?": "number",
+	"pageNumber?": "number",
+	"sortBy?": SortBy,
+	"sortOrder?": SortOrder,
+	"brandOwner?": "string",
+});
+
+export const ListOptions = type({
+	"dataType?": DataType.array(),
+	"pageSize?": "number",
+	"pageNumber?": "number",
+	"sortBy?": SortBy,
+	"sortOrder?": SortOrder,
+});
+
+export const FoodsOptions = type({
+	fdcIds: "number[]",
+	"format?": "'abridged' | 'full'",
+	"nutrients?": "number[]",
+});
+
+export type FoodNutrientDerivation = typeof FoodNutrientDerivation.infer;
+export type Nutrient = typeof Nutrient.infer;
+export type FoodNutrient = typeof FoodNutrient.infer;
+export type FoodAttribute = typeof FoodAttribute.infer;
+export type Food = typeof Food.infer;
+export type AbridgedFoodNutrient = typeof AbridgedFoodNutrient.infer;
+export type AbridgedFood = typeof AbridgedFood.infer;
+export type SearchCriteria = typeof SearchCriteria.infer;
+export type SearchAggregations = typeof SearchAggregations.infer;
+export type SearchResult = typeof SearchResult.infer;
+export type FoodsListResponse = typeof FoodsListResponse.infer;
+export type DataType = typeof DataType.infer;
+export type SortBy = typeof SortBy.infer;
+export type SortOrder = typeof SortOrder.infer;
+export type SearchOptions = typeof SearchOptions.infer;
+export type ListOptions = typeof ListOptions.infer;
+export type FoodsOptions = typeof FoodsOptions.infer;
@@ -0,0 +1,28 @@
+// Response schemas for the GNews API. No keys here: safe for browser code.
+
+import { type } from "arktype";
+
+export const Article = type({
+	title: "string",
+	description: "string",
+	content: "string",
+	url: "string",
+	image: "string",
+	publishedAt: "string",
+	source: {
+		name: "string",
+		url: "string",
+	},
+});
+
+export const GNewsResponse = type({
+	totalArticles: "number",
+	articles: [Article, "[]"],
+});
+
+export const GNewsError = type({
+	errors: "string[]",
+});
+
+export type Article = typeof Article.infer;
+export type GNewsResponse = typeof GNewsResponse.infer;
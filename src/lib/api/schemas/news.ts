@@ -0,0 +1,45 @@
+// NewsAPI response schemas. No keys here: safe for browser code.
+
+import { type } from "arktype";
+
+export const Article = type({
+	source: {
+		id: "string|null",
+		name: "string",
+	},
+	author: "string|null",
+	title: "string",
+	description: "string|null",
+	url: "string.url",
+	"urlToImage?": "string.url|null",
+	publishedAt: "string",
+	content: "string|null",
+});
+
+export const Source = type({
+	id: "string",
+	name: "string",
+	description: "string",
+	url: "string.url",
+	category: "string",
+	language: "string",
+	country: "string",
+});
+
+export const ArticleResponse = type({
+	status: "'ok'",
+	totalResults: "number",
+	articles: [Article, "[]"],
+});
+
+export const SourcesResponse = type({
+	status: "'ok'",
+	sources: [Source, "[]"],
+});
+
+export const NewsAPIResponse = ArticleResponse.or(SourcesResponse);
+
+export type TArticle = typeof Article.infer;
+export type TArticleResponse = typeof ArticleResponse.infer;
+export type TSourcesResponse = typeof SourcesResponse.infer;
+export type TNewsAPIResponse = typeof NewsAPIResponse.infer;
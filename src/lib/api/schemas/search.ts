@@ -0,0 +1,51 @@
+// Google Custom Search schemas: the raw response and the trimmed DTO the
+// proxy returns. No keys here: safe for browser code.
+
+import { type } from "arktype";
+
+export const RawCse = type({
+	"searchInformation?": {
+		"totalResults?": "string",
+		"searchTime?": "number",
+		"formattedTotalResults?": "string",
+		"formattedSearchTime?": "string",
+	},
+	"items?": [
+		{
+			"link?": "string",
+			"title?": "string",
+			"snippet?": "string",
+			"pagemap?": {
+				"cse_thumbnail?": [
+					{
+						"src?": "string",
+						"width?": "string | number",
+						"height?": "string | number",
+					},
+					"[]",
+				],
+			},
+		},
+		"[]",
+	],
+});
+export type TRawCse = typeof RawCse.infer;
+
+export const SearchRecommendation = type({
+	info: {
+		totalResults: "string",
+		searchTime: "number",
+		formattedTotalResults: "string",
+		formattedSearchTime: "string",
+	},
+	items: [
+		{
+			link: "string",
+			title: "string",
+			snippet: "string",
+			"thumbnail?": { src: "string", width: "string", height: "string" },
+		},
+		"[]",
+	],
+});
+export type TSearchRecommendation = typeof SearchRecommendation.infer;
@@ -0,0 +1,54 @@
+// YouTube Data API search response schema. No keys here: safe for browser code.
+
+import { type } from "arktype";
+
+const ThumbnailDetail = type({
+	url: "string.url",
+	width: "number",
+	height: "number",
+});
+
+const Thumbnails = type({
+	default: ThumbnailDetail,
+	medium: ThumbnailDetail,
+	high: ThumbnailDetail,
+});
+
+const Snippet = type({
+	publishedAt: "string",
+	channelId: "string",
+	title: "string",
+	description: "string",
+	thumbnails: Thumbnails,
+	channelTitle: "string",
+	liveBroadcastContent: "string",
+});
+
+const SearchResultId = type({
+	kind: "string",
+	videoId: "string",
+});
+
+const SearchResultItem = type({
+	kind: "'youtube#searchResult'",
+	etag: "string",
+	id: SearchResultId,
+	snippet: Snippet,
+});
+
+const PageInfo = type({
+	totalResults: "number",
+	resultsPerPage: "number",
+});
+
+export const YoutubeSearchResponse = type({
+	kind: "'youtube#searchListResponse'",
+	etag: "string",
+	"nextPageToken?": "string",
+	"prevPageToken?": "string",
+	regionCode: "string",
+	pageInfo: PageInfo,
+	items: [SearchResultItem, "[]"],
+});
+
+export type YoutubeSearchResponse = typeof YoutubeSearchResponse.infer;
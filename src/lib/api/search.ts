@@ -1,58 +1,22 @@
-import { get } from "@/effect-schema-fetcher";
 import { FetchHttpClient } from "@effect/platform";
-import { type } from "arktype";
 import { Effect, pipe } from "effect";
+import { getServerConfig, requireKeys } from "@/config/server";
+import { get } from "@/effect-schema-fetcher";
+import {
+	RawCse,
+	SearchRecommendation,
+	type TRawCse,
+	type TSearchRecommendation,
+} from "./schemas/search";
 
-export const RawCse = type({
-	"searchInformation?": {
-		"totalResults?": "string",
-		"searchTime?": "number",
-		"formattedTotalResults?": "string",
-		"formattedSearchTime?": "string",
-	},
-	"items?": [
-		{
-			"link?": "string",
-			"title?": "string",
-			"snippet?": "string",
-			"pagemap?": {
-				"cse_thumbnail?": [
-					{
-						"src?": "string",
-						"width?": "string | number",
-						"height?": "string | number",
-					},
-					"[]",
-				],
-			},
-		},
-		"[]",
-	],
-});
-export type TRawCse = typeof RawCse.infer;
-
-export const SearchRecommendation = type({
-	info: {
-		totalResults: "string",
-		searchTime: "number",
-		formattedTotalResults: "string",
-		formattedSearchTime: "string",
-	},
-	items: [
-		{
-			link: "string",
-			title: "string",
-			snippet: "string",
-			"thumbnail?": { src: "string", width: "string", height: "string" },
-		},
-		"[]",
-	],
-});
-export type TSearchRecommendation = typeof SearchRecommendation.infer;
+export {
+	RawCse,
+	SearchRecommendation,
+	type TRawCse,
+	type TSearchRecommendation,
+};
 
 const CSE_ENDPOINT = "https://customsearch.googleapis.com/customsearch/v1";
-const API_KEY = import.meta.env.VITE_GOOGLE_API_KEY!;
-const CX = import.meta.env.VITE_GOOGLE_SEARCH_ENGINE_ID!;
 
 const truncate = (q: string, max = 100) =>
 	q.length <= max ? q : q.slice(0, max - 3) + "...";
@@ -71,7 +35,11 @@ async function search(
 	query: string,
 	opts: Omit<SearchParams, "q"> = {},
 ): Promise<TSearchRecommendation> {
-	if (!API_KEY || !CX) throw new Error("Google API key or CX missing");
+	const [API_KEY, CX] = requireKeys(
+		"Google Custom Search",
+		["google", "googleCseCx"],
+		getServerConfig().keys,
+	);
 
 	const params: Record<string, string | number | undefined> = {
 		key: API_KEY,
@@ -1,60 +1,10 @@
-import { get } from "@/effect-schema-fetcher";
 import { FetchHttpClient } from "@effect/platform";
-import { type } from "arktype";
 import { Effect, pipe } from "effect";
+import { getServerConfig, requireKeys } from "@/config/server";
+import { get } from "@/effect-schema-fetcher";
+import { YoutubeSearchResponse } from "./schemas/youtube";
 
-const YOUTUBE_API_KEY = import.meta.env.VITE_GOOGLE_API_KEY;
-
-const ThumbnailDetail = type({
-	url: "string.url",
-	width: "number",
-	height: "number",
-});
-
-const Thumbnails = type({
-	default: ThumbnailDetail,
-	medium: ThumbnailDetail,
-	high: ThumbnailDetail,
-});
-
-const Snippet = type({
-	publishedAt: "string",
-	channelId: "string",
-	title: "string",
-	description: "string",
-	thumbnails: Thumbnails,
-	channelTitle: "string",
-	liveBroadcastContent: "string",
-});
-
-const SearchResultId = type({
-	kind: "string",
-	videoId: "string",
-});
-
-const SearchResultItem = type({
-	kind: "'youtube#searchResult'",
-	etag: "string",
-	id: SearchResultId,
-	snippet: Snippet,
-});
-
-const PageInfo = type({
-	totalResults: "number",
-	resultsPerPage: "number",
-});
-
-export const YoutubeSearchResponse = type({
-	kind: "'youtube#searchListResponse'",
-	etag: "string",
-	"nextPageToken?": "string",
-	"prevPageToken?": "string",
-	regionCode: "string",
-	pageInfo: PageInfo,
-	items: [SearchResultItem, "[]"],
-});
-
-export type YoutubeSearchResponse = typeof YoutubeSearchResponse.infer;
+export { YoutubeSearchResponse };
 
 /**
  * Searches YouTube videos by calling the YouTube Data API v3 endpoint directly.
@@ -64,9 +14,11 @@ const searchYouTube = async (
 	query: string,
 	pageToken?: string,
 ): Promise<YoutubeSearchResponse> => {
-	if (!YOUTUBE_API_KEY) {
-		throw new Error("YouTube API key is missing");
-	}
+	const [YOUTUBE_API_KEY] = requireKeys(
+		"YouTube search",
+		["google"],
+		getServerConfig().keys,
+	);
 
 	const YOUTUBE_SEARCH_ENDPOINT =
 		"https://www.googleapis.com/youtube/v3/search";
@@ -0,0 +1,311 @@
+/**
+ * @fileoverview Stored results of `POST /api/analyze`, keyed by image.
+ *
+ * Each finished analysis is stored under the difference hash of its
+ * normalized upload (see `preprocessImage`). A later upload whose hash is
+ * within {@link AnalysisResultOptions.maxDistance} bits of a stored one is
+ * answered from the store instead of calling Vision, news, CSE and YouTube
+ * again. Entries expire after a TTL so news and search results do not go
+ * stale forever.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { PipelineResult } from "../components/upload/AnalysisStages";
+import { hammingDistance } from "./image";
+
+/**
+ * A stored analysis.
+ * @interface
+ */
+export interface StoredAnalysis {
+	/** Hex difference hash of the normalized image; the store key */
+	dhash: string;
+	/** Hex SHA-256 of the normalized image */
+	hash: string;
+	result: PipelineResult;
+	/** Epoch milliseconds at which the analysis was stored */
+	storedAt: number;
+	/** Epoch milliseconds after which the analysis is no longer served */
+	expiresAt: number;
+	/** Uploads answered from this entry */
+	hits: number;
+}
+
+/**
+ * Storage backend for {@link AnalysisResults}.
+ * @interface
+ */
+export interface AnalysisStore {
+	/** Human-readable backend name, reported by the admin routes */
+	readonly kind: string;
+	get(dhash: string): Promise<StoredAnalysis | undefined>;
+	list(): Promise<StoredAnalysis[]>;
+	set(entry: StoredAnalysis): Promise<void>;
+	delete(dhash: string): Promise<boolean>;
+	clear(): Promise<void>;
+}
+
+/**
+ * In-memory store that evicts the least recently used entry past its limit.
+ */
+export class MemoryAnalysisStore implements AnalysisStore {
+	readonly kind = "memory";
+	private entries = new Map<string, StoredAnalysis>();
+
+	/**
+	 * @param {number} [maxEntries=500] - Entries kept before the oldest is evicted
+	 */
+	constructor(private readonly maxEntries = 500) {}
+
+	async get(dhash: string): Promise<StoredAnalysis | undefined> {
+		return this.entries.get(dhash);
+	}
+
+	async list(): Promise<StoredAnalysis[]> {
+		return [...this.entries.values()];
+	}
+
+	async set(entry: StoredAnalysis): Promise<void> {
+		this.entries.delete(entry.dhash);
+		this.entries.set(entry.dhash, entry);
+		while (this.entries.size > this.maxEntries) {
+			const oldest = this.entries.keys().next().value;
+			if (oldest === undefined) break;
+			this.entries.delete(oldest);
+		}
+	}
+
+	async delete(dhash: string): Promise<boolean> {
+		return this.entries.delete(dhash);
+	}
+
+	async clear(): Promise<void> {
+		this.entries.clear();
+	}
+}
+
+/**
+ * File-backed store that survives restarts: one JSON file per entry, named
+ * after its hex difference hash.
+ */
+export class FileAnalysisStore implements AnalysisStore {
+	readonly kind = "file";
+
+	/**
+	 * @param {string} dir - Directory holding the entries; created on first write
+	 */
+	constructor(private readonly dir: string) {}
+
+	private fileFor(dhash: string): string {
+		return path.join(this.dir, `${dhash}.json`);
+	}
+
+	async get(dhash: string): Promise<StoredAnalysis | undefined> {
+		try {
+			const raw = await fs.readFile(this.fileFor(dhash), "utf8");
+			return JSON.parse(raw) as StoredAnalysis;
+		} catch {
+			return undefined;
+		}
+	}
+
+	async list(): Promise<StoredAnalysis[]> {
+		let files: string[];
+		try {
+			files = await fs.readdir(this.dir);
+		} catch {
+			return [];
+		}
+		const entries = await Promise.all(
+			files
+				.filter((f) => f.endsWith(".json"))
+				.map((f) => this.get(path.basename(f, ".json"))),
+		);
+		return entries.filter((e): e is StoredAnalysis => e !== undefined);
+	}
+
+	async set(entry: StoredAnalysis): Promise<void> {
+		await fs.mkdir(this.dir, { recursive: true });
+		await fs.writeFile(this.fileFor(entry.dhash), JSON.stringify(entry));
+	}
+
+	async delete(dhash: string): Promise<boolean> {
+		try {
+			await fs.unlink(this.fileFor(dhash));
+			return true;
+		} catch {
+			return false;
+		}
+	}
+
+	async clear(): Promise<void> {
+		await fs.rm(this.dir, { recursive: true, force: true });
+	}
+}
+
+/**
+ * Options for {@link AnalysisResults}.
+ * @interface
+ */
+export interface AnalysisResultOptions {
+	/** Seconds a stored analysis is served */
+	ttl: number;
+	/** Largest Hamming distance between hashes treated as the same image */
+	maxDistance: number;
+}
+
+/**
+ * A stored analysis matching an upload.
+ * @interface
+ */
+export interface AnalysisMatch {
+	entry: StoredAnalysis;
+	/** Bits between the upload's hash and the entry's; 0 for an exact match */
+	distance: number;
+}
+
+/**
+ * Finds and stores analyses by image hash.
+ */
+export class AnalysisResults {
+	/**
+	 * Expiry of every stored entry by hash, so near-duplicate lookups do not
+	 * read the whole store. Loaded on first use and kept up to date by this
+	 * instance; entries another process writes to the same directory are seen
+	 * after a restart.
+	 */
+	private expiries?: Promise<Map<string, number>>;
+
+	/**
+	 * @param {AnalysisStore} store - The storage backend
+	 * @param {AnalysisResultOptions} options - TTL and near-duplicate threshold
+	 */
+	constructor(
+		private readonly store: AnalysisStore,
+		private readonly options: AnalysisResultOptions,
+	) {}
+
+	private index(): Promise<Map<string, number>> {
+		this.expiries ??= this.store
+			.list()
+			.then((entries) => new Map(entries.map((e) => [e.dhash, e.expiresAt])))
+			.catch((error) => {
+				// Try again on the next lookup
+				this.expiries = undefined;
+				throw error;
+			});
+		return this.expiries;
+	}
+
+	/** Backend name of the store */
+	get kind(): string {
+		return this.store.kind;
+	}
+
+	/**
+	 * Looks up the closest unexpired analysis within the distance threshold
+	 * and counts the hit. Expired entries found on the way are deleted.
+	 *
+	 * @param {string} dhash - Hex difference hash of the upload
+	 * @returns {Promise<AnalysisMatch | undefined>} The match, if any
+	 */
+	async find(dhash: string): Promise<AnalysisMatch | undefined> {
+		const now = Date.now();
+		const index = await this.index();
+		const candidates: { dhash: string; distance: number }[] = [];
+		const expired: string[] = [];
+		for (const [stored, expiresAt] of index) {
+			if (now >= expiresAt) {
+				expired.push(stored);
+				continue;
+			}
+			const distance = stored === dhash ? 0 : hammingDistance(dhash, stored);
+			if (distance <= this.options.maxDistance) {
+				candidates.push({ dhash: stored, distance });
+			}
+		}
+		candidates.sort((a, b) => a.distance - b.distance);
+		await Promise.all(expired.map((stored) => this.delete(stored)));
+
+		// Only the closest entry still in the store is read
+		for (const candidate of candidates) {
+			const stored = await this.store.get(candidate.dhash);
+			if (!stored) {
+				// Evicted by the store, or removed behind its back
+				index.delete(candidate.dhash);
+				continue;
+			}
+			const entry = { ...stored, hits: stored.hits + 1 };
+			await this.store.set(entry);
+			return { entry, distance: candidate.distance };
+		}
+		return undefined;
+	}
+
+	/**
+	 * Stores a finished analysis, replacing any entry with the same hash.
+	 *
+	 * @param {{ dhash: string; hash: string }} image - Hashes of the normalized upload
+	 * @param {PipelineResult} result - The analysis result
+	 * @returns {Promise<StoredAnalysis>} The stored entry
+	 */
+	async save(
+		image: { dhash: string; hash: string },
+		result: PipelineResult,
+	): Promise<StoredAnalysis> {
+		const now = Date.now();
+		const entry: StoredAnalysis = {
+			dhash: image.dhash,
+			hash: image.hash,
+			result,
+			storedAt: now,
+			expiresAt: now + this.options.ttl * 1_000,
+			hits: 0,
+		};
+		await this.store.set(entry);
+		(await this.index()).set(entry.dhash, entry.expiresAt);
+		return entry;
+	}
+
+	/**
+	 * Lists stored analyses, newest first. Expired entries are dropped.
+	 *
+	 * @returns {Promise<StoredAnalysis[]>} The unexpired entries
+	 */
+	async list(): Promise<StoredAnalysis[]> {
+		const now = Date.now();
+		const entries = await this.store.list();
+		await Promise.all(
+			entries
+				.filter((e) => now >= e.expiresAt)
+				.map((e) => this.delete(e.dhash)),
+		);
+		return entries
+			.filter((e) => now < e.expiresAt)
+			.sort((a, b) => b.storedAt - a.storedAt);
+	}
+
+	/**
+	 * Removes one stored analysis.
+	 *
+	 * @param {string} dhash - Hex difference hash of the entry
+	 * @returns {Promise<boolean>} False if there was no such entry
+	 */
+	async delete(dhash: string): Promise<boolean> {
+		(await this.index()).delete(dhash);
+		return this.store.delete(dhash);
+	}
+
+	/**
+	 * Removes every stored analysis.
+	 *
+	 * @returns {Promise<number>} The number of entries removed
+	 */
+	async clear(): Promise<number> {
+		const count = (await this.store.list()).length;
+		await this.store.clear();
+		(await this.index()).clear();
+		return count;
+	}
+}
@@ -0,0 +1,213 @@
+/**
+ * @fileoverview Server-side image analysis for `POST /api/analyze`.
+ *
+ * Runs the same stages as the browser pipeline (see `AnalysisStages`), but
+ * calls the upstream providers directly instead of going through the proxy
+ * routes, so one upload replaces four or five round trips. Results still go
+ * through the proxy routes' response cache. Progress is streamed as
+ * server-sent events; a stored result (see `analyses.ts`) is streamed as a
+ * single `result` event.
+ */
+
+import {
+	type AnalysisEvent,
+	type AnalysisSources,
+	createFoodSource,
+	type PipelineResult,
+	runAnalysis,
+} from "../components/upload/AnalysisStages";
+import type { ProductClassifier } from "../components/upload/ProductClassifier";
+import {
+	CSE_DEFAULT_FIELDS,
+	normalizeWebDetection,
+	toSearchRecommendation,
+	type UpstreamParams,
+	type UpstreamProvider,
+} from "./upstream";
+
+/**
+ * Cached proxy routes the analysis reads through.
+ */
+export type AnalysisCacheRoute =
+	| "gnews.search"
+	| "gnews.top-headlines"
+	| "google.cse"
+	| "youtube.search"
+	| "fdc.search"
+	| "fdc.food";
+
+/**
+ * Serves an upstream call through the response cache.
+ */
+export type CachedLoader = <T>(
+	route: AnalysisCacheRoute,
+	params: UpstreamParams,
+	load: () => Promise<T>,
+) => Promise<T>;
+
+/**
+ * Options for {@link createServerSources}.
+ * @interface
+ */
+export interface ServerSourcesOptions {
+	upstream: UpstreamProvider;
+	/** Defaults to calling upstream on every request */
+	cached?: CachedLoader;
+	/** Whether FoodData Central is available; the food stage returns nothing otherwise */
+	fdc?: boolean;
+}
+
+/**
+ * Builds analysis sources backed by the upstream providers. Query parameters
+ * match what the browser wrappers send, so both share cache entries.
+ *
+ * @param {ServerSourcesOptions} options - Upstream provider, cache and FDC switch
+ * @returns {AnalysisSources<Buffer>} Sources taking the raw image bytes
+ */
+export const createServerSources = ({
+	upstream,
+	cached = (_route, _params, load) => load(),
+	fdc,
+}: ServerSourcesOptions): AnalysisSources<Buffer> => ({
+	reverseImageSearch: async (content) =>
+		normalizeWebDetection(await upstream.webDetection(content)),
+	gnewsSearch: (q, opts) => {
+		const params = { q, lang: opts?.lang, max: opts?.max?.toString() };
+		return cached("gnews.search", params, () => upstream.gnewsSearch(params));
+	},
+	gnewsTopHeadlines: (opts) => {
+		const params = { lang: opts?.lang, max: opts?.max?.toString() };
+		return cached("gnews.top-headlines", params, () =>
+			upstream.gnewsTopHeadlines(params),
+		);
+	},
+	googleSearch: (q) => {
+		const params = { q, num: "10", fields: CSE_DEFAULT_FIELDS };
+		return cached("google.cse", params, async () =>
+			toSearchRecommendation(await upstream.googleCse(params)),
+		);
+	},
+	youtubeSearch: (q) => {
+		const params = { q, maxResults: "10" };
+		return cached("youtube.search", params, () =>
+			upstream.youtubeSearch(params),
+		);
+	},
+	fdc: fdc
+		? createFoodSource({
+				search: ({ query, dataType, pageSize }) => {
+					const params = { query, dataType, pageSize: pageSize.toString() };
+					return cached("fdc.search", params, () => upstream.fdcSearch(params));
+				},
+				food: (fdcId, nutrients) => {
+					const params = {
+						fdcId: fdcId.toString(),
+						nutrients: nutrients?.join(","),
+					};
+					return cached("fdc.food", params, () => upstream.fdcFood(params));
+				},
+			})
+		: undefined,
+});
+
+/**
+ * Response headers of the server-sent event routes.
+ */
+export const EVENT_STREAM_HEADERS = {
+	"content-type": "text/event-stream",
+	"cache-control": "no-cache",
+	"x-accel-buffering": "no",
+};
+
+/**
+ * Formats a server-sent event named after the event's `type`, with the event
+ * as JSON data.
+ *
+ * @param {{ type: string }} event - The event
+ * @returns {string} The event, including the blank line that ends it
+ */
+export const formatEvent = <E extends { type: string }>(event: E): string =>
+	`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+
+/**
+ * Runs the analysis for one image and streams it as server-sent events: one
+ * event per {@link AnalysisEvent}, named after its `type`, with the event as
+ * JSON data. The stream ends after the `result` or `error` event.
+ *
+ * @param {AnalysisSources<Buffer>} sources - Upstream-backed sources
+ * @param {Buffer} content - The image bytes
+ * @param {object} options - Result id, classifier, callbacks and extra response headers
+ * @returns {Response} A `text/event-stream` response
+ */
+export const analysisEventStream = (
+	sources: AnalysisSources<Buffer>,
+	content: Buffer,
+	options: {
+		id: string;
+		classifier?: ProductClassifier;
+		onResult?: (result: PipelineResult) => void;
+		onFailure?: (error: unknown) => void;
+		onDegraded?: (event: Extract<AnalysisEvent, { type: "degraded" }>) => void;
+		headers?: Record<string, string>;
+	},
+): Response => {
+	const encoder = new TextEncoder();
+	let closed = false;
+
+	const stream = new ReadableStream<Uint8Array>({
+		start(controller) {
+			let failed = false;
+			const emit = (event: AnalysisEvent) => {
+				failed ||= event.type === "error";
+				if (event.type === "degraded") options.onDegraded?.(event);
+				if (closed) return;
+				controller.enqueue(encoder.encode(formatEvent(event)));
+			};
+
+			runAnalysis(sources, content, {
+				id: options.id,
+				classifier: options.classifier,
+				onEvent: emit,
+			})
+				.then((result) => options.onResult?.(result))
+				.catch((error) => {
+					options.onFailure?.(error);
+					if (!failed) {
+						emit({
+							type: "error",
+							message: error instanceof Error ? error.message : String(error),
+						});
+					}
+				})
+				.finally(() => {
+					if (closed) return;
+					closed = true;
+					controller.close();
+				});
+		},
+		cancel() {
+			// The client went away; let the stages finish but stop writing
+			closed = true;
+		},
+	});
+
+	return new Response(stream, {
+		headers: { ...EVENT_STREAM_HEADERS, ...options.headers },
+	});
+};
+
+/**
+ * Streams a stored result in the same format as {@link analysisEventStream}:
+ * a single `result` event.
+ *
+ * @param {PipelineResult} result - The stored result
+ * @param {Record<string, string>} [headers] - Extra response headers
+ * @returns {Response} A `text/event-stream` response
+ */
+export const storedResultEventStream = (
+	result: PipelineResult,
+	headers: Record<string, string> = {},
+): Response =>
+	new Response(formatEvent({ type: "result", progress: 100, result }), {
+		headers: { ...EVENT_STREAM_HEADERS, ...headers },
+	});
@@ -0,0 +1,398 @@
+/**
+ * @fileoverview API keys and per-key quotas for the Elysia API.
+ *
+ * Keys are random tokens handed out once by the admin routes; only their
+ * SHA-256 hash is stored, in a JSON file or a SQLite database. Each request
+ * spends from two fixed windows (per minute and per UTC day) in one of two
+ * buckets: `default`, or `expensive` for routes such as reverse image search
+ * that cost real money upstream. Usage counters live in memory and restart
+ * from zero with the server.
+ */
+
+import { Database } from "bun:sqlite";
+import { createHash, randomBytes, randomUUID } from "node:crypto";
+import { mkdirSync } from "node:fs";
+import fs from "node:fs/promises";
+import path from "node:path";
+
+/**
+ * Request budgets for one key. `expensive*` apply to expensive routes only.
+ * @interface
+ */
+export interface Quotas {
+	perMinute: number;
+	perDay: number;
+	expensivePerMinute: number;
+	expensivePerDay: number;
+}
+
+/**
+ * A stored API key. The key itself is never stored, only its hash.
+ * @interface
+ */
+export interface ApiKeyRecord {
+	id: string;
+	/** Who or what the key was issued to */
+	name: string;
+	/** First characters of the key, to recognize it in listings */
+	prefix: string;
+	/** Hex SHA-256 of the key */
+	hash: string;
+	createdAt: string;
+	revokedAt?: string;
+	/** Overrides of the server-wide default quotas */
+	quotas?: Partial<Quotas>;
+}
+
+/**
+ * A key record as shown by the admin routes.
+ */
+export type PublicApiKey = Omit<ApiKeyRecord, "hash">;
+
+/**
+ * Persistence for API key records.
+ * @interface
+ */
+export interface ApiKeyStore {
+	/** Backend name, reported by the admin routes */
+	readonly kind: string;
+	list(): Promise<ApiKeyRecord[]>;
+	findByHash(hash: string): Promise<ApiKeyRecord | undefined>;
+	insert(record: ApiKeyRecord): Promise<void>;
+	/** Marks a key revoked; resolves `false` if no such key exists */
+	revoke(id: string, at: string): Promise<boolean>;
+}
+
+/**
+ * Hashes an API key for storage and lookup.
+ *
+ * @param {string} key - The raw API key
+ * @returns {string} Hex SHA-256 digest
+ */
+export const hashApiKey = (key: string): string =>
+	createHash("sha256").update(key).digest("hex");
+
+/**
+ * Generates a new random API key.
+ *
+ * @returns {{ key: string; prefix: string }} The key and its display prefix
+ */
+export const generateApiKey = (): { key: string; prefix: string } => {
+	const key = `vct_${randomBytes(24).toString("base64url")}`;
+	return { key, prefix: key.slice(0, 12) };
+};
+
+/**
+ * Stores all keys in one JSON file, rewritten on every change.
+ */
+export class JsonKeyStore implements ApiKeyStore {
+	readonly kind = "json";
+	private records?: Promise<ApiKeyRecord[]>;
+
+	/**
+	 * @param {string} file - Path of the JSON file; created on first write
+	 */
+	constructor(private readonly file: string) {}
+
+	private load(): Promise<ApiKeyRecord[]> {
+		this.records ??= fs
+			.readFile(this.file, "utf8")
+			.then((raw) => JSON.parse(raw) as ApiKeyRecord[])
+			.catch((error: NodeJS.ErrnoException) => {
+				if (error.code === "ENOENT") return [];
+				throw error;
+			});
+		return this.records;
+	}
+
+	private async save(records: ApiKeyRecord[]): Promise<void> {
+		await fs.mkdir(path.dirname(this.file), { recursive: true });
+		await fs.writeFile(this.file, JSON.stringify(records, null, 2));
+	}
+
+	async list(): Promise<ApiKeyRecord[]> {
+		return [...(await this.load())];
+	}
+
+	async findByHash(hash: string): Promise<ApiKeyRecord | undefined> {
+		return (await this.load()).find((r) => r.hash === hash);
+	}
+
+	async insert(record: ApiKeyRecord): Promise<void> {
+		const records = await this.load();
+		records.push(record);
+		await this.save(records);
+	}
+
+	async revoke(id: string, at: string): Promise<boolean> {
+		const records = await this.load();
+		const record = records.find((r) => r.id === id);
+		if (!record) return false;
+		record.revokedAt ??= at;
+		await this.save(records);
+		return true;
+	}
+}
+
+type ApiKeyRow = {
+	id: string;
+	name: string;
+	prefix: string;
+	hash: string;
+	created_at: string;
+	revoked_at: string | null;
+	quotas: string | null;
+};
+
+const fromRow = (row: ApiKeyRow): ApiKeyRecord => ({
+	id: row.id,
+	name: row.name,
+	prefix: row.prefix,
+	hash: row.hash,
+	createdAt: row.created_at,
+	...(row.revoked_at && { revokedAt: row.revoked_at }),
+	...(row.quotas && { quotas: JSON.parse(row.quotas) }),
+});
+
+/**
+ * Stores keys in a SQLite database using `bun:sqlite`.
+ */
+export class SqliteKeyStore implements ApiKeyStore {
+	readonly kind = "sqlite";
+	private readonly db: Database;
+
+	/**
+	 * @param {string} file - Path of the database file; created, with its directory, if missing
+	 */
+	constructor(file: string) {
+		mkdirSync(path.dirname(file), { recursive: true });
+		this.db = new Database(file, { create: true });
+		this.db.run(`CREATE TABLE IF NOT EXISTS api_keys (
+			id TEXT PRIMARY KEY,
+			name TEXT NOT NULL,
+			prefix TEXT NOT NULL,
+			hash TEXT NOT NULL UNIQUE,
+			created_at TEXT NOT NULL,
+			revoked_at TEXT,
+			quotas TEXT
+		)`);
+	}
+
+	async list(): Promise<ApiKeyRecord[]> {
+		return this.db
+			.query<ApiKeyRow, []>("SELECT * FROM api_keys ORDER BY created_at")
+			.all()
+			.map(fromRow);
+	}
+
+	async findByHash(hash: string): Promise<ApiKeyRecord | undefined> {
+		const row = this.db
+			.query<ApiKeyRow, [string]>("SELECT * FROM api_keys WHERE hash = ?")
+			.get(hash);
+		return row ? fromRow(row) : undefined;
+	}
+
+	async insert(record: ApiKeyRecord): Promise<void> {
+		this.db
+			.query(
+				"INSERT INTO api_keys (id, name, prefix, hash, created_at, revoked_at, quotas) VALUES (?, ?, ?, ?, ?, ?, ?)",
+			)
+			.run(
+				record.id,
+				record.name,
+				record.prefix,
+				record.hash,
+				record.createdAt,
+				record.revokedAt ?? null,
+				record.quotas ? JSON.stringify(record.quotas) : null,
+			);
+	}
+
+	async revoke(id: string, at: string): Promise<boolean> {
+		const { changes } = this.db
+			.query(
+				"UPDATE api_keys SET revoked_at = COALESCE(revoked_at, ?) WHERE id = ?",
+			)
+			.run(at, id);
+		return changes > 0;
+	}
+}
+
+/**
+ * Issues a new key and stores its hash.
+ *
+ * @param {ApiKeyStore} store - Where to store the record
+ * @param {string} name - Who the key is for
+ * @param {Partial<Quotas>} [quotas] - Per-key quota overrides
+ * @returns {Promise<{ key: string; record: PublicApiKey }>} The raw key (shown once) and its record
+ */
+export const issueApiKey = async (
+	store: ApiKeyStore,
+	name: string,
+	quotas?: Partial<Quotas>,
+): Promise<{ key: string; record: PublicApiKey }> => {
+	const { key, prefix } = generateApiKey();
+	const record: ApiKeyRecord = {
+		id: randomUUID(),
+		name,
+		prefix,
+		hash: hashApiKey(key),
+		createdAt: new Date().toISOString(),
+		...(quotas && { quotas }),
+	};
+	await store.insert(record);
+	const { hash: _hash, ...visible } = record;
+	return { key, record: visible };
+};
+
+/**
+ * Looks up an active key.
+ *
+ * @param {ApiKeyStore} store - The key store
+ * @param {string | undefined} key - The raw key from the request
+ * @returns {Promise<ApiKeyRecord | undefined>} The record, or `undefined` if unknown or revoked
+ */
+export const authenticate = async (
+	store: ApiKeyStore,
+	key: string | undefined,
+): Promise<ApiKeyRecord | undefined> => {
+	if (!key) return undefined;
+	const record = await store.findByHash(hashApiKey(key));
+	return record && !record.revokedAt ? record : undefined;
+};
+
+/**
+ * Which quota a route spends from.
+ */
+export type QuotaBucket = "default" | "expensive";
+
+/**
+ * The outcome of {@link QuotaTracker.consume}, describing the tightest window.
+ * @interface
+ */
+export interface QuotaResult {
+	allowed: boolean;
+	bucket: QuotaBucket;
+	window: "minute" | "day";
+	limit: number;
+	remaining: number;
+	/** Seconds until the window resets */
+	reset: number;
+}
+
+const WINDOWS = { minute: 60_000, day: 86_400_000 } as const;
+
+/**
+ * In-memory fixed-window counters per key and bucket.
+ */
+export class QuotaTracker {
+	private counters = new Map<string, { start: number; count: number }>();
+
+	/**
+	 * @param {Quotas} defaults - Quotas for keys without overrides
+	 */
+	constructor(readonly defaults: Quotas) {}
+
+	/**
+	 * Resolves the effective quotas of a key.
+	 */
+	quotasFor(record: ApiKeyRecord): Quotas {
+		return { ...this.defaults, ...record.quotas };
+	}
+
+	private limitsFor(record: ApiKeyRecord, bucket: QuotaBucket) {
+		const q = this.quotasFor(record);
+		return bucket === "expensive"
+			? { minute: q.expensivePerMinute, day: q.expensivePerDay }
+			: { minute: q.perMinute, day: q.perDay };
+	}
+
+	private counter(
+		id: string,
+		bucket: QuotaBucket,
+		window: keyof typeof WINDOWS,
+		now: number,
+	) {
+		const key = `${id}:${bucket}:${window}`;
+		const start = now - (now % WINDOWS[window]);
+		let counter = this.counters.get(key);
+		if (!counter || counter.start !== start) {
+			counter = { start, count: 0 };
+			this.counters.set(key, counter);
+		}
+		return counter;
+	}
+
+	/**
+	 * Spends one request from a key's bucket if both windows allow it.
+	 *
+	 * @param {ApiKeyRecord} record - The authenticated key
+	 * @param {QuotaBucket} bucket - Which quota the route spends from
+	 * @returns {QuotaResult} The tightest window after the request
+	 */
+	consume(record: ApiKeyRecord, bucket: QuotaBucket): QuotaResult {
+		const now = Date.now();
+		const limits = this.limitsFor(record, bucket);
+		const windows = (["minute", "day"] as const).map((window) => ({
+			window,
+			limit: limits[window],
+			counter: this.counter(record.id, bucket, window, now),
+		}));
+
+		const exhausted = windows.find((w) => w.counter.count >= w.limit);
+		if (!exhausted) for (const w of windows) w.counter.count++;
+
+		const reported =
+			exhausted ??
+			windows.reduce((a, b) =>
+				b.limit - b.counter.count < a.limit - a.counter.count ? b : a,
+			);
+		return {
+			allowed: !exhausted,
+			bucket,
+			window: reported.window,
+			limit: reported.limit,
+			remaining: Math.max(0, reported.limit - reported.counter.count),
+			reset: Math.ceil(
+				(reported.counter.start + WINDOWS[reported.window] - now) / 1_000,
+			),
+		};
+	}
+
+	/**
+	 * Returns the current counts of a key, for the admin listing.
+	 */
+	usage(id: string): Record<QuotaBucket, { minute: number; day: number }> {
+		const now = Date.now();
+		const count = (bucket: QuotaBucket, window: keyof typeof WINDOWS) => {
+			const counter = this.counters.get(`${id}:${bucket}:${window}`);
+			return counter && counter.start === now - (now % WINDOWS[window])
+				? counter.count
+				: 0;
+		};
+		return {
+			default: {
+				minute: count("default", "minute"),
+				day: count("default", "day"),
+			},
+			expensive: {
+				minute: count("expensive", "minute"),
+				day: count("expensive", "day"),
+			},
+		};
+	}
+}
+
+/**
+ * Builds the `X-RateLimit-*` headers for a quota result.
+ *
+ * @param {QuotaResult} result - The result of {@link QuotaTracker.consume}
+ * @returns {Record<string, string>} Response headers
+ */
+export const quotaHeaders = (result: QuotaResult): Record<string, string> => ({
+	"x-ratelimit-limit": String(result.limit),
+	"x-ratelimit-remaining": String(result.remaining),
+	"x-ratelimit-reset": String(result.reset),
+	"x-ratelimit-bucket": `${result.bucket}/${result.window}`,
+	...(!result.allowed && { "retry-after": String(result.reset) }),
+});
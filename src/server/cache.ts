@@ -0,0 +1,420 @@
+/**
+ * @fileoverview Server-side response cache for the upstream proxy routes.
+ *
+ * Responses are keyed on the route name plus the normalized, client-supplied
+ * query parameters (never on server-side secrets such as API keys), stored in a
+ * pluggable {@link CacheStore}, and served with `Cache-Control`/`ETag` headers.
+ * Entries past their TTL but still inside the stale-while-revalidate window are
+ * served immediately while a single background refresh repopulates them.
+ */
+
+import { createHash } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+
+/**
+ * A single cached upstream response.
+ * @interface
+ */
+export interface CacheEntry<T = unknown> {
+	/** The cached payload */
+	value: T;
+	/** Strong ETag computed from the serialized payload */
+	etag: string;
+	/** Epoch milliseconds at which the entry was stored */
+	storedAt: number;
+	/** Epoch milliseconds after which the entry is stale */
+	expiresAt: number;
+	/** Epoch milliseconds after which the entry may no longer be served at all */
+	staleUntil: number;
+}
+
+/**
+ * Storage backend for {@link ResponseCache}.
+ * @interface
+ */
+export interface CacheStore {
+	/** Human-readable backend name, reported by `/admin/cache/stats` */
+	readonly kind: string;
+	get(key: string): Promise<CacheEntry | undefined>;
+	set(key: string, entry: CacheEntry): Promise<void>;
+	delete(key: string): Promise<boolean>;
+	clear(): Promise<void>;
+	size(): Promise<number>;
+}
+
+/**
+ * Freshness policy for a cached route.
+ * @interface
+ */
+export interface CachePolicy {
+	/** Seconds an entry is served as fresh */
+	ttl: number;
+	/** Seconds after `ttl` during which a stale entry is served while revalidating */
+	staleWhileRevalidate: number;
+}
+
+/**
+ * How a cached lookup was satisfied.
+ */
+export type CacheStatus = "HIT" | "STALE" | "MISS";
+
+/**
+ * The result of {@link ResponseCache.wrap}.
+ * @interface
+ */
+export interface CachedResult<T> {
+	value: T;
+	etag: string;
+	status: CacheStatus;
+	/** Seconds the served entry is still fresh for (0 when stale) */
+	maxAge: number;
+	/** Seconds since the served entry was stored */
+	age: number;
+}
+
+/**
+ * Counters reported per route by {@link ResponseCache.stats}.
+ * @interface
+ */
+export interface RouteCacheStats {
+	hits: number;
+	stale: number;
+	misses: number;
+	revalidations: number;
+	errors: number;
+}
+
+/**
+ * In-memory LRU store. Relies on `Map` insertion order: reads re-insert the
+ * key so the first key is always the least recently used.
+ */
+export class MemoryLRUStore implements CacheStore {
+	readonly kind = "memory";
+	private entries = new Map<string, CacheEntry>();
+
+	/**
+	 * @param {number} [maxEntries=500] - Entries kept before the least recently used is evicted
+	 */
+	constructor(private readonly maxEntries = 500) {}
+
+	async get(key: string): Promise<CacheEntry | undefined> {
+		const entry = this.entries.get(key);
+		if (entry) {
+			this.entries.delete(key);
+			this.entries.set(key, entry);
+		}
+		return entry;
+	}
+
+	async set(key: string, entry: CacheEntry): Promise<void> {
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+		while (this.entries.size > this.maxEntries) {
+			const oldest = this.entries.keys().next().value;
+			if (oldest === undefined) break;
+			this.entries.delete(oldest);
+		}
+	}
+
+	async delete(key: string): Promise<boolean> {
+		return this.entries.delete(key);
+	}
+
+	async clear(): Promise<void> {
+		this.entries.clear();
+	}
+
+	async size(): Promise<number> {
+		return this.entries.size;
+	}
+}
+
+/**
+ * File-backed store that survives restarts. Each entry is one JSON file named
+ * after the SHA-1 of its key, so arbitrary query strings are safe on disk.
+ */
+export class FileCacheStore implements CacheStore {
+	readonly kind = "file";
+
+	/**
+	 * @param {string} dir - Directory holding the cache files; created on first write
+	 */
+	constructor(private readonly dir: string) {}
+
+	private fileFor(key: string): string {
+		return path.join(
+			this.dir,
+			`${createHash("sha1").update(key).digest("hex")}.json`,
+		);
+	}
+
+	async get(key: string): Promise<CacheEntry | undefined> {
+		try {
+			const raw = await fs.readFile(this.fileFor(key), "utf8");
+			return JSON.parse(raw) as CacheEntry;
+		} catch {
+			return undefined;
+		}
+	}
+
+	async set(key: string, entry: CacheEntry): Promise<void> {
+		await fs.mkdir(this.dir, { recursive: true });
+		await fs.writeFile(this.fileFor(key), JSON.stringify(entry));
+	}
+
+	async delete(key: string): Promise<boolean> {
+		try {
+			await fs.unlink(this.fileFor(key));
+			return true;
+		} catch {
+			return false;
+		}
+	}
+
+	async clear(): Promise<void> {
+		await fs.rm(this.dir, { recursive: true, force: true });
+	}
+
+	async size(): Promise<number> {
+		try {
+			const files = await fs.readdir(this.dir);
+			return files.filter((f) => f.endsWith(".json")).length;
+		} catch {
+			return 0;
+		}
+	}
+}
+
+/**
+ * Builds a stable cache key from query parameters: keys are sorted, values are
+ * trimmed, and empty or missing values are dropped so `?q=a&max=` and
+ * `?max=&q=a ` share an entry.
+ *
+ * @param {Record<string, unknown>} params - The client-supplied query parameters
+ * @returns {string} A canonical query string
+ */
+export const normalizeParams = (params: Record<string, unknown>): string => {
+	const search = new URLSearchParams();
+	for (const key of Object.keys(params).sort()) {
+		const value = params[key];
+		if (value == null) continue;
+		const values = Array.isArray(value) ? value : [value];
+		for (const v of values) {
+			const s = String(v).trim();
+			if (s !== "") search.append(key, s);
+		}
+	}
+	return search.toString();
+};
+
+/**
+ * Computes a strong ETag for a payload.
+ *
+ * @param {unknown} value - The payload to hash
+ * @returns {string} A quoted ETag value
+ */
+export const computeETag = (value: unknown): string =>
+	`"${createHash("sha1").update(JSON.stringify(value)).digest("base64url")}"`;
+
+/**
+ * Response cache with per-route policies and stale-while-revalidate.
+ */
+export class ResponseCache {
+	private counters = new Map<string, RouteCacheStats>();
+	private revalidating = new Map<string, Promise<unknown>>();
+
+	/**
+	 * @param {CacheStore} store - The storage backend
+	 * @param {(message: string, error: unknown) => void} [onRevalidateError] - Called when a background refresh fails
+	 */
+	constructor(
+		private readonly store: CacheStore,
+		private readonly onRevalidateError?: (
+			message: string,
+			error: unknown,
+		) => void,
+	) {}
+
+	private count(route: string, field: keyof RouteCacheStats): void {
+		const stats = this.counters.get(route) ?? {
+			hits: 0,
+			stale: 0,
+			misses: 0,
+			revalidations: 0,
+			errors: 0,
+		};
+		stats[field]++;
+		this.counters.set(route, stats);
+	}
+
+	private async put<T>(
+		key: string,
+		value: T,
+		policy: CachePolicy,
+	): Promise<CacheEntry<T>> {
+		const now = Date.now();
+		const entry: CacheEntry<T> = {
+			value,
+			etag: computeETag(value),
+			storedAt: now,
+			expiresAt: now + policy.ttl * 1_000,
+			staleUntil: now + (policy.ttl + policy.staleWhileRevalidate) * 1_000,
+		};
+		await this.store.set(key, entry);
+		return entry;
+	}
+
+	private revalidate<T>(
+		route: string,
+		key: string,
+		policy: CachePolicy,
+		load: () => Promise<T>,
+	): void {
+		if (this.revalidating.has(key)) return;
+		this.count(route, "revalidations");
+		const pending = load()
+			.then((value) => this.put(key, value, policy))
+			.catch((error) => {
+				this.count(route, "errors");
+				this.onRevalidateError?.(`Cache revalidation failed for ${key}`, error);
+			})
+			.finally(() => this.revalidating.delete(key));
+		this.revalidating.set(key, pending);
+	}
+
+	/**
+	 * Serves `load()` through the cache.
+	 *
+	 * @template T
+	 * @param {string} route - Route name, used for the key prefix and stats
+	 * @param {Record<string, unknown>} params - Client-supplied query parameters
+	 * @param {CachePolicy} policy - Freshness policy for the route
+	 * @param {() => Promise<T>} load - Fetches a fresh value from upstream
+	 * @returns {Promise<CachedResult<T>>} The value along with cache metadata
+	 */
+	async wrap<T>(
+		route: string,
+		params: Record<string, unknown>,
+		policy: CachePolicy,
+		load: () => Promise<T>,
+	): Promise<CachedResult<T>> {
+		const key = `${route}?${normalizeParams(params)}`;
+		const now = Date.now();
+		const entry = (await this.store.get(key)) as CacheEntry<T> | undefined;
+
+		if (entry && now < entry.expiresAt) {
+			this.count(route, "hits");
+			return {
+				value: entry.value,
+				etag: entry.etag,
+				status: "HIT",
+				maxAge: Math.ceil((entry.expiresAt - now) / 1_000),
+				age: Math.floor((now - entry.storedAt) / 1_000),
+			};
+		}
+
+		if (entry && now < entry.staleUntil) {
+			this.count(route, "stale");
+			this.revalidate(route, key, policy, load);
+			return {
+				value: entry.value,
+				etag: entry.etag,
+				status: "STALE",
+				maxAge: 0,
+				age: Math.floor((now - entry.storedAt) / 1_000),
+			};
+		}
+
+		this.count(route, "misses");
+		const fresh = await this.put(key, await load(), policy);
+		return {
+			value: fresh.value,
+			etag: fresh.etag,
+			status: "MISS",
+			maxAge: policy.ttl,
+			age: 0,
+		};
+	}
+
+	/**
+	 * Removes every cached entry. Counters are kept.
+	 */
+	async clear(): Promise<void> {
+		await this.store.clear();
+	}
+
+	/**
+	 * Returns backend information and per-route counters.
+	 */
+	async stats() {
+		const routes = Object.fromEntries(this.counters);
+		const totals = Object.values(routes).reduce(
+			(acc, s) => ({
+				hits: acc.hits + s.hits,
+				stale: acc.stale + s.stale,
+				misses: acc.misses + s.misses,
+			}),
+			{ hits: 0, stale: 0, misses: 0 },
+		);
+		const lookups = totals.hits + totals.stale + totals.misses;
+		return {
+			store: this.store.kind,
+			entries: await this.store.size(),
+			hitRatio: lookups ? (totals.hits + totals.stale) / lookups : 0,
+			routes,
+		};
+	}
+}
+
+/**
+ * Builds the `Cache-Control`, `ETag` and `X-Cache` headers for a cached result.
+ *
+ * Responses to authenticated requests are `private`: a shared cache would
+ * otherwise serve them to callers without a key, past the key and quota
+ * checks.
+ *
+ * @param {CachedResult<unknown>} result - The cached result being served
+ * @param {CachePolicy} policy - The route policy
+ * @param {{ authenticated?: boolean }} [options] - Whether requests need an API key
+ * @returns {Record<string, string>} Response headers
+ */
+export const cacheHeaders = (
+	result: CachedResult<unknown>,
+	policy: CachePolicy,
+	{ authenticated = false }: { authenticated?: boolean } = {},
+): Record<string, string> => ({
+	"cache-control": `${authenticated ? "private" : "public"}, max-age=${result.maxAge}, stale-while-revalidate=${policy.staleWhileRevalidate}`,
+	etag: result.etag,
+	age: String(result.age),
+	"x-cache": result.status,
+});
+
+/**
+ * OpenAPI header descriptions for cached routes, merged into route `detail`
+ * so Swagger documents them.
+ */
+export const cacheResponseHeaders: Record<
+	string,
+	{
+		description: string;
+		schema: { type: "string" | "integer"; enum?: string[] };
+	}
+> = {
+	"Cache-Control": {
+		description: "Freshness of the cached upstream response",
+		schema: { type: "string" },
+	},
+	ETag: {
+		description: "Entity tag of the response body; send back as If-None-Match",
+		schema: { type: "string" },
+	},
+	Age: {
+		description: "Seconds since the response was fetched from upstream",
+		schema: { type: "integer" },
+	},
+	"X-Cache": {
+		description: "HIT, STALE (served while revalidating) or MISS",
+		schema: { type: "string", enum: ["HIT", "STALE", "MISS"] },
+	},
+};
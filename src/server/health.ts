@@ -0,0 +1,267 @@
+/**
+ * @fileoverview Dependency health checks for `GET /health/ready`.
+ *
+ * Each check is a small async function run with a timeout. Critical checks
+ * fail the report (and readiness); non-critical ones only degrade it to
+ * `warn`. Reports are cached for a few seconds, and concurrent probes share
+ * one run, so frequent probes do not hammer the dependencies.
+ */
+
+import fs from "node:fs/promises";
+import type { ResponseCache } from "./cache";
+
+/**
+ * Outcome of one check, or of the whole report.
+ */
+export type HealthStatus = "pass" | "warn" | "fail";
+
+/**
+ * A dependency check. Resolving means healthy; throwing (or timing out)
+ * means unhealthy, with the error message in the report.
+ * @interface
+ */
+export interface HealthCheck {
+	name: string;
+	/** Fails the whole report when `true` (the default); only warns otherwise */
+	critical?: boolean;
+	/** Milliseconds before the check counts as failed; overrides the checker default */
+	timeout?: number;
+	/**
+	 * @param signal - Aborted when the check times out
+	 * @returns Optional details to include in the report
+	 */
+	run(signal: AbortSignal): Promise<Record<string, unknown> | undefined>;
+}
+
+/**
+ * The result of one check within a {@link HealthReport}.
+ * @interface
+ */
+export interface CheckResult {
+	status: HealthStatus;
+	critical: boolean;
+	durationMs: number;
+	/** Why the check failed */
+	error?: string;
+	details?: Record<string, unknown>;
+}
+
+/**
+ * The per-check readiness report.
+ * @interface
+ */
+export interface HealthReport {
+	status: HealthStatus;
+	checkedAt: string;
+	durationMs: number;
+	checks: Record<string, CheckResult>;
+}
+
+/**
+ * Options for {@link HealthChecker}.
+ * @interface
+ */
+export interface HealthCheckerOptions {
+	/** Default per-check timeout in milliseconds (defaults to 2000) */
+	timeout?: number;
+	/** How long a report is reused, in milliseconds (defaults to 5000) */
+	cacheTtl?: number;
+}
+
+const runWithTimeout = async (
+	check: HealthCheck,
+	timeout: number,
+): Promise<CheckResult> => {
+	const critical = check.critical ?? true;
+	const controller = new AbortController();
+	const start = performance.now();
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	try {
+		const details = await Promise.race([
+			check.run(controller.signal),
+			new Promise<never>((_, reject) => {
+				timer = setTimeout(() => {
+					controller.abort();
+					reject(new Error(`Timed out after ${timeout}ms`));
+				}, timeout);
+			}),
+		]);
+		return {
+			status: "pass",
+			critical,
+			durationMs: Math.round(performance.now() - start),
+			...(details && { details }),
+		};
+	} catch (error) {
+		return {
+			status: critical ? "fail" : "warn",
+			critical,
+			durationMs: Math.round(performance.now() - start),
+			error: error instanceof Error ? error.message : String(error),
+		};
+	} finally {
+		clearTimeout(timer);
+	}
+};
+
+/**
+ * Runs health checks in parallel and caches the report briefly.
+ */
+export class HealthChecker {
+	private readonly timeout: number;
+	private readonly cacheTtl: number;
+	private cached?: { report: HealthReport; expiresAt: number };
+	private running?: Promise<HealthReport>;
+
+	/**
+	 * @param {HealthCheck[]} checks - The checks to run
+	 * @param {HealthCheckerOptions} [options] - Timeout and cache settings
+	 */
+	constructor(
+		private readonly checks: HealthCheck[],
+		options: HealthCheckerOptions = {},
+	) {
+		this.timeout = options.timeout ?? 2_000;
+		this.cacheTtl = options.cacheTtl ?? 5_000;
+	}
+
+	/**
+	 * Returns the cached report, or runs every check if it has expired.
+	 *
+	 * @returns {Promise<HealthReport>} The report; `fail` if any critical check failed
+	 */
+	report(): Promise<HealthReport> {
+		if (this.cached && this.cached.expiresAt > Date.now()) {
+			return Promise.resolve(this.cached.report);
+		}
+		this.running ??= this.runAll().finally(() => {
+			this.running = undefined;
+		});
+		return this.running;
+	}
+
+	private async runAll(): Promise<HealthReport> {
+		const start = performance.now();
+		const results = await Promise.all(
+			this.checks.map(
+				async (check) =>
+					[
+						check.name,
+						await runWithTimeout(check, check.timeout ?? this.timeout),
+					] as const,
+			),
+		);
+		const statuses = results.map(([, r]) => r.status);
+		const report: HealthReport = {
+			status: statuses.includes("fail")
+				? "fail"
+				: statuses.includes("warn")
+					? "warn"
+					: "pass",
+			checkedAt: new Date().toISOString(),
+			durationMs: Math.round(performance.now() - start),
+			checks: Object.fromEntries(results),
+		};
+		this.cached = { report, expiresAt: Date.now() + this.cacheTtl };
+		return report;
+	}
+}
+
+/**
+ * Checks that a Google service account file can be read and parsed.
+ *
+ * @param {string} file - Path of the credentials JSON
+ * @returns {HealthCheck} The `credentials` check
+ */
+export const credentialsCheck = (file: string): HealthCheck => ({
+	name: "credentials",
+	async run() {
+		const raw = JSON.parse(await fs.readFile(file, "utf8")) as {
+			client_email?: string;
+			project_id?: string;
+		};
+		if (!raw.client_email) {
+			throw new Error(`${file} has no client_email`);
+		}
+		return { file, projectId: raw.project_id };
+	},
+});
+
+/**
+ * Checks that required configuration values are set, and that the upstream
+ * hosts resolve.
+ *
+ * @param {Record<string, string | undefined>} config - Required settings by name; only names are reported
+ * @param {string[]} hosts - Upstream host names to resolve
+ * @returns {HealthCheck} The `upstream` check
+ */
+export const upstreamCheck = (
+	config: Record<string, string | undefined>,
+	hosts: string[],
+): HealthCheck => ({
+	name: "upstream",
+	async run() {
+		const missing = Object.keys(config).filter((k) => !config[k]);
+		if (missing.length) throw new Error(`Missing ${missing.join(", ")}`);
+
+		const dns = await import("node:dns/promises");
+		const failed = (
+			await Promise.allSettled(hosts.map((host) => dns.lookup(host)))
+		).flatMap((r, i) => (r.status === "rejected" ? [hosts[i]] : []));
+		if (failed.length) throw new Error(`Cannot resolve ${failed.join(", ")}`);
+		return { hosts };
+	},
+});
+
+/**
+ * Checks that a directory exists, e.g. the upstream fixtures in fixture mode.
+ *
+ * @param {string} name - Check name
+ * @param {string} dir - Directory path
+ * @returns {HealthCheck} The check
+ */
+export const directoryCheck = (name: string, dir: string): HealthCheck => ({
+	name,
+	async run() {
+		if (!(await fs.stat(dir)).isDirectory()) {
+			throw new Error(`${dir} is not a directory`);
+		}
+		return { dir };
+	},
+});
+
+/**
+ * Checks that an HTTP endpoint answers at all. Any status counts as reachable,
+ * since collectors such as the OTLP receiver reject bare requests.
+ *
+ * @param {string} name - Check name
+ * @param {string} url - Endpoint URL
+ * @param {boolean} [critical=false] - Whether an unreachable endpoint fails readiness
+ * @returns {HealthCheck} The check
+ */
+export const reachableCheck = (
+	name: string,
+	url: string,
+	critical = false,
+): HealthCheck => ({
+	name,
+	critical,
+	async run(signal) {
+		const res = await fetch(url, { method: "HEAD", signal });
+		return { url, status: res.status };
+	},
+});
+
+/**
+ * Checks that the response cache backend answers.
+ *
+ * @param {ResponseCache} cache - The upstream response cache
+ * @returns {HealthCheck} The `cache` check
+ */
+export const cacheCheck = (cache: ResponseCache): HealthCheck => ({
+	name: "cache",
+	async run() {
+		const { store, entries } = await cache.stats();
+		return { store, entries };
+	},
+});
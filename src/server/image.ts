@@ -0,0 +1,183 @@
+/**
+ * @fileoverview Preprocessing of uploaded images before they reach Vision.
+ *
+ * An upload is checked against a byte limit and typed by its magic bytes (the
+ * client's `Content-Type` is not trusted). It is then auto-rotated, downscaled
+ * to fit a maximum edge, flattened onto white and re-encoded as JPEG.
+ * Re-encoding drops EXIF, GPS and every other metadata block, and turns WebP,
+ * AVIF, GIF and HEIC into a format every consumer accepts. HEIC is decoded
+ * with `heic-decode` because sharp's prebuilt libvips ships without HEVC.
+ *
+ * Besides the SHA-256 of the output, each image gets a 64-bit difference hash
+ * (dHash): similar images, e.g. the same photo recompressed or rescaled, have
+ * hashes a few bits apart, compared with {@link hammingDistance}.
+ */
+
+import { createHash } from "node:crypto";
+import decodeHeic from "heic-decode";
+import sharp, { type Sharp } from "sharp";
+import {
+	type ImageType,
+	SIGNATURE_LENGTH,
+	sniffImageType,
+} from "../components/upload/FileValidation";
+
+/**
+ * Limits applied by {@link preprocessImage}.
+ * @interface
+ */
+export interface ImageLimits {
+	/** Largest accepted upload, in bytes */
+	maxBytes: number;
+	/** Longest edge of the output, in pixels; smaller images are not enlarged */
+	maxDimension: number;
+}
+
+/**
+ * A normalized upload.
+ * @interface
+ */
+export interface PreprocessedImage {
+	/** JPEG bytes without metadata */
+	data: Buffer;
+	mimeType: "image/jpeg";
+	width: number;
+	height: number;
+	/** Type sniffed from the upload's magic bytes */
+	sourceType: ImageType;
+	/** Size of the upload, in bytes */
+	sourceBytes: number;
+	/** Whether the image was downscaled to fit `maxDimension` */
+	resized: boolean;
+	/** Hex SHA-256 of `data`; the same upload always normalizes to the same hash */
+	hash: string;
+	/** Hex 64-bit difference hash of `data`, for near-duplicate detection */
+	dhash: string;
+}
+
+/**
+ * Thrown when an upload cannot be preprocessed.
+ */
+export class ImageRejectedError extends Error {
+	/**
+	 * @param {"too-large" | "unsupported-type" | "undecodable"} reason - Why the image was rejected
+	 * @param {string} message - Explanation for the client
+	 */
+	constructor(
+		readonly reason: "too-large" | "unsupported-type" | "undecodable",
+		message: string,
+	) {
+		super(message);
+		this.name = "ImageRejectedError";
+	}
+}
+
+const JPEG_QUALITY = 85;
+
+/**
+ * Computes the difference hash of an image: the image is reduced to a 9x8
+ * greyscale thumbnail and each bit says whether a pixel is brighter than its
+ * right neighbour.
+ *
+ * @param {Buffer} image - Encoded image bytes
+ * @returns {Promise<string>} 16 hex digits
+ */
+export const differenceHash = async (image: Buffer): Promise<string> => {
+	const pixels = await sharp(image)
+		.greyscale()
+		.resize(9, 8, { fit: "fill" })
+		.raw()
+		.toBuffer();
+	let bits = 0n;
+	for (let y = 0; y < 8; y++) {
+		for (let x = 0; x < 8; x++) {
+			const left = pixels[y * 9 + x] ?? 0;
+			const right = pixels[y * 9 + x + 1] ?? 0;
+			bits = (bits << 1n) | (left > right ? 1n : 0n);
+		}
+	}
+	return bits.toString(16).padStart(16, "0");
+};
+
+/**
+ * Counts the bits that differ between two hex hashes of the same length.
+ *
+ * @param {string} a - First hash
+ * @param {string} b - Second hash
+ * @returns {number} The Hamming distance
+ */
+export const hammingDistance = (a: string, b: string): number => {
+	let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+	let count = 0;
+	for (; diff; diff &= diff - 1n) count++;
+	return count;
+};
+
+const decode = async (input: Buffer, type: ImageType): Promise<Sharp> => {
+	if (type !== "heic") return sharp(input);
+	const { width, height, data } = await decodeHeic({ buffer: input });
+	return sharp(Buffer.from(data.buffer, data.byteOffset, data.byteLength), {
+		raw: { width, height, channels: 4 },
+	});
+};
+
+/**
+ * Validates and normalizes an uploaded image.
+ *
+ * @param {Buffer} input - The uploaded bytes
+ * @param {ImageLimits} limits - Byte and dimension limits
+ * @returns {Promise<PreprocessedImage>} The normalized JPEG and its hash
+ * @throws {ImageRejectedError} If the upload is too large, not a supported image, or corrupt
+ */
+export const preprocessImage = async (
+	input: Buffer,
+	limits: ImageLimits,
+): Promise<PreprocessedImage> => {
+	if (input.byteLength > limits.maxBytes) {
+		throw new ImageRejectedError(
+			"too-large",
+			`The image is ${input.byteLength} bytes; the limit is ${limits.maxBytes}`,
+		);
+	}
+	const sourceType = sniffImageType(input.subarray(0, SIGNATURE_LENGTH));
+	if (!sourceType) {
+		throw new ImageRejectedError(
+			"unsupported-type",
+			"Expected a JPEG, PNG, GIF, WebP, AVIF or HEIC image",
+		);
+	}
+
+	try {
+		const image = await decode(input, sourceType);
+		const { width = 0, height = 0 } = await image.metadata();
+		// `rotate()` applies the EXIF orientation before the metadata is dropped
+		const { data, info } = await image
+			.rotate()
+			.resize({
+				width: limits.maxDimension,
+				height: limits.maxDimension,
+				fit: "inside",
+				withoutEnlargement: true,
+			})
+			.flatten({ background: "#ffffff" })
+			.jpeg({ quality: JPEG_QUALITY })
+			.toBuffer({ resolveWithObject: true });
+
+		return {
+			data,
+			mimeType: "image/jpeg",
+			width: info.width,
+			height: info.height,
+			sourceType,
+			sourceBytes: input.byteLength,
+			resized: Math.max(width, height) > limits.maxDimension,
+			hash: createHash("sha256").update(data).digest("hex"),
+			dhash: await differenceHash(data),
+		};
+	} catch (error) {
+		throw new ImageRejectedError(
+			"undecodable",
+			`The ${sourceType} image could not be decoded: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+};
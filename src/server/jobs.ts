@@ -0,0 +1,587 @@
+/**
+ * @fileoverview Background image analysis jobs for `/api/jobs`.
+ *
+ * A submitted image is stored with its job in a SQLite database and analyzed
+ * by an in-process worker pool, so the analysis survives a closed tab and a
+ * client can reattach to it later. Jobs interrupted by a restart are queued
+ * again on startup. Each stage is retried with backoff (see `runAnalysis`),
+ * and every upstream provider has its own cap on calls in flight across all
+ * jobs, enforced with the shared limiters of `effect-rate-limiter`.
+ */
+
+import { Database } from "bun:sqlite";
+import { randomUUID } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { Effect, Either } from "effect";
+import type {
+	AnalysisEvent,
+	AnalysisSources,
+	AnalysisStage,
+	PipelineResult,
+	StageRetryPolicy,
+} from "../components/upload/AnalysisStages";
+import { defineRateLimit, withRateLimit } from "../effect-rate-limiter";
+import { EVENT_STREAM_HEADERS, formatEvent } from "./analyze";
+
+/**
+ * Upstream providers the analysis calls, each with its own concurrency cap.
+ */
+export const ANALYSIS_PROVIDERS = [
+	"vision",
+	"gnews",
+	"cse",
+	"youtube",
+	"fdc",
+] as const;
+
+export type AnalysisProvider = (typeof ANALYSIS_PROVIDERS)[number];
+
+/**
+ * Lifecycle of a job. `succeeded` and `failed` are final.
+ */
+export type JobStatus = "queued" | "running" | "succeeded" | "failed";
+
+/**
+ * An analysis job as reported by the API.
+ * @interface
+ */
+export interface AnalysisJob {
+	id: string;
+	status: JobStatus;
+	/** The stage running or last finished */
+	stage?: AnalysisStage;
+	/** Percentage of stages finished */
+	progress: number;
+	/** Stage retries so far */
+	retries: number;
+	/** Hashes of the normalized image; see `preprocessImage` */
+	image: { hash: string; dhash: string };
+	result?: PipelineResult;
+	error?: string;
+	createdAt: string;
+	updatedAt: string;
+}
+
+/**
+ * Streamed by `GET /api/jobs/:id/events`: a `job` snapshot on every status
+ * change, and the analysis events in between.
+ */
+export type JobEvent = { type: "job"; job: AnalysisJob } | AnalysisEvent;
+
+const isFinal = (status: JobStatus): boolean =>
+	status === "succeeded" || status === "failed";
+
+/**
+ * Persistence for jobs and their images.
+ * @interface
+ */
+export interface JobStore {
+	insert(job: AnalysisJob, image: Buffer): Promise<void>;
+	/** Writes every field of the job; the image is left as is */
+	update(job: AnalysisJob): Promise<void>;
+	get(id: string): Promise<AnalysisJob | undefined>;
+	image(id: string): Promise<Buffer | undefined>;
+	/** Jobs with one of the statuses, oldest first */
+	listByStatus(statuses: JobStatus[]): Promise<AnalysisJob[]>;
+	/** Deletes final jobs last updated before `before`; resolves the count */
+	prune(before: string): Promise<number>;
+}
+
+type JobRow = {
+	id: string;
+	status: JobStatus;
+	stage: AnalysisStage | null;
+	progress: number;
+	retries: number;
+	image_hash: string;
+	image_dhash: string;
+	result: string | null;
+	error: string | null;
+	created_at: string;
+	updated_at: string;
+};
+
+const fromRow = (row: JobRow): AnalysisJob => ({
+	id: row.id,
+	status: row.status,
+	...(row.stage && { stage: row.stage }),
+	progress: row.progress,
+	retries: row.retries,
+	image: { hash: row.image_hash, dhash: row.image_dhash },
+	...(row.result && { result: JSON.parse(row.result) }),
+	...(row.error && { error: row.error }),
+	createdAt: row.created_at,
+	updatedAt: row.updated_at,
+});
+
+const JOB_COLUMNS =
+	"id, status, stage, progress, retries, image_hash, image_dhash, result, error, created_at, updated_at";
+
+/**
+ * Stores jobs in a SQLite database using `bun:sqlite`.
+ */
+export class SqliteJobStore implements JobStore {
+	private readonly db: Database;
+
+	/**
+	 * @param {string} file - Path of the database file; created, with its directory, if missing
+	 */
+	constructor(file: string) {
+		fs.mkdirSync(path.dirname(file), { recursive: true });
+		this.db = new Database(file, { create: true });
+		this.db.run(`CREATE TABLE IF NOT EXISTS analysis_jobs (
+			id TEXT PRIMARY KEY,
+			status TEXT NOT NULL,
+			stage TEXT,
+			progress INTEGER NOT NULL,
+			retries INTEGER NOT NULL,
+			image BLOB NOT NULL,
+			image_hash TEXT NOT NULL,
+			image_dhash TEXT NOT NULL,
+			result TEXT,
+			error TEXT,
+			created_at TEXT NOT NULL,
+			updated_at TEXT NOT NULL
+		)`);
+		this.db.run(
+			"CREATE INDEX IF NOT EXISTS analysis_jobs_status ON analysis_jobs (status, created_at)",
+		);
+	}
+
+	async insert(job: AnalysisJob, image: Buffer): Promise<void> {
+		this.db
+			.query(
+				"INSERT INTO analysis_jobs (id, status, stage, progress, retries, image, image_hash, image_dhash, result, error, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
+			)
+			.run(
+				job.id,
+				job.status,
+				job.stage ?? null,
+				job.progress,
+				job.retries,
+				image,
+				job.image.hash,
+				job.image.dhash,
+				job.result ? JSON.stringify(job.result) : null,
+				job.error ?? null,
+				job.createdAt,
+				job.updatedAt,
+			);
+	}
+
+	async update(job: AnalysisJob): Promise<void> {
+		this.db
+			.query(
+				"UPDATE analysis_jobs SET status = ?, stage = ?, progress = ?, retries = ?, result = ?, error = ?, updated_at = ? WHERE id = ?",
+			)
+			.run(
+				job.status,
+				job.stage ?? null,
+				job.progress,
+				job.retries,
+				job.result ? JSON.stringify(job.result) : null,
+				job.error ?? null,
+				job.updatedAt,
+				job.id,
+			);
+	}
+
+	async get(id: string): Promise<AnalysisJob | undefined> {
+		const row = this.db
+			.query<JobRow, [string]>(
+				`SELECT ${JOB_COLUMNS} FROM analysis_jobs WHERE id = ?`,
+			)
+			.get(id);
+		return row ? fromRow(row) : undefined;
+	}
+
+	async image(id: string): Promise<Buffer | undefined> {
+		const row = this.db
+			.query<{ image: Uint8Array }, [string]>(
+				"SELECT image FROM analysis_jobs WHERE id = ?",
+			)
+			.get(id);
+		return row ? Buffer.from(row.image) : undefined;
+	}
+
+	async listByStatus(statuses: JobStatus[]): Promise<AnalysisJob[]> {
+		return this.db
+			.query<JobRow, string[]>(
+				`SELECT ${JOB_COLUMNS} FROM analysis_jobs WHERE status IN (${statuses.map(() => "?").join(", ")}) ORDER BY created_at`,
+			)
+			.all(...statuses)
+			.map(fromRow);
+	}
+
+	async prune(before: string): Promise<number> {
+		const { changes } = this.db
+			.query(
+				"DELETE FROM analysis_jobs WHERE status IN ('succeeded', 'failed') AND updated_at < ?",
+			)
+			.run(before);
+		return changes;
+	}
+}
+
+/**
+ * Runs `call` once the limiter of `provider` has a free slot.
+ */
+const gated = async <T>(
+	provider: AnalysisProvider,
+	call: () => Promise<T>,
+): Promise<T> => {
+	const outcome = await Effect.runPromise(
+		Effect.either(
+			withRateLimit(
+				`analysis:${provider}`,
+				Effect.tryPromise({ try: call, catch: (error) => error }),
+			),
+		),
+	);
+	if (Either.isLeft(outcome)) throw outcome.left;
+	return outcome.right;
+};
+
+/**
+ * Caps the calls in flight per upstream provider. The caps are registered as
+ * `analysis:<provider>` limiters, so they are shared by every source wrapped
+ * here and reported by `rateLimitStats`.
+ *
+ * @param {AnalysisSources<Image>} sources - The sources to wrap
+ * @param {Record<AnalysisProvider, number>} limits - Calls in flight allowed per provider
+ * @returns {AnalysisSources<Image>} Sources that wait for a free slot
+ */
+export const limitProviders = <Image>(
+	sources: AnalysisSources<Image>,
+	limits: Record<AnalysisProvider, number>,
+): AnalysisSources<Image> => {
+	for (const provider of ANALYSIS_PROVIDERS) {
+		defineRateLimit(`analysis:${provider}`, {
+			maxConcurrent: limits[provider],
+		});
+	}
+	const limit =
+		<A extends unknown[], T>(
+			provider: AnalysisProvider,
+			call: (...args: A) => Promise<T>,
+		) =>
+		(...args: A) =>
+			gated(provider, () => call(...args));
+
+	return {
+		reverseImageSearch: limit("vision", sources.reverseImageSearch),
+		gnewsSearch: limit("gnews", sources.gnewsSearch),
+		gnewsTopHeadlines: limit("gnews", sources.gnewsTopHeadlines),
+		googleSearch: limit("cse", sources.googleSearch),
+		youtubeSearch: limit("youtube", sources.youtubeSearch),
+		fdc: sources.fdc && {
+			findFood: limit("fdc", sources.fdc.findFood),
+			getFoodNutrients: limit("fdc", sources.fdc.getFoodNutrients),
+		},
+	};
+};
+
+/**
+ * Options for {@link JobQueue}.
+ * @interface
+ */
+export interface JobQueueOptions {
+	/** Jobs analyzed at once */
+	concurrency: number;
+	/** Retries of each failing stage */
+	retry: StageRetryPolicy;
+	/** Seconds finished jobs are kept */
+	ttl: number;
+	/** Runs the analysis of one image, usually `runAnalysis` */
+	analyze: (
+		image: Buffer,
+		options: {
+			id: string;
+			retry: StageRetryPolicy;
+			onEvent: (event: AnalysisEvent) => void;
+		},
+	) => Promise<PipelineResult>;
+	/** Called with each successful result */
+	onResult?: (job: AnalysisJob, result: PipelineResult) => void;
+	/** Called when a stage of a job falls back to empty results */
+	onDegraded?: (
+		job: AnalysisJob,
+		event: Extract<AnalysisEvent, { type: "degraded" }>,
+	) => void;
+	/** Called when a job fails, or its state cannot be saved */
+	onFailure?: (job: AnalysisJob, error: unknown) => void;
+	/** Called when the queue itself fails, e.g. a job cannot be read */
+	onError?: (error: unknown) => void;
+}
+
+/**
+ * In-process worker pool over a {@link JobStore}.
+ */
+export class JobQueue {
+	private pending: string[] = [];
+	private active = 0;
+	private listeners = new Map<string, Set<(event: JobEvent) => void>>();
+
+	/**
+	 * @param {JobStore} store - Where jobs and their images are kept
+	 * @param {JobQueueOptions} options - Pool size, retries, retention and the analysis
+	 */
+	constructor(
+		private readonly store: JobStore,
+		private readonly options: JobQueueOptions,
+	) {}
+
+	/**
+	 * Queues the jobs left unfinished by the previous process and drops
+	 * expired finished ones.
+	 *
+	 * @returns {Promise<number>} The number of jobs resumed
+	 */
+	async start(): Promise<number> {
+		await this.prune();
+		const unfinished = await this.store.listByStatus(["queued", "running"]);
+		for (const job of unfinished) this.pending.push(job.id);
+		this.drain();
+		return unfinished.length;
+	}
+
+	/**
+	 * Stores a job and queues it. With a `result`, e.g. from the stored
+	 * analyses, the job is created already succeeded.
+	 *
+	 * @param {{ data: Buffer; hash: string; dhash: string }} image - The normalized image
+	 * @param {PipelineResult} [result] - A known result for the image
+	 * @returns {Promise<AnalysisJob>} The new job
+	 */
+	async submit(
+		image: { data: Buffer; hash: string; dhash: string },
+		result?: PipelineResult,
+	): Promise<AnalysisJob> {
+		const now = new Date().toISOString();
+		const job: AnalysisJob = {
+			id: randomUUID(),
+			status: result ? "succeeded" : "queued",
+			progress: result ? 100 : 0,
+			retries: 0,
+			image: { hash: image.hash, dhash: image.dhash },
+			...(result && { result }),
+			createdAt: now,
+			updatedAt: now,
+		};
+		await this.store.insert(job, image.data);
+		if (!result) {
+			this.pending.push(job.id);
+			this.drain();
+		}
+		await this.prune();
+		return job;
+	}
+
+	get(id: string): Promise<AnalysisJob | undefined> {
+		return this.store.get(id);
+	}
+
+	/**
+	 * Returns the normalized image of a job.
+	 */
+	image(id: string): Promise<Buffer | undefined> {
+		return this.store.image(id);
+	}
+
+	/**
+	 * Listens to the events of one job.
+	 *
+	 * @param {string} id - The job id
+	 * @param {(event: JobEvent) => void} listener - Called with each event
+	 * @returns {() => void} Removes the listener
+	 */
+	subscribe(id: string, listener: (event: JobEvent) => void): () => void {
+		let listeners = this.listeners.get(id);
+		if (!listeners) {
+			listeners = new Set();
+			this.listeners.set(id, listeners);
+		}
+		listeners.add(listener);
+		return () => {
+			listeners.delete(listener);
+			if (!listeners.size) this.listeners.delete(id);
+		};
+	}
+
+	/**
+	 * Counts of the jobs in this process, for health and metrics.
+	 */
+	stats(): { queued: number; running: number } {
+		return { queued: this.pending.length, running: this.active };
+	}
+
+	private emit(id: string, event: JobEvent): void {
+		for (const listener of this.listeners.get(id) ?? []) listener(event);
+	}
+
+	private async save(job: AnalysisJob): Promise<void> {
+		job.updatedAt = new Date().toISOString();
+		await this.store.update(job);
+		this.emit(job.id, { type: "job", job: { ...job } });
+	}
+
+	private prune(): Promise<number> {
+		const before = new Date(Date.now() - this.options.ttl * 1_000);
+		return this.store.prune(before.toISOString());
+	}
+
+	private drain(): void {
+		while (this.active < this.options.concurrency && this.pending.length) {
+			const id = this.pending.shift() as string;
+			this.active++;
+			this.run(id)
+				.catch((error) => this.options.onError?.(error))
+				.finally(() => {
+					this.active--;
+					this.drain();
+				});
+		}
+	}
+
+	private async run(id: string): Promise<void> {
+		let stored: AnalysisJob | undefined;
+		try {
+			stored = await this.store.get(id);
+		} catch (error) {
+			// Followers cannot get a final snapshot of a job that cannot be read
+			this.emit(id, {
+				type: "error",
+				message: error instanceof Error ? error.message : String(error),
+			});
+			throw error;
+		}
+		if (!stored || isFinal(stored.status)) return;
+		const job = stored;
+
+		try {
+			const image = await this.store.image(id);
+			if (!image) throw new Error("The job's image is missing");
+
+			job.status = "running";
+			job.error = undefined;
+			await this.save(job);
+
+			const result = await this.options.analyze(image, {
+				id: job.id,
+				retry: this.options.retry,
+				onEvent: (event) => {
+					if (event.type === "stage") {
+						job.stage = event.stage;
+						job.progress = event.progress;
+					}
+					if (event.type === "retry") job.retries++;
+					if (event.type === "degraded") this.options.onDegraded?.(job, event);
+					this.emit(job.id, event);
+				},
+			});
+
+			job.status = "succeeded";
+			job.progress = 100;
+			job.result = result;
+			await this.save(job);
+			this.options.onResult?.(job, result);
+		} catch (error) {
+			this.options.onFailure?.(job, error);
+			job.status = "failed";
+			job.error = error instanceof Error ? error.message : String(error);
+			await this.save(job).catch((saveError) => {
+				this.options.onFailure?.(job, saveError);
+				// Followers still learn that the job is over
+				this.emit(job.id, { type: "job", job: { ...job } });
+			});
+		}
+	}
+}
+
+// Bun closes connections idle for 10 seconds, so queued jobs send comments
+const HEARTBEAT_INTERVAL = 5_000;
+
+/**
+ * Streams a job as server-sent events: a `job` snapshot first, then every
+ * {@link JobEvent} until the job is final. A job that is already final gets
+ * its snapshot alone.
+ *
+ * @param {JobQueue} queue - The queue running the job
+ * @param {AnalysisJob} job - The job, as just read from the queue
+ * @returns {Response} A `text/event-stream` response
+ */
+export const jobEventStream = (queue: JobQueue, job: AnalysisJob): Response => {
+	const encoder = new TextEncoder();
+	let closed = false;
+	let stop = () => {};
+
+	const stream = new ReadableStream<Uint8Array>({
+		start(controller) {
+			const send = (text: string) => {
+				if (!closed) controller.enqueue(encoder.encode(text));
+			};
+			const close = () => {
+				if (closed) return;
+				closed = true;
+				stop();
+				controller.close();
+			};
+
+			send(formatEvent({ type: "job", job }));
+			if (isFinal(job.status)) {
+				close();
+				return;
+			}
+
+			const unsubscribe = queue.subscribe(job.id, (event) => {
+				send(formatEvent(event));
+				if (
+					(event.type === "job" && isFinal(event.job.status)) ||
+					// The queue could not run the job at all
+					(event.type === "error" && !event.stage)
+				) {
+					close();
+				}
+			});
+			const heartbeat = setInterval(
+				() => send(": heartbeat\n\n"),
+				HEARTBEAT_INTERVAL,
+			);
+			stop = () => {
+				unsubscribe();
+				clearInterval(heartbeat);
+			};
+
+			// The job may have finished between reading it and subscribing
+			queue
+				.get(job.id)
+				.then((latest) => {
+					if (
+						latest &&
+						isFinal(latest.status) &&
+						latest.updatedAt !== job.updatedAt
+					) {
+						send(formatEvent({ type: "job", job: latest }));
+						close();
+					}
+				})
+				.catch((error) => {
+					send(
+						formatEvent({
+							type: "error",
+							message: error instanceof Error ? error.message : String(error),
+						}),
+					);
+					close();
+				});
+		},
+		cancel() {
+			// The client went away; the job keeps running
+			closed = true;
+			stop();
+		},
+	});
+
+	return new Response(stream, { headers: EVENT_STREAM_HEADERS });
+};
@@ -0,0 +1,444 @@
+/**
+ * @fileoverview Prometheus metrics for the Elysia API.
+ *
+ * A small in-process registry of counters, gauges and histograms rendered in
+ * the Prometheus text exposition format (version 0.0.4) by `GET /metrics`.
+ * Request metrics are recorded by the server's timing middleware; upstream
+ * calls by {@link instrumentProvider}; cache and process figures are read at
+ * scrape time through `collect` callbacks.
+ */
+
+import type { ResponseCache } from "./cache";
+import type { UpstreamProvider } from "./upstream";
+
+/**
+ * Content type of the Prometheus text format.
+ */
+export const PROMETHEUS_CONTENT_TYPE =
+	"text/plain; version=0.0.4; charset=utf-8";
+
+/**
+ * Histogram buckets for latencies, in seconds.
+ */
+export const DEFAULT_LATENCY_BUCKETS = [
+	0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30,
+];
+
+/**
+ * Label values of one series, keyed by label name.
+ */
+export type Labels<L extends string> = Partial<Record<L, string | number>>;
+
+/**
+ * Options shared by every metric type.
+ * @interface
+ */
+export interface MetricOptions<L extends string> {
+	/** Metric name, e.g. `http_requests_total` */
+	name: string;
+	help: string;
+	labelNames?: readonly L[];
+	/** Called before each scrape, to refresh values read from elsewhere */
+	collect?: () => void | Promise<void>;
+}
+
+const escapeHelp = (text: string): string =>
+	text.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+
+const escapeLabel = (value: string): string =>
+	value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+const formatValue = (value: number): string =>
+	Number.isNaN(value)
+		? "NaN"
+		: value === Number.POSITIVE_INFINITY
+			? "+Inf"
+			: value === Number.NEGATIVE_INFINITY
+				? "-Inf"
+				: String(value);
+
+/**
+ * Base class holding one value per label combination.
+ */
+abstract class Metric<L extends string, V> {
+	abstract readonly type: "counter" | "gauge" | "histogram";
+	readonly name: string;
+	readonly help: string;
+	readonly labelNames: readonly L[];
+	readonly collect?: () => void | Promise<void>;
+	protected series = new Map<string, { labels: Labels<L>; value: V }>();
+
+	constructor(options: MetricOptions<L>) {
+		this.name = options.name;
+		this.help = options.help;
+		this.labelNames = options.labelNames ?? [];
+		this.collect = options.collect;
+	}
+
+	protected abstract initial(): V;
+
+	protected entry(labels: Labels<L>): { labels: Labels<L>; value: V } {
+		const key = this.labelNames.map((l) => String(labels[l] ?? "")).join("\0");
+		let entry = this.series.get(key);
+		if (!entry) {
+			entry = { labels, value: this.initial() };
+			this.series.set(key, entry);
+		}
+		return entry;
+	}
+
+	protected formatLabels(labels: Labels<L>, extra = ""): string {
+		const parts = this.labelNames
+			.filter((l) => labels[l] !== undefined)
+			.map((l) => `${l}="${escapeLabel(String(labels[l]))}"`);
+		if (extra) parts.push(extra);
+		return parts.length ? `{${parts.join(",")}}` : "";
+	}
+
+	protected abstract samples(): string[];
+
+	/**
+	 * Drops every series, e.g. before a `collect` callback refills them.
+	 */
+	reset(): void {
+		this.series.clear();
+	}
+
+	/**
+	 * Renders the metric's HELP, TYPE and sample lines.
+	 */
+	render(): string {
+		return [
+			`# HELP ${this.name} ${escapeHelp(this.help)}`,
+			`# TYPE ${this.name} ${this.type}`,
+			...this.samples(),
+		].join("\n");
+	}
+}
+
+/**
+ * A monotonically increasing count.
+ */
+export class Counter<L extends string = never> extends Metric<L, number> {
+	readonly type = "counter";
+
+	protected initial(): number {
+		return 0;
+	}
+
+	/**
+	 * @param labels - Label values of the series
+	 * @param amount - Non-negative increment (defaults to 1)
+	 */
+	inc(labels: Labels<L> = {}, amount = 1): void {
+		if (amount < 0) throw new RangeError("Counters can only increase");
+		this.entry(labels).value += amount;
+	}
+
+	protected samples(): string[] {
+		return [...this.series.values()].map(
+			({ labels, value }) =>
+				`${this.name}${this.formatLabels(labels)} ${formatValue(value)}`,
+		);
+	}
+}
+
+/**
+ * A value that can go up and down.
+ */
+export class Gauge<L extends string = never> extends Metric<L, number> {
+	readonly type = "gauge";
+
+	protected initial(): number {
+		return 0;
+	}
+
+	set(labels: Labels<L>, value: number): void {
+		this.entry(labels).value = value;
+	}
+
+	inc(labels: Labels<L> = {}, amount = 1): void {
+		this.entry(labels).value += amount;
+	}
+
+	dec(labels: Labels<L> = {}, amount = 1): void {
+		this.entry(labels).value -= amount;
+	}
+
+	protected samples(): string[] {
+		return [...this.series.values()].map(
+			({ labels, value }) =>
+				`${this.name}${this.formatLabels(labels)} ${formatValue(value)}`,
+		);
+	}
+}
+
+type HistogramValue = { counts: number[]; sum: number; count: number };
+
+/**
+ * Counts observations into cumulative buckets, with their sum and count.
+ */
+export class Histogram<L extends string = never> extends Metric<
+	L,
+	HistogramValue
+> {
+	readonly type = "histogram";
+	readonly buckets: readonly number[];
+
+	/**
+	 * @param options - Metric options plus upper bucket bounds (defaults to {@link DEFAULT_LATENCY_BUCKETS})
+	 */
+	constructor(options: MetricOptions<L> & { buckets?: readonly number[] }) {
+		super(options);
+		this.buckets = [...(options.buckets ?? DEFAULT_LATENCY_BUCKETS)].sort(
+			(a, b) => a - b,
+		);
+	}
+
+	protected initial(): HistogramValue {
+		return { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+	}
+
+	observe(labels: Labels<L>, value: number): void {
+		const entry = this.entry(labels).value;
+		this.buckets.forEach((le, i) => {
+			if (value <= le) entry.counts[i]++;
+		});
+		entry.sum += value;
+		entry.count++;
+	}
+
+	/**
+	 * Starts a timer; calling the returned function observes the elapsed seconds.
+	 */
+	startTimer(labels: Labels<L> = {}): (extra?: Labels<L>) => number {
+		const start = performance.now();
+		return (extra) => {
+			const seconds = (performance.now() - start) / 1_000;
+			this.observe({ ...labels, ...extra }, seconds);
+			return seconds;
+		};
+	}
+
+	protected samples(): string[] {
+		return [...this.series.values()].flatMap(({ labels, value }) => [
+			...this.buckets.map(
+				(le, i) =>
+					`${this.name}_bucket${this.formatLabels(labels, `le="${formatValue(le)}"`)} ${value.counts[i]}`,
+			),
+			`${this.name}_bucket${this.formatLabels(labels, 'le="+Inf"')} ${value.count}`,
+			`${this.name}_sum${this.formatLabels(labels)} ${formatValue(value.sum)}`,
+			`${this.name}_count${this.formatLabels(labels)} ${value.count}`,
+		]);
+	}
+}
+
+/**
+ * Holds the server's metrics and renders them for scraping.
+ */
+export class MetricsRegistry {
+	private metrics = new Map<string, Metric<string, unknown>>();
+
+	private register<M extends Metric<string, unknown>>(metric: M): M {
+		if (this.metrics.has(metric.name)) {
+			throw new Error(`Metric ${metric.name} is already registered`);
+		}
+		this.metrics.set(metric.name, metric);
+		return metric;
+	}
+
+	counter<L extends string = never>(options: MetricOptions<L>): Counter<L> {
+		return this.register(new Counter(options));
+	}
+
+	gauge<L extends string = never>(options: MetricOptions<L>): Gauge<L> {
+		return this.register(new Gauge(options));
+	}
+
+	histogram<L extends string = never>(
+		options: MetricOptions<L> & { buckets?: readonly number[] },
+	): Histogram<L> {
+		return this.register(new Histogram(options));
+	}
+
+	/**
+	 * Runs every `collect` callback, then renders all metrics.
+	 *
+	 * @returns {Promise<string>} The exposition text, ending in a newline
+	 */
+	async render(): Promise<string> {
+		const metrics = [...this.metrics.values()];
+		await Promise.all(metrics.map((m) => m.collect?.()));
+		return `${metrics.map((m) => m.render()).join("\n")}\n`;
+	}
+}
+
+/**
+ * Provider label of each upstream method.
+ */
+const UPSTREAM_PROVIDERS = {
+	gnewsSearch: "gnews",
+	gnewsTopHeadlines: "gnews",
+	newsapiTopHeadlines: "newsapi",
+	newsapiEverything: "newsapi",
+	mediastackNews: "mediastack",
+	fdcSearch: "fdc",
+	fdcFood: "fdc",
+	googleCse: "cse",
+	youtubeSearch: "youtube",
+	webDetection: "vision",
+} as const satisfies Record<Exclude<keyof UpstreamProvider, "mode">, string>;
+
+/**
+ * Wraps an upstream provider so every call is counted and timed per provider
+ * (`gnews`, `newsapi`, `mediastack`, `fdc`, `cse`, `youtube`, `vision`).
+ *
+ * @param {UpstreamProvider} provider - The provider to wrap
+ * @param {MetricsRegistry} registry - Where to register the upstream metrics
+ * @returns {UpstreamProvider} A provider with the same behavior
+ */
+export const instrumentProvider = (
+	provider: UpstreamProvider,
+	registry: MetricsRegistry,
+): UpstreamProvider => {
+	const calls = registry.counter<"provider" | "operation" | "outcome">({
+		name: "upstream_requests_total",
+		help: "Upstream API calls by provider, operation and outcome",
+		labelNames: ["provider", "operation", "outcome"],
+	});
+	const duration = registry.histogram<"provider" | "operation">({
+		name: "upstream_request_duration_seconds",
+		help: "Upstream API call latency in seconds",
+		labelNames: ["provider", "operation"],
+	});
+
+	const wrap =
+		<A, R>(
+			operation: keyof typeof UPSTREAM_PROVIDERS,
+			call: (arg: A) => Promise<R>,
+		) =>
+		async (arg: A): Promise<R> => {
+			const labels = { provider: UPSTREAM_PROVIDERS[operation], operation };
+			const stop = duration.startTimer(labels);
+			try {
+				const result = await call(arg);
+				calls.inc({ ...labels, outcome: "success" });
+				return result;
+			} catch (error) {
+				calls.inc({ ...labels, outcome: "error" });
+				throw error;
+			} finally {
+				stop();
+			}
+		};
+
+	return {
+		mode: provider.mode,
+		gnewsSearch: wrap("gnewsSearch", (p) => provider.gnewsSearch(p)),
+		gnewsTopHeadlines: wrap("gnewsTopHeadlines", (p) =>
+			provider.gnewsTopHeadlines(p),
+		),
+		newsapiTopHeadlines: wrap("newsapiTopHeadlines", (p) =>
+			provider.newsapiTopHeadlines(p),
+		),
+		newsapiEverything: wrap("newsapiEverything", (p) =>
+			provider.newsapiEverything(p),
+		),
+		mediastackNews: wrap("mediastackNews", (p) => provider.mediastackNews(p)),
+		fdcSearch: wrap("fdcSearch", (p) => provider.fdcSearch(p)),
+		fdcFood: wrap("fdcFood", (p) => provider.fdcFood(p)),
+		googleCse: wrap("googleCse", (p) => provider.googleCse(p)),
+		youtubeSearch: wrap("youtubeSearch", (p) => provider.youtubeSearch(p)),
+		webDetection: wrap("webDetection", (c) => provider.webDetection(c)),
+	};
+};
+
+/**
+ * Registers response cache metrics, read from {@link ResponseCache.stats} at
+ * scrape time.
+ *
+ * @param {MetricsRegistry} registry - Where to register the metrics
+ * @param {ResponseCache} cache - The upstream response cache
+ */
+export const registerCacheMetrics = (
+	registry: MetricsRegistry,
+	cache: ResponseCache,
+): void => {
+	let stats: Promise<Awaited<ReturnType<ResponseCache["stats"]>>> | undefined;
+	// All three metrics read one stats() call per scrape
+	const read = () => {
+		stats ??= cache.stats().finally(() => {
+			stats = undefined;
+		});
+		return stats;
+	};
+
+	const lookups = registry.counter<"route" | "result">({
+		name: "cache_lookups_total",
+		help: "Response cache lookups by route and result (hit, stale, miss)",
+		labelNames: ["route", "result"],
+		collect: async () => {
+			const { routes } = await read();
+			lookups.reset();
+			for (const [route, s] of Object.entries(routes)) {
+				lookups.inc({ route, result: "hit" }, s.hits);
+				lookups.inc({ route, result: "stale" }, s.stale);
+				lookups.inc({ route, result: "miss" }, s.misses);
+			}
+		},
+	});
+	const hitRatio: Gauge = registry.gauge({
+		name: "cache_hit_ratio",
+		help: "Share of response cache lookups served from cache, fresh or stale",
+		collect: async () => hitRatio.set({}, (await read()).hitRatio),
+	});
+	const entries: Gauge = registry.gauge({
+		name: "cache_entries",
+		help: "Entries currently in the response cache",
+		collect: async () => entries.set({}, (await read()).entries),
+	});
+};
+
+/**
+ * Registers process metrics: CPU time, memory, uptime and start time.
+ *
+ * @param {MetricsRegistry} registry - Where to register the metrics
+ */
+export const registerProcessMetrics = (registry: MetricsRegistry): void => {
+	const startTime = Math.round(Date.now() / 1_000 - process.uptime());
+
+	const cpu = registry.counter<"mode">({
+		name: "process_cpu_seconds_total",
+		help: "CPU time spent by the process in seconds",
+		labelNames: ["mode"],
+		collect: () => {
+			const { user, system } = process.cpuUsage();
+			cpu.reset();
+			cpu.inc({ mode: "user" }, user / 1e6);
+			cpu.inc({ mode: "system" }, system / 1e6);
+		},
+	});
+	const memory = registry.gauge<"type">({
+		name: "process_memory_bytes",
+		help: "Process memory usage in bytes",
+		labelNames: ["type"],
+		collect: () => {
+			const usage = process.memoryUsage();
+			memory.set({ type: "rss" }, usage.rss);
+			memory.set({ type: "heap_total" }, usage.heapTotal);
+			memory.set({ type: "heap_used" }, usage.heapUsed);
+			memory.set({ type: "external" }, usage.external);
+		},
+	});
+	const uptime: Gauge = registry.gauge({
+		name: "process_uptime_seconds",
+		help: "Seconds since the process started",
+		collect: () => uptime.set({}, process.uptime()),
+	});
+	registry
+		.gauge({
+			name: "process_start_time_seconds",
+			help: "Start time of the process since the Unix epoch in seconds",
+		})
+		.set({}, startTime);
+};
@@ -0,0 +1,262 @@
+/**
+ * @fileoverview RFC 9457 problem details for every error the API returns.
+ *
+ * Route handlers and middleware throw {@link HttpProblem} (or let upstream
+ * errors propagate); the app's `onError` turns whatever was thrown into an
+ * `application/problem+json` response with {@link problemFor}. Upstream
+ * failures map to gateway statuses: timeouts to 504, other transport, HTTP and
+ * decoding failures to 502, and responses that do not match their schema to
+ * 502 with the schema problems listed. Rejected uploads answer 413, 415 or 422.
+ *
+ * `type` is `about:blank` when the status says it all, otherwise a relative
+ * `/problems/<kind>` URI that clients can switch on.
+ */
+
+import { STATUS_CODES } from "node:http";
+import type { Static } from "@sinclair/typebox";
+import { TraversalError } from "arktype";
+import { ValidationError as RequestValidationError } from "elysia";
+import { FeatureDisabledError } from "../config/server";
+import {
+	DecodeError,
+	HttpError,
+	NetworkError,
+	TimeoutError,
+	ValidationError,
+} from "../effect-schema-fetcher";
+import { ImageRejectedError } from "./image";
+import {
+	type Problem,
+	type ValidationProblem,
+	validationProblems,
+} from "./schemas";
+
+/**
+ * Content type of problem responses.
+ */
+export const PROBLEM_CONTENT_TYPE = "application/problem+json";
+
+/**
+ * A problem details object, with the extension members this API uses.
+ */
+export type ProblemDetails = Static<typeof Problem>;
+
+/**
+ * A problem before the request-specific `instance` and `requestId` are added,
+ * and the headers to send with it.
+ * @interface
+ */
+export interface ProblemInit extends Omit<ProblemDetails, "instance"> {
+	headers?: Record<string, string>;
+}
+
+/**
+ * Options for {@link HttpProblem}.
+ * @interface
+ */
+export interface HttpProblemOptions {
+	/** Problem type slug, giving `type: /problems/<kind>`; `about:blank` otherwise */
+	kind?: string;
+	/** Explanation specific to this occurrence */
+	detail?: string;
+	/** Response headers, e.g. `Retry-After` */
+	headers?: Record<string, string>;
+	/** Extra members of the problem object */
+	extensions?: Record<string, unknown>;
+}
+
+/**
+ * An error that answers the request with a problem response.
+ */
+export class HttpProblem extends Error {
+	/**
+	 * @param {number} status - HTTP status code
+	 * @param {string} title - Short summary of the problem type
+	 * @param {HttpProblemOptions} [options] - Type, detail, headers and extensions
+	 */
+	constructor(
+		readonly status: number,
+		readonly title: string,
+		readonly options: HttpProblemOptions = {},
+	) {
+		super(options.detail ?? title);
+		this.name = "HttpProblem";
+	}
+}
+
+const problemType = (kind?: string): string =>
+	kind ? `/problems/${kind}` : "about:blank";
+
+const statusTitle = (status: number): string => STATUS_CODES[status] ?? "Error";
+
+// Upstream URLs carry API keys in the query, so only the host is reported
+const upstreamHost = (url: string): string | undefined => {
+	try {
+		return new URL(url).host;
+	} catch {
+		return undefined;
+	}
+};
+
+const IMAGE_REJECTIONS: Record<
+	ImageRejectedError["reason"],
+	[status: number, kind: string, title: string]
+> = {
+	"too-large": [413, "image-too-large", "Image too large"],
+	"unsupported-type": [415, "unsupported-image", "Unsupported image type"],
+	undecodable: [422, "invalid-image", "Invalid image"],
+};
+
+/**
+ * Splits the fetcher's `path: message` problem lines into problem entries.
+ */
+const upstreamProblems = (
+	problems: string,
+): Static<typeof ValidationProblem>[] =>
+	problems
+		.split("\n")
+		.filter(Boolean)
+		.map((line) => {
+			const [, field = "", message = line] =
+				/^([\w$.[\]-]+): (.*)$/.exec(line) ?? [];
+			return { in: "upstream", field, message };
+		});
+
+/**
+ * Maps a thrown error to the problem the API answers with.
+ *
+ * @param {string | number} code - The Elysia error code
+ * @param {unknown} error - The thrown error
+ * @returns {ProblemInit} The problem, with its status and headers
+ */
+export const problemFor = (
+	code: string | number,
+	error: unknown,
+): ProblemInit => {
+	if (error instanceof HttpProblem) {
+		const { kind, detail, headers, extensions } = error.options;
+		return {
+			...extensions,
+			type: problemType(kind),
+			title: error.title,
+			status: error.status,
+			...(detail !== undefined && { detail }),
+			headers,
+		};
+	}
+	if (error instanceof FeatureDisabledError) {
+		return {
+			type: problemType("feature-disabled"),
+			title: "Feature disabled",
+			status: error.status,
+			detail: error.message,
+			variables: error.variables,
+		};
+	}
+	if (error instanceof ImageRejectedError) {
+		const [status, kind, title] = IMAGE_REJECTIONS[error.reason];
+		return {
+			type: problemType(kind),
+			title,
+			status,
+			detail: error.message,
+		};
+	}
+	if (error instanceof RequestValidationError) {
+		return error.type === "response"
+			? {
+					type: problemType(),
+					title: statusTitle(500),
+					status: 500,
+					detail: "The response did not match its schema",
+				}
+			: {
+					type: problemType("invalid-request"),
+					title: "Invalid request",
+					status: 400,
+					detail: `Invalid values in the request ${error.type}`,
+					problems: validationProblems(error),
+				};
+	}
+	if (error instanceof TimeoutError) {
+		return {
+			type: problemType("upstream-timeout"),
+			title: "Upstream timeout",
+			status: 504,
+			detail: `The upstream API did not answer within ${error.timeout}ms`,
+			upstream: { host: upstreamHost(error.url) },
+		};
+	}
+	if (error instanceof HttpError) {
+		return {
+			type: problemType("upstream-error"),
+			title: "Upstream error",
+			status: 502,
+			detail: `The upstream API answered with status ${error.status}`,
+			upstream: { host: upstreamHost(error.url), status: error.status },
+		};
+	}
+	// Transport error messages can quote the upstream URL, so they stay in the log
+	if (error instanceof NetworkError || error instanceof DecodeError) {
+		return {
+			type: problemType("upstream-error"),
+			title: "Upstream error",
+			status: 502,
+			detail:
+				error instanceof NetworkError
+					? "The upstream API could not be reached"
+					: "The upstream response could not be read",
+			upstream: { host: upstreamHost(error.url) },
+		};
+	}
+	if (error instanceof ValidationError) {
+		return {
+			type: problemType("upstream-contract"),
+			title: "Unexpected upstream response",
+			status: 502,
+			detail: "The upstream response did not match its schema",
+			upstream: { host: upstreamHost(error.url) },
+			problems: upstreamProblems(error.problems),
+		};
+	}
+	// Fixture and DTO checks (`Schema.assert`) throw arktype errors
+	if (error instanceof TraversalError) {
+		return {
+			type: problemType("upstream-contract"),
+			title: "Unexpected upstream response",
+			status: 502,
+			detail: "The upstream response did not match its schema",
+			problems: Array.from(error.arkErrors, (e) => ({
+				in: "upstream",
+				field: e.path.map(String).join("."),
+				message: e.problem,
+			})),
+		};
+	}
+
+	const status =
+		typeof code === "number"
+			? code
+			: code === "NOT_FOUND"
+				? 404
+				: code === "PARSE" || code === "INVALID_COOKIE_SIGNATURE"
+					? 400
+					: 500;
+	return { type: problemType(), title: statusTitle(status), status };
+};
+
+/**
+ * Builds a problem response.
+ *
+ * @param {ProblemDetails} problem - The problem object
+ * @param {Record<string, string>} [headers] - Extra response headers
+ * @returns {Response} The `application/problem+json` response
+ */
+export const problemResponse = (
+	problem: ProblemDetails,
+	headers: Record<string, string> = {},
+): Response =>
+	new Response(JSON.stringify(problem, null, 2), {
+		status: problem.status,
+		headers: { "content-type": PROBLEM_CONTENT_TYPE, ...headers },
+	});
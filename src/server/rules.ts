@@ -0,0 +1,89 @@
+/**
+ * @fileoverview Classification rules read from disk, with hot reload.
+ *
+ * The server classifies with the ruleset in `CLASSIFICATION_RULES` (JSON, or
+ * YAML for `.yaml`/`.yml` files), or with the bundled
+ * `classification-rules.json`. With `CLASSIFICATION_RULES_WATCH` (on outside
+ * production) the file is watched and re-validated on every change; a
+ * ruleset that fails validation is reported and the previous one stays
+ * active.
+ */
+
+import { watch } from "node:fs";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+	type ClassificationRules,
+	compileRules,
+	RulesetError,
+} from "../components/upload/ClassificationRules";
+
+/**
+ * Path of the ruleset bundled with the app.
+ */
+export const BUNDLED_RULES_FILE = fileURLToPath(
+	new URL("../components/upload/classification-rules.json", import.meta.url),
+);
+
+/**
+ * Reads and validates a ruleset file.
+ *
+ * @param {string} file - Path of a `.json`, `.yaml` or `.yml` ruleset
+ * @returns {Promise<ClassificationRules>} The compiled rules
+ * @throws {RulesetError} If the file cannot be parsed or fails validation
+ */
+export const loadRulesFile = async (
+	file: string,
+): Promise<ClassificationRules> => {
+	const text = await fs.readFile(file, "utf8");
+	let input: unknown;
+	try {
+		input = /\.ya?ml$/i.test(file) ? Bun.YAML.parse(text) : JSON.parse(text);
+	} catch (e) {
+		throw new RulesetError(
+			`${path.basename(file)}: ${e instanceof Error ? e.message : String(e)}`,
+		);
+	}
+	return compileRules(input);
+};
+
+/**
+ * Callbacks for {@link watchRulesFile}.
+ * @interface
+ */
+export interface RulesWatchHandlers {
+	onLoad: (rules: ClassificationRules) => void;
+	onError: (error: unknown) => void;
+}
+
+/**
+ * Reloads a ruleset file whenever it changes. The directory is watched
+ * rather than the file, since editors often save by replacing the file.
+ *
+ * @param {string} file - Path of the ruleset
+ * @param {RulesWatchHandlers} handlers - Called with each reloaded ruleset or error
+ * @param {number} [debounce=100] - Milliseconds to wait for a burst of writes to settle
+ * @returns {() => void} Stops watching
+ */
+export const watchRulesFile = (
+	file: string,
+	handlers: RulesWatchHandlers,
+	debounce = 100,
+): (() => void) => {
+	const name = path.basename(file);
+	let timer: ReturnType<typeof setTimeout> | undefined;
+
+	const watcher = watch(path.dirname(file), (_event, changed) => {
+		if (changed !== name) return;
+		clearTimeout(timer);
+		timer = setTimeout(() => {
+			loadRulesFile(file).then(handlers.onLoad, handlers.onError);
+		}, debounce);
+	});
+
+	return () => {
+		clearTimeout(timer);
+		watcher.close();
+	};
+};
@@ -0,0 +1,635 @@
+/**
+ * @fileoverview Request and response schemas for the API routes.
+ *
+ * Query and body schemas use Elysia's TypeBox builder (`t`), so Elysia
+ * validates them, Swagger documents them and the Eden client in `src/core.ts`
+ * is typed from them. Upstream responses reuse the arktype schemas from
+ * `src/lib/api/schemas` through {@link arkSchema} instead of restating them.
+ */
+
+import {
+	Kind,
+	type Static,
+	type TSchema,
+	TypeRegistry,
+} from "@sinclair/typebox";
+import { type Type, type } from "arktype";
+import { t, type ValidationError } from "elysia";
+import { NewsResponse as MediastackResponse } from "../lib/api/schemas/article";
+import {
+	Food,
+	SearchResult as FoodSearchResult,
+} from "../lib/api/schemas/food";
+import { GNewsResponse } from "../lib/api/schemas/gnews";
+import { ArticleResponse as NewsAPIResponse } from "../lib/api/schemas/news";
+import { SearchRecommendation } from "../lib/api/schemas/search";
+import { YoutubeSearchResponse } from "../lib/api/schemas/youtube";
+
+/**
+ * Holds the arktype schema on its TypeBox wrapper. A symbol key keeps it out
+ * of the JSON Schema that Swagger serializes.
+ */
+const ARK = Symbol("arktype");
+
+TypeRegistry.Set<{ [ARK]: Type }>(
+	"ArkType",
+	(schema, value) => !(schema[ARK](value) instanceof type.errors),
+);
+
+/**
+ * Wraps an arktype schema for Elysia: values are validated by arktype, Swagger
+ * gets its JSON Schema and Eden infers its type.
+ *
+ * @param {Type} schema - The arktype schema
+ * @returns {TSchema} A TypeBox schema typed as `schema.infer`
+ */
+export const arkSchema = <T extends Type>(schema: T) => {
+	// Constraints JSON Schema cannot express (e.g. `string.url`) fall back to their base type
+	const { $schema: _, ...json } = schema.toJsonSchema({
+		fallback: (ctx) => ctx.base,
+	}) as Record<string, unknown>;
+	return t.Unsafe<T["infer"]>({ ...json, [Kind]: "ArkType", [ARK]: schema });
+};
+
+/**
+ * Upstream response bodies, as served by the proxy routes.
+ */
+export const UpstreamResponses = {
+	gnews: arkSchema(GNewsResponse),
+	newsapi: arkSchema(NewsAPIResponse),
+	mediastack: arkSchema(MediastackResponse),
+	fdcSearch: arkSchema(FoodSearchResult),
+	fdcFood: arkSchema(Food),
+	cse: arkSchema(SearchRecommendation),
+	youtube: arkSchema(YoutubeSearchResponse),
+} satisfies Record<string, TSchema>;
+
+/**
+ * Empty body of a `304 Not Modified` from a cached route.
+ */
+export const NotModified = t.Void();
+
+/**
+ * One invalid value: a request parameter in a 400, or an upstream field in a
+ * 502 when the upstream response does not match its schema.
+ */
+export const ValidationProblem = t.Object({
+	/** Where the value is: `query`, `params`, `body`, `headers`, `cookie` or `upstream` */
+	in: t.String(),
+	/** The field, with nested fields joined by `.` */
+	field: t.String(),
+	message: t.String(),
+});
+
+/**
+ * RFC 9457 problem details, the body of every error response (see
+ * `./problem`). Extension members vary by problem type.
+ */
+export const Problem = t.Object(
+	{
+		/** Identifies the problem type: `about:blank` or `/problems/<kind>` */
+		type: t.String(),
+		title: t.String(),
+		status: t.Integer(),
+		detail: t.Optional(t.String()),
+		/** The request path */
+		instance: t.Optional(t.String()),
+		/** The request's `X-Request-Id`, for finding it in the logs */
+		requestId: t.Optional(t.String()),
+		/** Every invalid value, for `invalid-request` and `upstream-contract` */
+		problems: t.Optional(t.Array(ValidationProblem)),
+		/** The failed upstream API, for `upstream-*` problems */
+		upstream: t.Optional(
+			t.Object({
+				host: t.Optional(t.String()),
+				/** The upstream's own status, when it answered */
+				status: t.Optional(t.Integer()),
+			}),
+		),
+		/** Environment variables that would enable the feature, for `feature-disabled` */
+		variables: t.Optional(t.Array(t.String())),
+	},
+	{ additionalProperties: true },
+);
+
+/**
+ * Query integer: a base-10 string (or a number) within `minimum`..`maximum`.
+ * Checked as its own kind so bounds fail in the same pass as every other
+ * parameter; `t.Numeric` only checks them while decoding, one at a time.
+ */
+TypeRegistry.Set<{ minimum: number; maximum?: number }>(
+	"QueryInteger",
+	({ minimum, maximum = Number.POSITIVE_INFINITY }, value) => {
+		const n =
+			typeof value === "string" && /^-?\d+$/.test(value)
+				? Number(value)
+				: value;
+		return Number.isInteger(n) && Number(n) >= minimum && Number(n) <= maximum;
+	},
+);
+
+/**
+ * An integer query or path parameter, decoded to a number.
+ *
+ * @param {number} minimum - Smallest accepted value
+ * @param {number} [maximum] - Largest accepted value
+ * @returns {TSchema} The parameter schema
+ */
+const integer = (minimum: number, maximum?: number) =>
+	t
+		.Transform(
+			t.Unsafe<number | string>({
+				[Kind]: "QueryInteger",
+				type: "integer",
+				minimum,
+				...(maximum !== undefined && { maximum }),
+			}),
+		)
+		.Decode((value) => Number(value))
+		.Encode((value) => value);
+
+/**
+ * An enumerated parameter. `t.UnionEnum` defaults to its first value, which
+ * Elysia would fill in for an absent parameter and send upstream.
+ *
+ * @param {string[]} values - The accepted values
+ * @returns {TSchema} The parameter schema
+ */
+const oneOf = <const T extends readonly [string, ...string[]]>(values: T) =>
+	t.UnionEnum(values, { default: undefined });
+
+/**
+ * A string matching `pattern`, with `error` as its problem message.
+ *
+ * @param {RegExp} pattern - The accepted format
+ * @param {string} error - What the value should look like
+ * @returns {TSchema} The parameter schema
+ */
+const matching = (pattern: RegExp, error: string) =>
+	t.String({ pattern: pattern.source, error });
+
+const escapeRegExp = (value: string) =>
+	value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * A comma-separated list of `values`, e.g. `title,content`.
+ *
+ * @param {string[]} values - The accepted list items
+ * @param {string} [prefix=""] - Optional item prefix, e.g. `-` for exclusions
+ * @returns {TSchema} The parameter schema
+ */
+const listOf = (values: readonly string[], prefix = "") => {
+	const item = `${prefix}(?:${values.map(escapeRegExp).join("|")})`;
+	return matching(
+		new RegExp(`^${item}(?:,${item})*$`),
+		`Expected a comma-separated list of: ${values.join(", ")}`,
+	);
+};
+
+/**
+ * A non-empty search term.
+ *
+ * @param {number} [maxLength] - Longest query the upstream accepts
+ * @returns {TSchema} The parameter schema
+ */
+const searchTerm = (maxLength?: number) =>
+	maxLength === undefined
+		? t.String({ minLength: 1, error: "Expected a non-empty search term" })
+		: t.String({
+				minLength: 1,
+				maxLength,
+				error: `Expected a search term of 1 to ${maxLength} characters`,
+			});
+
+/** ISO 8601 date or date-time, as the news APIs accept for `from`/`to` */
+const isoDate = matching(
+	/^\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:\d{2})?)?$/,
+	"Expected an ISO 8601 date or date-time, e.g. 2024-01-31 or 2024-01-31T12:00:00Z",
+);
+
+/** Languages GNews supports */
+const GNEWS_LANGUAGES = [
+	"ar",
+	"de",
+	"el",
+	"en",
+	"es",
+	"fr",
+	"he",
+	"hi",
+	"it",
+	"ja",
+	"ml",
+	"mr",
+	"nl",
+	"no",
+	"pt",
+	"ro",
+	"ru",
+	"sv",
+	"ta",
+	"te",
+	"uk",
+	"zh",
+] as const;
+
+/** Countries GNews supports */
+const GNEWS_COUNTRIES = [
+	"au",
+	"br",
+	"ca",
+	"ch",
+	"cn",
+	"de",
+	"eg",
+	"es",
+	"fr",
+	"gb",
+	"gr",
+	"hk",
+	"ie",
+	"il",
+	"in",
+	"it",
+	"jp",
+	"nl",
+	"no",
+	"pe",
+	"ph",
+	"pk",
+	"pt",
+	"ro",
+	"ru",
+	"se",
+	"sg",
+	"tw",
+	"ua",
+	"us",
+] as const;
+
+/** Languages NewsAPI supports */
+const NEWSAPI_LANGUAGES = [
+	"ar",
+	"de",
+	"en",
+	"es",
+	"fr",
+	"he",
+	"it",
+	"nl",
+	"no",
+	"pt",
+	"ru",
+	"sv",
+	"ud",
+	"zh",
+] as const;
+
+/** Countries NewsAPI's top headlines support */
+const NEWSAPI_COUNTRIES = [
+	"ae",
+	"ar",
+	"at",
+	"au",
+	"be",
+	"bg",
+	"br",
+	"ca",
+	"ch",
+	"cn",
+	"co",
+	"cu",
+	"cz",
+	"de",
+	"eg",
+	"fr",
+	"gb",
+	"gr",
+	"hk",
+	"hu",
+	"id",
+	"ie",
+	"il",
+	"in",
+	"it",
+	"jp",
+	"kr",
+	"lt",
+	"lv",
+	"ma",
+	"mx",
+	"my",
+	"ng",
+	"nl",
+	"no",
+	"nz",
+	"ph",
+	"pl",
+	"pt",
+	"ro",
+	"rs",
+	"ru",
+	"sa",
+	"se",
+	"sg",
+	"si",
+	"sk",
+	"th",
+	"tr",
+	"tw",
+	"ua",
+	"us",
+	"ve",
+	"za",
+] as const;
+
+/** Languages Mediastack supports */
+const MEDIASTACK_LANGUAGES = [
+	"ar",
+	"de",
+	"en",
+	"es",
+	"fr",
+	"he",
+	"it",
+	"nl",
+	"no",
+	"pt",
+	"ru",
+	"se",
+	"zh",
+] as const;
+
+const NEWS_CATEGORIES = [
+	"business",
+	"entertainment",
+	"general",
+	"health",
+	"science",
+	"sports",
+	"technology",
+] as const;
+
+export const GNewsSearchQuery = t.Object({
+	q: searchTerm(),
+	lang: t.Optional(oneOf(GNEWS_LANGUAGES)),
+	country: t.Optional(oneOf(GNEWS_COUNTRIES)),
+	max: t.Optional(integer(1, 100)),
+	in: t.Optional(listOf(["title", "description", "content"])),
+	nullable: t.Optional(listOf(["description", "content", "image"])),
+	from: t.Optional(isoDate),
+	to: t.Optional(isoDate),
+	sortby: t.Optional(oneOf(["relevance", "publishedAt"])),
+});
+
+export const GNewsTopHeadlinesQuery = t.Object({
+	lang: t.Optional(oneOf(GNEWS_LANGUAGES)),
+	country: t.Optional(oneOf(GNEWS_COUNTRIES)),
+	max: t.Optional(integer(1, 100)),
+	nullable: t.Optional(listOf(["description", "content", "image"])),
+	category: t.Optional(
+		oneOf([
+			"general",
+			"world",
+			"nation",
+			"business",
+			"technology",
+			"entertainment",
+			"sports",
+			"science",
+			"health",
+		]),
+	),
+});
+
+export const NewsAPITopHeadlinesQuery = t.Object({
+	country: t.Optional(oneOf(NEWSAPI_COUNTRIES)),
+	category: t.Optional(oneOf(NEWS_CATEGORIES)),
+	sources: t.Optional(t.String()),
+	q: t.Optional(searchTerm(500)),
+	pageSize: t.Optional(integer(1, 100)),
+	page: t.Optional(integer(1)),
+});
+
+export const NewsAPIEverythingQuery = t.Object({
+	q: searchTerm(500),
+	searchIn: t.Optional(listOf(["title", "description", "content"])),
+	sources: t.Optional(t.String()),
+	domains: t.Optional(t.String()),
+	excludeDomains: t.Optional(t.String()),
+	from: t.Optional(isoDate),
+	to: t.Optional(isoDate),
+	language: t.Optional(oneOf(NEWSAPI_LANGUAGES)),
+	sortBy: t.Optional(oneOf(["relevancy", "popularity", "publishedAt"])),
+	pageSize: t.Optional(integer(1, 100)),
+	page: t.Optional(integer(1)),
+});
+
+// Mediastack list filters exclude an item when it is prefixed with "-"
+export const MediastackNewsQuery = t.Object({
+	keywords: t.Optional(t.String()),
+	sources: t.Optional(t.String()),
+	categories: t.Optional(listOf(NEWS_CATEGORIES, "-?")),
+	countries: t.Optional(
+		matching(
+			/^-?[a-z]{2}(?:,-?[a-z]{2})*$/,
+			"Expected a comma-separated list of two-letter country codes",
+		),
+	),
+	languages: t.Optional(listOf(MEDIASTACK_LANGUAGES, "-?")),
+	date: t.Optional(
+		matching(
+			/^\d{4}-\d{2}-\d{2}(?:,\d{4}-\d{2}-\d{2})?$/,
+			"Expected a date or a date range, e.g. 2024-01-01,2024-01-31",
+		),
+	),
+	sort: t.Optional(oneOf(["published_desc", "popularity"])),
+	limit: t.Optional(integer(1, 100)),
+	offset: t.Optional(integer(0)),
+});
+
+export const FdcSearchQuery = t.Object({
+	query: searchTerm(),
+	dataType: t.Optional(
+		listOf(["Branded", "Foundation", "Survey (FNDDS)", "SR Legacy"]),
+	),
+	pageSize: t.Optional(integer(1, 200)),
+	pageNumber: t.Optional(integer(1)),
+	sortBy: t.Optional(
+		oneOf([
+			"dataType.keyword",
+			"lowercaseDescription.keyword",
+			"fdcId",
+			"publishedDate",
+		]),
+	),
+	sortOrder: t.Optional(oneOf(["asc", "desc"])),
+	brandOwner: t.Optional(t.String()),
+});
+
+export const FdcFoodParams = t.Object({ fdcId: integer(1) });
+
+export const FdcFoodQuery = t.Object({
+	format: t.Optional(oneOf(["abridged", "full"])),
+	// FoodData Central accepts up to 25 nutrient numbers
+	nutrients: t.Optional(
+		matching(
+			/^\d+(?:,\d+){0,24}$/,
+			"Expected up to 25 comma-separated nutrient numbers",
+		),
+	),
+});
+
+// Custom Search returns at most 100 results: num <= 10 and start <= 91
+export const CseQuery = t.Object({
+	q: searchTerm(),
+	num: t.Optional(integer(1, 10)),
+	start: t.Optional(integer(1, 91)),
+	safe: t.Optional(oneOf(["off", "active"])),
+	lr: t.Optional(
+		matching(/^lang_[a-zA-Z-]+$/, "Expected a language restrict, e.g. lang_en"),
+	),
+	siteSearch: t.Optional(t.String()),
+	fields: t.Optional(t.String()),
+});
+
+export const YouTubeSearchQuery = t.Object({
+	q: searchTerm(),
+	maxResults: t.Optional(integer(1, 50)),
+	pageToken: t.Optional(t.String()),
+});
+
+/**
+ * Multipart body of the image upload routes.
+ */
+export const ImageUpload = t.Object({ file: t.File() });
+
+/**
+ * Normalized Vision `webDetection`; see `normalizeWebDetection`.
+ */
+export const WebDetection = t.Object({
+	webEntities: t.Array(
+		t.Object({
+			description: t.Optional(t.String()),
+			score: t.Optional(t.Number()),
+		}),
+	),
+	fullMatchingImages: t.Array(t.Object({ url: t.String() })),
+	partialMatchingImages: t.Array(t.Object({ url: t.String() })),
+	pagesWithMatchingImages: t.Array(
+		t.Object({ url: t.String(), pageTitle: t.Optional(t.String()) }),
+	),
+});
+
+/**
+ * The uploaded image as sent upstream; see `preprocessImage`.
+ */
+export const NormalizedImage = t.Object({
+	hash: t.String({ description: "Hex SHA-256 of the normalized JPEG" }),
+	dhash: t.String({
+		description: "Hex 64-bit difference hash, for near-duplicate detection",
+	}),
+	mimeType: t.Literal("image/jpeg"),
+	width: t.Integer(),
+	height: t.Integer(),
+	sourceType: t.UnionEnum(["jpeg", "png", "gif", "webp", "avif", "heic"]),
+	sourceBytes: t.Integer(),
+	resized: t.Boolean(),
+});
+
+/**
+ * Path parameters of the stored analysis admin route.
+ */
+export const AnalysisParams = t.Object({
+	dhash: matching(/^[0-9a-f]{16}$/, "Expected a 16-digit hex image hash"),
+});
+
+/**
+ * Path parameters of the job routes.
+ */
+export const JobParams = t.Object({
+	id: matching(
+		/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/,
+		"Expected a job id",
+	),
+});
+
+/**
+ * A background analysis job; see `src/server/jobs.ts`. `result` is the
+ * `PipelineResult` once the job has succeeded.
+ */
+export const AnalysisJob = t.Object({
+	id: t.String(),
+	status: t.UnionEnum(["queued", "running", "succeeded", "failed"]),
+	stage: t.Optional(t.String()),
+	progress: t.Integer(),
+	retries: t.Integer(),
+	image: t.Object({ hash: t.String(), dhash: t.String() }),
+	result: t.Optional(t.Unknown()),
+	error: t.Optional(t.String()),
+	createdAt: t.String(),
+	updatedAt: t.String(),
+});
+
+/**
+ * The active classification ruleset, as written; see
+ * `src/components/upload/ClassificationRules.ts` for the full schema.
+ */
+export const ClassificationRuleset = t.Object(
+	{
+		version: t.Literal(1),
+		fallback: t.String(),
+		categories: t.Record(t.String(), t.Unknown()),
+		primitives: t.Record(t.String(), t.Unknown()),
+	},
+	{ additionalProperties: true },
+);
+
+export const ReverseImageResponse = t.Object({
+	ok: t.Boolean(),
+	data: WebDetection,
+	image: NormalizedImage,
+});
+
+/**
+ * Describes a schema problem in terms of the values the schema accepts;
+ * TypeBox only names the failed kind for `UnionEnum` and `QueryInteger`.
+ */
+const problemMessage = (schema: TSchema, value: unknown, fallback: string) => {
+	if (value === undefined) return "Required";
+	if (typeof schema.error === "string") return schema.error;
+	if (schema[Kind] === "UnionEnum") {
+		return `Expected one of: ${schema.enum.join(", ")}`;
+	}
+	if (schema[Kind] === "QueryInteger") {
+		return schema.maximum === undefined
+			? `Expected an integer of at least ${schema.minimum}`
+			: `Expected an integer from ${schema.minimum} to ${schema.maximum}`;
+	}
+	return fallback;
+};
+
+/**
+ * Lists the problems of a failed request validation, one per field.
+ *
+ * @param {ValidationError} error - Elysia's validation error for a request part
+ * @returns {Static<typeof ValidationProblem>[]} The problems, in schema order
+ */
+export const validationProblems = (
+	error: ValidationError,
+): Static<typeof ValidationProblem>[] => {
+	const problems = new Map<string, Static<typeof ValidationProblem>>();
+	for (const entry of error.all) {
+		if (entry.summary === undefined) continue;
+		const field = entry.path.slice(1).replaceAll("/", ".");
+		if (problems.has(field)) continue;
+		problems.set(field, {
+			in: error.type,
+			field,
+			message: problemMessage(entry.schema, entry.value, entry.message),
+		});
+	}
+	return problems.size
+		? [...problems.values()]
+		: [{ in: error.type, field: "", message: "Invalid value" }];
+};
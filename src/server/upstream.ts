@@ -0,0 +1,447 @@
+/**
+ * @fileoverview Upstream providers for the proxy routes.
+ *
+ * The API routes talk to GNews, NewsAPI, Mediastack, FoodData Central, Google
+ * CSE, YouTube and Vision through an {@link UpstreamProvider} instead of
+ * hardcoded endpoints:
+ * - `live` calls the real APIs and requires their keys. It can optionally
+ *   record every response into a fixture directory.
+ * - `fixture` replays recorded JSON from disk, validated against the same
+ *   schemas as live responses, so the server runs offline with no keys.
+ *
+ * Fixtures live at `<dir>/<route>/<key>.json`, where `<key>` is the first 16
+ * hex characters of the SHA-1 of the normalized client query parameters (or
+ * of the image bytes for Vision). `<dir>/<route>/default.json` answers any
+ * request without a dedicated fixture.
+ */
+
+import { createHash } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { HttpClient } from "@effect/platform/HttpClient";
+import vision from "@google-cloud/vision";
+import type { Effect } from "effect";
+import type { WebDetect } from "../components/upload/AnalysisStages";
+import { requireKeys, type ServerConfig } from "../config/server";
+import { get } from "../effect-schema-fetcher";
+import { FDC_HOST, MEDIASTACK_HOST } from "../lib/api/rate-limits";
+import { NewsResponse as MediastackResponse } from "../lib/api/schemas/article";
+import {
+	Food,
+	SearchResult as FoodSearchResult,
+} from "../lib/api/schemas/food";
+import { GNewsResponse } from "../lib/api/schemas/gnews";
+import { ArticleResponse as NewsAPIResponse } from "../lib/api/schemas/news";
+import {
+	RawCse,
+	SearchRecommendation,
+	type TRawCse,
+	type TSearchRecommendation,
+} from "../lib/api/schemas/search";
+import { YoutubeSearchResponse } from "../lib/api/schemas/youtube";
+import { normalizeParams } from "./cache";
+
+const GNEWS_BASE = "https://gnews.io/api/v4";
+const NEWSAPI_BASE = "https://newsapi.org/v2";
+const MEDIASTACK_BASE = `https://${MEDIASTACK_HOST}/v1`;
+const FDC_BASE = `https://${FDC_HOST}/fdc/v1`;
+const CSE_ENDPOINT = "https://customsearch.googleapis.com/customsearch/v1";
+const YT_SEARCH_ENDPOINT = "https://www.googleapis.com/youtube/v3/search";
+
+/**
+ * Host names the live provider calls; Vision goes through its client library.
+ */
+export const UPSTREAM_HOSTS = [
+	...new Set(
+		[
+			GNEWS_BASE,
+			NEWSAPI_BASE,
+			MEDIASTACK_BASE,
+			FDC_BASE,
+			CSE_ENDPOINT,
+			YT_SEARCH_ENDPOINT,
+		].map((url) => new URL(url).hostname),
+	),
+	"vision.googleapis.com",
+];
+
+/**
+ * Client-supplied query parameters forwarded upstream. API keys are added by
+ * the live provider and never appear here.
+ */
+export type UpstreamParams = Record<string, string | number | undefined>;
+
+/**
+ * Raw Vision `webDetection` annotation, as returned by the client library.
+ */
+export type RawWebDetection = { webDetection?: Record<string, unknown> | null };
+
+/**
+ * The upstream APIs used by the proxy routes.
+ * @interface
+ */
+export interface UpstreamProvider {
+	/** Which implementation is active */
+	readonly mode: "live" | "fixture";
+	gnewsSearch(params: UpstreamParams): Promise<typeof GNewsResponse.infer>;
+	gnewsTopHeadlines(
+		params: UpstreamParams,
+	): Promise<typeof GNewsResponse.infer>;
+	newsapiTopHeadlines(
+		params: UpstreamParams,
+	): Promise<typeof NewsAPIResponse.infer>;
+	newsapiEverything(
+		params: UpstreamParams,
+	): Promise<typeof NewsAPIResponse.infer>;
+	mediastackNews(
+		params: UpstreamParams,
+	): Promise<typeof MediastackResponse.infer>;
+	fdcSearch(params: UpstreamParams): Promise<typeof FoodSearchResult.infer>;
+	/** `params.fdcId` selects the food; the rest are forwarded as query parameters */
+	fdcFood(params: UpstreamParams): Promise<typeof Food.infer>;
+	googleCse(params: UpstreamParams): Promise<TRawCse>;
+	youtubeSearch(
+		params: UpstreamParams,
+	): Promise<typeof YoutubeSearchResponse.infer>;
+	webDetection(content: Buffer): Promise<RawWebDetection>;
+}
+
+/**
+ * Runs an Effect that needs an `HttpClient`; the server passes its `run()` helper.
+ */
+export type EffectRunner = <A, E>(
+	eff: Effect.Effect<A, E, HttpClient>,
+) => Promise<A>;
+
+/**
+ * Options for {@link createLiveProvider}.
+ * @interface
+ */
+export interface LiveProviderOptions {
+	run: EffectRunner;
+	/** Upstream keys; calls needing a missing key throw {@link FeatureDisabledError} */
+	keys: ServerConfig["keys"];
+	/** Path to the Google service account file used by Vision */
+	visionKeyFilename?: string;
+	/** When set, every successful response is also written as a fixture here */
+	recordDir?: string;
+}
+
+/**
+ * Upstream route names; also the fixture subdirectory names.
+ */
+export type UpstreamRoute =
+	| "gnews-search"
+	| "gnews-top-headlines"
+	| "newsapi-top-headlines"
+	| "newsapi-everything"
+	| "mediastack-news"
+	| "fdc-search"
+	| "fdc-food"
+	| "google-cse"
+	| "youtube-search"
+	| "vision-web-detection";
+
+const hashKey = (input: string | Buffer): string =>
+	createHash("sha1").update(input).digest("hex").slice(0, 16);
+
+/**
+ * Computes the fixture file key for a request.
+ *
+ * @param {UpstreamParams | Buffer} input - Query parameters, or image bytes for Vision
+ * @returns {string} The fixture file name without extension
+ */
+export const fixtureKey = (input: UpstreamParams | Buffer): string =>
+	hashKey(Buffer.isBuffer(input) ? input : normalizeParams(input));
+
+const writeFixture = async (
+	dir: string,
+	route: UpstreamRoute,
+	input: UpstreamParams | Buffer,
+	data: unknown,
+): Promise<void> => {
+	const routeDir = path.join(dir, route);
+	await fs.mkdir(routeDir, { recursive: true });
+	await fs.writeFile(
+		path.join(routeDir, `${fixtureKey(input)}.json`),
+		JSON.stringify(data, null, 2),
+	);
+};
+
+/**
+ * Creates the provider that calls the real upstream APIs.
+ *
+ * @param {LiveProviderOptions} options - Keys, Effect runner and optional recording directory
+ * @returns {UpstreamProvider} The live provider
+ */
+export const createLiveProvider = (
+	options: LiveProviderOptions,
+): UpstreamProvider => {
+	const { run, keys, recordDir } = options;
+	const gnewsKey = () => requireKeys("GNews", ["gnews"], keys)[0];
+	const newsapiKey = () => requireKeys("NewsAPI", ["newsapi"], keys)[0];
+	const mediastackKey = () =>
+		requireKeys("Mediastack", ["mediastack"], keys)[0];
+	const fdcKey = () =>
+		requireKeys("Nutrition lookups (FoodData Central)", ["food"], keys)[0];
+	const googleKey = (feature: string) =>
+		requireKeys(feature, ["google"], keys)[0];
+
+	const client = new vision.ImageAnnotatorClient({
+		keyFilename: options.visionKeyFilename ?? "./credentials.json",
+	});
+
+	const recorded = async <T>(
+		route: UpstreamRoute,
+		input: UpstreamParams | Buffer,
+		data: Promise<T>,
+	): Promise<T> => {
+		const value = await data;
+		if (recordDir) await writeFixture(recordDir, route, input, value);
+		return value;
+	};
+
+	return {
+		mode: "live",
+		gnewsSearch: async (params) =>
+			recorded(
+				"gnews-search",
+				params,
+				run(
+					get(
+						`${GNEWS_BASE}/search`,
+						{ schema: GNewsResponse },
+						{ apikey: gnewsKey(), ...params },
+					),
+				),
+			),
+		gnewsTopHeadlines: async (params) =>
+			recorded(
+				"gnews-top-headlines",
+				params,
+				run(
+					get(
+						`${GNEWS_BASE}/top-headlines`,
+						{ schema: GNewsResponse },
+						{ apikey: gnewsKey(), ...params },
+					),
+				),
+			),
+		newsapiTopHeadlines: async (params) =>
+			recorded(
+				"newsapi-top-headlines",
+				params,
+				run(
+					get(
+						`${NEWSAPI_BASE}/top-headlines`,
+						{ schema: NewsAPIResponse },
+						{ apiKey: newsapiKey(), ...params },
+					),
+				),
+			),
+		newsapiEverything: async (params) =>
+			recorded(
+				"newsapi-everything",
+				params,
+				run(
+					get(
+						`${NEWSAPI_BASE}/everything`,
+						{ schema: NewsAPIResponse },
+						{ apiKey: newsapiKey(), ...params },
+					),
+				),
+			),
+		// Mediastack and FDC queue on the shared host limiters (see rate-limits.ts)
+		mediastackNews: async (params) =>
+			recorded(
+				"mediastack-news",
+				params,
+				run(
+					get(
+						`${MEDIASTACK_BASE}/news`,
+						{ schema: MediastackResponse, rateLimit: true },
+						{ access_key: mediastackKey(), ...params },
+					),
+				),
+			),
+		fdcSearch: async (params) =>
+			recorded(
+				"fdc-search",
+				params,
+				run(
+					get(
+						`${FDC_BASE}/foods/search`,
+						{ schema: FoodSearchResult, rateLimit: true },
+						{ api_key: fdcKey(), ...params },
+					),
+				),
+			),
+		fdcFood: async ({ fdcId, ...params }) =>
+			recorded(
+				"fdc-food",
+				{ fdcId, ...params },
+				run(
+					get(
+						`${FDC_BASE}/food/${encodeURIComponent(fdcId ?? "")}`,
+						{ schema: Food, rateLimit: true },
+						{ api_key: fdcKey(), ...params },
+					),
+				),
+			),
+		googleCse: async (params) => {
+			const [key, cx] = requireKeys(
+				"Google Custom Search",
+				["google", "googleCseCx"],
+				keys,
+			);
+			return recorded(
+				"google-cse",
+				params,
+				run(get(CSE_ENDPOINT, { schema: RawCse }, { key, cx, ...params })),
+			);
+		},
+		youtubeSearch: async (params) =>
+			recorded(
+				"youtube-search",
+				params,
+				run(
+					get(
+						YT_SEARCH_ENDPOINT,
+						{ schema: YoutubeSearchResponse },
+						{
+							key: googleKey("YouTube search"),
+							part: "snippet",
+							type: "video",
+							...params,
+						},
+					),
+				),
+			),
+		webDetection: (content) =>
+			recorded(
+				"vision-web-detection",
+				content,
+				client
+					.webDetection({ image: { content } })
+					.then(([res]) => res as RawWebDetection),
+			),
+	};
+};
+
+/**
+ * Creates the provider that replays recorded JSON fixtures.
+ *
+ * @param {string} dir - Fixture root directory
+ * @returns {UpstreamProvider} The fixture provider
+ */
+export const createFixtureProvider = (dir: string): UpstreamProvider => {
+	const load = async (
+		route: UpstreamRoute,
+		input: UpstreamParams | Buffer,
+	): Promise<unknown> => {
+		const candidates = [fixtureKey(input), "default"].map((name) =>
+			path.join(dir, route, `${name}.json`),
+		);
+		for (const file of candidates) {
+			try {
+				return JSON.parse(await fs.readFile(file, "utf8"));
+			} catch (error) {
+				if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+			}
+		}
+		throw new Error(
+			`No ${route} fixture found; expected ${candidates.join(" or ")}`,
+		);
+	};
+
+	return {
+		mode: "fixture",
+		gnewsSearch: async (params) =>
+			GNewsResponse.assert(await load("gnews-search", params)),
+		gnewsTopHeadlines: async (params) =>
+			GNewsResponse.assert(await load("gnews-top-headlines", params)),
+		newsapiTopHeadlines: async (params) =>
+			NewsAPIResponse.assert(await load("newsapi-top-headlines", params)),
+		newsapiEverything: async (params) =>
+			NewsAPIResponse.assert(await load("newsapi-everything", params)),
+		mediastackNews: async (params) =>
+			MediastackResponse.assert(await load("mediastack-news", params)),
+		fdcSearch: async (params) =>
+			FoodSearchResult.assert(await load("fdc-search", params)),
+		fdcFood: async (params) => Food.assert(await load("fdc-food", params)),
+		googleCse: async (params) =>
+			RawCse.assert(await load("google-cse", params)),
+		youtubeSearch: async (params) =>
+			YoutubeSearchResponse.assert(await load("youtube-search", params)),
+		webDetection: async (content) =>
+			(await load("vision-web-detection", content)) as RawWebDetection,
+	};
+};
+
+/**
+ * Field selection the CSE route asks for unless the client overrides it.
+ */
+export const CSE_DEFAULT_FIELDS =
+	"searchInformation(totalResults,searchTime,formattedTotalResults,formattedSearchTime),items(link,title,snippet,pagemap/cse_thumbnail)";
+
+/**
+ * Trims a raw CSE response to the {@link SearchRecommendation} DTO.
+ *
+ * @param {TRawCse} raw - The upstream response
+ * @returns {TSearchRecommendation} The validated DTO
+ */
+export const toSearchRecommendation = (raw: TRawCse): TSearchRecommendation =>
+	SearchRecommendation.assert({
+		info: {
+			totalResults: raw.searchInformation?.totalResults ?? "0",
+			searchTime: raw.searchInformation?.searchTime ?? 0,
+			formattedTotalResults:
+				raw.searchInformation?.formattedTotalResults ?? "0",
+			formattedSearchTime: raw.searchInformation?.formattedSearchTime ?? "0",
+		},
+		items: (raw.items ?? []).map((it) => {
+			const t = it?.pagemap?.cse_thumbnail?.[0];
+			return {
+				link: it?.link ?? "",
+				title: it?.title ?? "No title",
+				snippet: it?.snippet ?? "No snippet available",
+				...(t?.src
+					? {
+							thumbnail: {
+								src: String(t.src),
+								width: String(t.width ?? ""),
+								height: String(t.height ?? ""),
+							},
+						}
+					: {}),
+			};
+		}),
+	});
+
+/**
+ * Normalizes a Vision `webDetection` annotation to the client's `WebDetect` shape.
+ *
+ * @param {RawWebDetection} res - The raw annotation
+ * @returns {WebDetect} Entities, matching images and pages
+ */
+export const normalizeWebDetection = (res: RawWebDetection): WebDetect => {
+	const web: any = res?.webDetection ?? {};
+	return {
+		webEntities: (web.webEntities ?? []).map((e: any) => ({
+			description: e.description,
+			score: e.score,
+		})),
+		fullMatchingImages: (web.fullMatchingImages ?? []).map((i: any) => ({
+			url: i.url ?? "",
+		})),
+		partialMatchingImages: (web.partialMatchingImages ?? []).map((i: any) => ({
+			url: i.url ?? "",
+		})),
+		pagesWithMatchingImages: (web.pagesWithMatchingImages ?? []).map(
+			(p: any) => ({
+				url: p.url ?? "",
+				pageTitle: p.pageTitle,
+			}),
+		),
+	};
+};
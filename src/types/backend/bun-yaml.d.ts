@@ -0,0 +1,7 @@
+// `Bun.YAML` ships with Bun 1.2.21; the installed bun-types predate it
+declare module "bun" {
+	namespace YAML {
+		/** Parses a YAML document; multi-document input yields an array */
+		function parse(input: string): unknown;
+	}
+}
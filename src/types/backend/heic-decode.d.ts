@@ -0,0 +1,24 @@
+declare module "heic-decode" {
+	/** A decoded image: RGBA pixels, row by row */
+	interface DecodedImage {
+		width: number;
+		height: number;
+		data: Uint8ClampedArray;
+	}
+
+	/** Decodes the primary image of a HEIC file */
+	function decode(input: {
+		buffer: ArrayBufferLike | Uint8Array;
+	}): Promise<DecodedImage>;
+
+	namespace decode {
+		/** Lists every image in the file, decoding each on demand */
+		function all(input: {
+			buffer: ArrayBufferLike | Uint8Array;
+		}): Promise<
+			(Omit<DecodedImage, "data"> & { decode(): Promise<DecodedImage> })[]
+		>;
+	}
+
+	export default decode;
+}
@@ -1,14 +1,12 @@
 /// <reference types="vite/client" />
 
+// Only variables meant for the browser; read them through src/config/client.ts.
+// Upstream secrets are server-only (src/config/server.ts).
 interface ImportMetaEnv {
-	VITE_JWT_SECRETS: string;
-	VITE_NEWS_API_KEY: string;
-	VITE_GNEWS_API_KEY: string;
-	VITE_ARTICLE_API_KEY: string;
-	VITE_FOOD_API_KEY: string;
-	VITE_GOOGLE_API_KEY: string;
-	VITE_GOOGLE_SEARCH_ENGINE_ID: string;
-	VITE_GEMINI_API_KEY: string;
+	VITE_HTTP_CASSETTE?: string;
+	VITE_HTTP_CASSETTE_MODE?: string;
+	VITE_HTTP_CASSETTE_STRICT?: string;
+	VITE_API_KEY?: string;
 }
 
 interface ImportMeta {
@@ -1,10 +1,44 @@
 // vite.config.ts
 import react from "@vitejs/plugin-react";
 import path from "path";
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
+
+/**
+ * Modules that hold upstream API keys or read the server configuration.
+ * Browser code calls the proxy routes through `src/core.ts` and imports
+ * response schemas from `src/lib/api/schemas` instead.
+ */
+const SERVER_ONLY = [
+	/\/src\/lib\/api\/(article|food|gnews|image|index|news|search|youtube)\.ts$/,
+	/\/src\/config\/server\.ts$/,
+	/\/src\/server\//,
+];
+
+/**
+ * Fails the build when browser code imports a server-only module, naming the
+ * importer. Type-only imports are erased before resolution and pass.
+ */
+const serverOnly = (): Plugin => ({
+	name: "server-only",
+	enforce: "pre",
+	async resolveId(source, importer, options) {
+		if (!importer || options.ssr) return null;
+		const resolved = await this.resolve(source, importer, {
+			...options,
+			skipSelf: true,
+		});
+		const id = resolved?.id.replace(/\\/g, "/");
+		if (id && SERVER_ONLY.some((pattern) => pattern.test(id))) {
+			this.error(
+				`${path.relative(__dirname, importer)} imports the server-only module ${path.relative(__dirname, id)}; browser code must call the proxy routes (src/core.ts)`,
+			);
+		}
+		return resolved;
+	},
+});
 
 export default defineConfig({
-	plugins: [react()],
+	plugins: [serverOnly(), react()],
 	resolve: {
 		alias: { "@": path.resolve(__dirname, "./src") },
 	},